@@ -0,0 +1,247 @@
+/**
+ * Packs the images in the image manifest into an atlas: one image with every image in it, and a JSON frame map saying
+ * where each one is, so the game can load them all in one request. Run it with `npm run atlas` after adding or
+ * changing an image, and commit the atlas it writes to img/.
+ *
+ * The manifest is read from IMAGES in src/Constants.ts. Images are packed into rows, tallest first, with a pixel of
+ * space around each so they don't bleed into each other when drawn scaled. Only 8 bit RGBA PNGs, which is what every
+ * image in img/ is, can be packed.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+const ROOT = path.join(__dirname, '..');
+const CONSTANTS_FILE = path.join(ROOT, 'src', 'Constants.ts');
+const ATLAS_IMAGE_FILE = path.join(ROOT, 'img', 'atlas.png');
+const ATLAS_FRAMES_FILE = path.join(ROOT, 'img', 'atlas.json');
+
+const ATLAS_WIDTH = 256;
+const PADDING = 1;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const BYTES_PER_PIXEL = 4;
+
+/**
+ * Read the name and file of every image in the manifest.
+ */
+function readManifest() {
+    const source = fs.readFileSync(CONSTANTS_FILE, 'utf8');
+    const enumBody = source.match(/export enum IMAGE_NAMES \{([^}]*)\}/);
+    if (!enumBody) {
+        throw new Error(`Could not find IMAGE_NAMES in ${CONSTANTS_FILE}`);
+    }
+
+    const names = {};
+    enumBody[1].replace(/(\w+) = '([^']+)'/g, (match, key, value) => {
+        names[key] = value;
+    });
+
+    const images = [];
+    source.replace(/\{ name: IMAGE_NAMES\.(\w+), url: '([^']+)'/g, (match, key, url) => {
+        images.push({ name: names[key], file: path.join(ROOT, url) });
+    });
+
+    if (!images.length) {
+        throw new Error(`Could not find any images in IMAGES in ${CONSTANTS_FILE}`);
+    }
+
+    return images;
+}
+
+/**
+ * Decode a PNG file into its size and rows of RGBA pixels.
+ */
+function decodePng(file) {
+    const data = fs.readFileSync(file);
+    if (!data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+        throw new Error(`${file} is not a PNG`);
+    }
+
+    let width = 0;
+    let height = 0;
+    const compressed = [];
+
+    for (let offset = PNG_SIGNATURE.length; offset < data.length;) {
+        const length = data.readUInt32BE(offset);
+        const type = data.toString('ascii', offset + 4, offset + 8);
+        const chunk = data.subarray(offset + 8, offset + 8 + length);
+
+        if (type === 'IHDR') {
+            width = chunk.readUInt32BE(0);
+            height = chunk.readUInt32BE(4);
+
+            const bitDepth = chunk[8];
+            const colorType = chunk[9];
+            const interlaced = chunk[12];
+            if (bitDepth !== 8 || colorType !== 6 || interlaced) {
+                throw new Error(`${file} must be an 8 bit RGBA PNG without interlacing`);
+            }
+        } else if (type === 'IDAT') {
+            compressed.push(chunk);
+        }
+
+        offset += length + 12;
+    }
+
+    return { width, height, pixels: unfilter(zlib.inflateSync(Buffer.concat(compressed)), width, height) };
+}
+
+/**
+ * Undo the filter on each row of a decoded PNG, returning the raw pixels.
+ */
+function unfilter(filtered, width, height) {
+    const stride = width * BYTES_PER_PIXEL;
+    const pixels = Buffer.alloc(stride * height);
+
+    for (let y = 0; y < height; y++) {
+        const filter = filtered[y * (stride + 1)];
+        const row = filtered.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+
+        for (let x = 0; x < stride; x++) {
+            const left = x >= BYTES_PER_PIXEL ? pixels[y * stride + x - BYTES_PER_PIXEL] : 0;
+            const up = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+            const upLeft = y > 0 && x >= BYTES_PER_PIXEL ? pixels[(y - 1) * stride + x - BYTES_PER_PIXEL] : 0;
+
+            let predicted;
+            switch (filter) {
+                case 0:
+                    predicted = 0;
+                    break;
+                case 1:
+                    predicted = left;
+                    break;
+                case 2:
+                    predicted = up;
+                    break;
+                case 3:
+                    predicted = Math.floor((left + up) / 2);
+                    break;
+                case 4:
+                    predicted = paeth(left, up, upLeft);
+                    break;
+                default:
+                    throw new Error(`Unknown PNG filter ${filter}`);
+            }
+
+            pixels[y * stride + x] = (row[x] + predicted) & 0xff;
+        }
+    }
+
+    return pixels;
+}
+
+function paeth(left, up, upLeft) {
+    const estimate = left + up - upLeft;
+    const leftDistance = Math.abs(estimate - left);
+    const upDistance = Math.abs(estimate - up);
+    const upLeftDistance = Math.abs(estimate - upLeft);
+
+    if (leftDistance <= upDistance && leftDistance <= upLeftDistance) {
+        return left;
+    }
+
+    return upDistance <= upLeftDistance ? up : upLeft;
+}
+
+/**
+ * Encode rows of RGBA pixels as a PNG.
+ */
+function encodePng(width, height, pixels) {
+    const stride = width * BYTES_PER_PIXEL;
+    const filtered = Buffer.alloc((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        pixels.copy(filtered, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8;
+    header[9] = 6;
+
+    return Buffer.concat([
+        PNG_SIGNATURE,
+        encodeChunk('IHDR', header),
+        encodeChunk('IDAT', zlib.deflateSync(filtered, { level: 9 })),
+        encodeChunk('IEND', Buffer.alloc(0)),
+    ]);
+}
+
+function encodeChunk(type, data) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+
+    const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(typeAndData));
+
+    return Buffer.concat([length, typeAndData, crc]);
+}
+
+function crc32(data) {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc ^= data[i];
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+        }
+    }
+
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Work out where each image goes in the atlas, filling rows left to right with the tallest images first, and return
+ * the height the atlas needs to be.
+ */
+function layOut(images) {
+    const sorted = images.slice().sort((image1, image2) => image2.height - image1.height);
+    let x = PADDING;
+    let y = PADDING;
+    let rowHeight = 0;
+
+    sorted.forEach((image) => {
+        if (x + image.width + PADDING > ATLAS_WIDTH) {
+            x = PADDING;
+            y += rowHeight + PADDING;
+            rowHeight = 0;
+        }
+
+        image.x = x;
+        image.y = y;
+        x += image.width + PADDING;
+        rowHeight = Math.max(rowHeight, image.height);
+    });
+
+    return y + rowHeight + PADDING;
+}
+
+function packAtlas() {
+    const images = readManifest().map((image) => Object.assign(image, decodePng(image.file)));
+    const height = layOut(images);
+    const pixels = Buffer.alloc(ATLAS_WIDTH * height * BYTES_PER_PIXEL);
+    const frames = {};
+
+    images.forEach((image) => {
+        for (let row = 0; row < image.height; row++) {
+            image.pixels.copy(
+                pixels,
+                ((image.y + row) * ATLAS_WIDTH + image.x) * BYTES_PER_PIXEL,
+                row * image.width * BYTES_PER_PIXEL,
+                (row + 1) * image.width * BYTES_PER_PIXEL
+            );
+        }
+
+        frames[image.name] = { x: image.x, y: image.y, width: image.width, height: image.height };
+    });
+
+    fs.writeFileSync(ATLAS_IMAGE_FILE, encodePng(ATLAS_WIDTH, height, pixels));
+    const atlas = { image: path.basename(ATLAS_IMAGE_FILE), frames };
+    fs.writeFileSync(ATLAS_FRAMES_FILE, JSON.stringify(atlas, null, 4) + '\n');
+
+    console.log(`Packed ${images.length} images into ${ATLAS_IMAGE_FILE}, ${ATLAS_WIDTH}x${height}`);
+}
+
+packAtlas();
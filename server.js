@@ -1,9 +1,270 @@
 const express = require('express');
+const fs = require('fs');
 const path = require('path');
 const port = process.env.PORT || 8080;
 const app = express();
 
+// Leaderboard scores are kept in a JSON file, which can be moved with the SCORES_FILE environment variable
+const scoresFile = process.env.SCORES_FILE || path.join(__dirname, 'data', 'scores.json');
+
+const MAX_NAME_LENGTH = 12;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+const MAX_SEED = 4294967295;
+
+// Each difficulty and physics mode has its own board, so scores are only ranked against runs played the same way. A
+// board that isn't asked for is the one the game starts on.
+const DIFFICULTIES = ['easy', 'normal', 'hard'];
+const PHYSICS_MODES = ['arcade', 'momentum'];
+const DEFAULT_DIFFICULTY = 'normal';
+const DEFAULT_PHYSICS = 'arcade';
+
+// Only the best scores on each seed on each board are kept, so the scores file doesn't grow forever
+const MAX_SCORES_PER_SEED = 100;
+
+/**
+ * Read the saved scores from a scores file, best first. No file yet just means no scores yet. A file that can't be read
+ * as a list of scores is moved aside, so it can be looked at later rather than overwritten, and the scores start
+ * afresh. Scores in the list that aren't valid, say from a hand edit, are dropped.
+ */
+function loadScores(file) {
+    let contents;
+    try {
+        contents = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+        if (error.code === 'ENOENT') {
+            return [];
+        }
+
+        throw error;
+    }
+
+    try {
+        const loaded = JSON.parse(contents);
+        if (Array.isArray(loaded)) {
+            const valid = loaded.filter((score) => !validateSavedScore(score));
+            if (valid.length < loaded.length) {
+                console.error(`Dropped ${loaded.length - valid.length} invalid scores from scores file ${file}`);
+            }
+
+            return trimScores(valid.sort(compareScores));
+        }
+    } catch (error) {
+        // Handled below, the same as a file that isn't a list
+    }
+
+    const corruptFile = `${file}.corrupt-${Date.now()}`;
+    fs.renameSync(file, corruptFile);
+    console.error(`Scores file ${file} is corrupt, moved it to ${corruptFile} and started with no scores`);
+
+    return [];
+}
+
+// The best scores on each seed, best first. Only replaced once the scores file has been written, so it never has
+// scores that failed to save. Loaded when the server starts.
+let scores = [];
+
+// Saves are chained so that only one write to the scores file happens at a time. The chain carries on past a failed
+// save, so one failure doesn't fail every save after it.
+let saving = Promise.resolve();
+
+/**
+ * Add a score to the scores file, and to the scores once it's been written. Writes go to a temporary file first and
+ * are then moved into place, so a crash part way through a write never leaves a corrupt scores file behind.
+ */
+function addScore(score) {
+    const save = saving.then(async () => {
+        const updatedScores = trimScores(scores.concat(score).sort(compareScores));
+        const tempFile = `${scoresFile}.tmp`;
+
+        await fs.promises.mkdir(path.dirname(scoresFile), { recursive: true });
+        await fs.promises.writeFile(tempFile, JSON.stringify(updatedScores, null, 2));
+        await fs.promises.rename(tempFile, scoresFile);
+
+        scores = updatedScores;
+    });
+    saving = save.catch(() => {});
+
+    return save;
+}
+
+/**
+ * Order scores from best to worst. Ties go to whoever got there first.
+ */
+function compareScores(score1, score2) {
+    return score2.points - score1.points || score1.date.localeCompare(score2.date);
+}
+
+/**
+ * Keep only the best scores on each seed on each board from a list of scores ordered best first.
+ */
+function trimScores(list) {
+    const seedCounts = {};
+
+    return list.filter((score) => {
+        const key = `${score.difficulty}:${score.physics}:${score.seed}`;
+        seedCounts[key] = (seedCounts[key] || 0) + 1;
+
+        return seedCounts[key] <= MAX_SCORES_PER_SEED;
+    });
+}
+
+/**
+ * The scores on the board for a difficulty and physics mode
+ */
+function boardOf(list, difficulty, physics) {
+    return list.filter((score) => score.difficulty === difficulty && score.physics === physics);
+}
+
+/**
+ * Read which board is asked for from the query string, falling back to the default board.
+ */
+function parseBoard(query) {
+    return {
+        difficulty: DIFFICULTIES.indexOf(query.difficulty) !== -1 ? query.difficulty : DEFAULT_DIFFICULTY,
+        physics: PHYSICS_MODES.indexOf(query.physics) !== -1 ? query.physics : DEFAULT_PHYSICS,
+    };
+}
+
+/**
+ * A score's rank among a list of scores, 1 being the best
+ */
+function rankOf(list, score) {
+    return list.filter((other) => other.points > score.points).length + 1;
+}
+
+/**
+ * Read the number of scores asked for from the query string, keeping it within sensible bounds.
+ */
+function parseLimit(query) {
+    const limit = parseInt(query.limit, 10);
+
+    return Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT;
+}
+
+/**
+ * Check a submitted score, returning an error message describing the problem if it isn't valid.
+ */
+function validateScore(body) {
+    if (!body || typeof body !== 'object') {
+        return 'Score must be a JSON object';
+    }
+
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.trim().length > MAX_NAME_LENGTH) {
+        return `name must be between 1 and ${MAX_NAME_LENGTH} characters`;
+    }
+
+    if (!Number.isInteger(body.points) || body.points < 0) {
+        return 'points must be a whole number, 0 or more';
+    }
+
+    if (typeof body.distance !== 'number' || !isFinite(body.distance) || body.distance < 0) {
+        return 'distance must be a number, 0 or more';
+    }
+
+    if (!Number.isInteger(body.seed) || body.seed < 0 || body.seed > MAX_SEED) {
+        return 'seed must be a whole number between 0 and ' + MAX_SEED;
+    }
+
+    if (DIFFICULTIES.indexOf(body.difficulty) === -1) {
+        return `difficulty must be one of ${DIFFICULTIES.join(', ')}`;
+    }
+
+    if (PHYSICS_MODES.indexOf(body.physics) === -1) {
+        return `physics must be one of ${PHYSICS_MODES.join(', ')}`;
+    }
+
+    return null;
+}
+
+/**
+ * Check a score read back from the scores file, which is checked like a submitted score but must also have the date
+ * it was set. Returns an error message describing the problem if it isn't valid.
+ */
+function validateSavedScore(score) {
+    const error = validateScore(score);
+    if (error) {
+        return error;
+    }
+
+    if (typeof score.date !== 'string' || isNaN(Date.parse(score.date))) {
+        return 'date must be an ISO date';
+    }
+
+    return null;
+}
+
+app.use(express.json());
+
+// List the top scores of all time on a board
+app.get('/api/scores', (req, res) => {
+    const board = parseBoard(req.query);
+
+    res.json(boardOf(scores, board.difficulty, board.physics).slice(0, parseLimit(req.query)));
+});
+
+// List the top scores for a single seed on a board
+app.get('/api/scores/seed/:seed', (req, res) => {
+    const seed = Number(req.params.seed);
+    const board = parseBoard(req.query);
+
+    res.json(
+        boardOf(scores, board.difficulty, board.physics)
+            .filter((score) => score.seed === seed)
+            .slice(0, parseLimit(req.query))
+    );
+});
+
+// Submit a score, responding with where it ranks overall and for its seed
+app.post('/api/scores', async (req, res) => {
+    const error = validateScore(req.body);
+    if (error) {
+        res.status(400).json({ error });
+        return;
+    }
+
+    const score = {
+        name: req.body.name.trim(),
+        points: req.body.points,
+        distance: req.body.distance,
+        seed: req.body.seed,
+        difficulty: req.body.difficulty,
+        physics: req.body.physics,
+        date: new Date().toISOString(),
+    };
+
+    try {
+        await addScore(score);
+    } catch (saveError) {
+        res.status(500).json({ error: 'Could not save score' });
+        return;
+    }
+
+    const board = boardOf(scores, score.difficulty, score.physics);
+
+    res.status(201).json({
+        score,
+        rank: rankOf(board, score),
+        seedRank: rankOf(board.filter((other) => other.seed === score.seed), score),
+    });
+});
+
+// Bodies that aren't valid JSON are a bad request like any other, answered in JSON rather than with an error page
+app.use((error, req, res, next) => {
+    if (error.type === 'entity.parse.failed') {
+        res.status(400).json({ error: 'Score must be valid JSON' });
+        return;
+    }
+
+    next(error);
+});
+
 // the __dirname is the current directory from where the script is running
 app.use(express.static(__dirname + '/dist'));
 
-app.listen(port);
\ No newline at end of file
+if (require.main === module) {
+    scores = loadScores(scoresFile);
+    app.listen(port);
+}
+
+module.exports = { loadScores, trimScores, validateScore, MAX_SCORES_PER_SEED };
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { loadScores, MAX_SCORES_PER_SEED, validateScore } = require('./server');
+
+/**
+ * Return a valid submitted score, with any fields passed in changed.
+ */
+function createScore(fields) {
+    return { name: 'Skier', points: 100, distance: 50, seed: 1234, difficulty: 'normal', physics: 'arcade', ...fields };
+}
+
+describe('validateScore', () => {
+    test('accepts a valid score', () => {
+        expect(validateScore(createScore())).toBeNull();
+    });
+
+    test.each([
+        ['a score that isn\'t an object', null, 'Score must be a JSON object'],
+        ['a blank name', createScore({ name: '  ' }), 'name'],
+        ['a name that is too long', createScore({ name: 'A much too long name' }), 'name'],
+        ['missing points', createScore({ points: undefined }), 'points'],
+        ['fractional points', createScore({ points: 1.5 }), 'points'],
+        ['negative points', createScore({ points: -1 }), 'points'],
+        ['a distance that isn\'t a number', createScore({ distance: '50' }), 'distance'],
+        ['a negative distance', createScore({ distance: -1 }), 'distance'],
+        ['a seed out of range', createScore({ seed: 4294967296 }), 'seed'],
+        ['a missing difficulty', createScore({ difficulty: undefined }), 'difficulty'],
+        ['an unknown difficulty', createScore({ difficulty: 'extreme' }), 'difficulty'],
+        ['an unknown physics mode', createScore({ physics: 'realistic' }), 'physics'],
+    ])('rejects %s', (description, score, error) => {
+        expect(validateScore(score)).toContain(error);
+    });
+});
+
+describe('loadScores', () => {
+    let directory;
+    let file;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scores-'));
+        file = path.join(directory, 'scores.json');
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    /**
+     * Return a valid saved score, with any fields passed in changed.
+     */
+    function createSavedScore(fields) {
+        return createScore({ date: '2026-01-01T00:00:00.000Z', ...fields });
+    }
+
+    test('starts with no scores when there is no scores file', () => {
+        expect(loadScores(file)).toEqual([]);
+    });
+
+    test('loads the saved scores best first', () => {
+        const scores = [createSavedScore({ points: 10 }), createSavedScore({ points: 30 })];
+        fs.writeFileSync(file, JSON.stringify(scores));
+
+        expect(loadScores(file)).toEqual([scores[1], scores[0]]);
+    });
+
+    test('drops saved scores that aren\'t valid', () => {
+        const valid = createSavedScore();
+        fs.writeFileSync(file, JSON.stringify([
+            valid,
+            createSavedScore({ points: 'lots' }),
+            createSavedScore({ distance: undefined }),
+            createSavedScore({ date: 'yesterday' }),
+            null,
+        ]));
+
+        expect(loadScores(file)).toEqual([valid]);
+    });
+
+    test('keeps only the best scores on each seed on each board', () => {
+        const scores = [];
+        for (let points = 0; points < MAX_SCORES_PER_SEED + 5; points++) {
+            scores.push(createSavedScore({ points }));
+        }
+        const otherSeed = createSavedScore({ seed: 1 });
+        const otherBoard = createSavedScore({ difficulty: 'hard' });
+        fs.writeFileSync(file, JSON.stringify(scores.concat(otherSeed, otherBoard)));
+
+        const loaded = loadScores(file);
+        const board = loaded.filter((score) => score.seed === 1234 && score.difficulty === 'normal');
+
+        expect(board).toHaveLength(MAX_SCORES_PER_SEED);
+        expect(board[board.length - 1].points).toBe(5);
+        expect(loaded).toContainEqual(otherSeed);
+        expect(loaded).toContainEqual(otherBoard);
+    });
+
+    test.each([
+        ['isn\'t JSON', '{ not json'],
+        ['isn\'t a list', '{}'],
+    ])('moves aside a scores file that %s and starts with no scores', (description, contents) => {
+        fs.writeFileSync(file, contents);
+
+        expect(loadScores(file)).toEqual([]);
+        expect(fs.existsSync(file)).toBe(false);
+        expect(fs.readdirSync(directory)).toEqual([expect.stringMatching(/^scores\.json\.corrupt-\d+$/)]);
+    });
+});
@@ -1,8 +1,11 @@
 import { iImage } from "./Interfaces/iImage";
 
 export const GAME_CANVAS = 'skiCanvas';
-export const GAME_WIDTH = window.innerWidth;
-export const GAME_HEIGHT = window.innerHeight;
+
+/**
+ * The URL query parameter that sets the world seed, so a layout can be reproduced by sharing a link.
+ */
+export const SEED_QUERY_PARAM = 'seed';
 
 export enum KEYS {
     LEFT = "ArrowLeft",
@@ -11,7 +14,15 @@ export enum KEYS {
     DOWN = "ArrowDown",
     SPACE = "Space",
     ESCAPE = "Escape",
+    ENTER = "Enter",
+    BACKSPACE = "Backspace",
     TOGGLE_PAUSE = "KeyP",
+    EXPORT_REPLAY = "KeyR",
+    LOAD_REPLAY = "KeyL",
+    DELETE = "Delete",
+    UNDO = "KeyZ",
+    REDO = "KeyY",
+    TOGGLE_SNAP = "KeyG",
 };
 
 export enum IMAGE_NAMES {
@@ -40,36 +51,238 @@ export enum IMAGE_NAMES {
     SKIER_JUMP5 = 'skierJump5',
     TREE = 'tree',
     TREE_CLUSTER = 'treeCluster',
+    GATE_RED = 'gateRed',
+    GATE_BLUE = 'gateBlue',
+    FINISH_LINE = 'finishLine',
 };
 
+/**
+ * Every image the game uses. Sizes are the pixel size of the image file, so the size of anything in the game world is
+ * known without having to load the images.
+ */
 export const IMAGES: iImage[] = [
-    { name: IMAGE_NAMES.JUMP_RAMP, url: 'img/jump_ramp.png' },
-    { name: IMAGE_NAMES.ROCK1, url: 'img/rock_1.png' },
-    { name: IMAGE_NAMES.ROCK2, url: 'img/rock_2.png' },
-    { name: IMAGE_NAMES.RHINO, url: 'img/rhino_default.png' },
-    { name: IMAGE_NAMES.RHINO_RUN1, url: 'img/rhino_run_left.png' },
-    { name: IMAGE_NAMES.RHINO_RUN2, url: 'img/rhino_run_left_2.png' },
-    { name: IMAGE_NAMES.RHINO_EAT1, url: 'img/rhino_eat_1.png' },
-    { name: IMAGE_NAMES.RHINO_EAT2, url: 'img/rhino_eat_2.png' },
-    { name: IMAGE_NAMES.RHINO_EAT3, url: 'img/rhino_eat_3.png' },
-    { name: IMAGE_NAMES.RHINO_EAT4, url: 'img/rhino_eat_4.png' },
-    { name: IMAGE_NAMES.RHINO_CELEBRATE1, url: 'img/rhino_celebrate_1.png' },
-    { name: IMAGE_NAMES.RHINO_CELEBRATE2, url: 'img/rhino_celebrate_2.png' },
-    { name: IMAGE_NAMES.SKIER_CRASH, url: 'img/skier_crash.png' },
-    { name: IMAGE_NAMES.SKIER_LEFT, url: 'img/skier_left.png' },
-    { name: IMAGE_NAMES.SKIER_LEFTDOWN, url: 'img/skier_left_down.png' },
-    { name: IMAGE_NAMES.SKIER_DOWN, url: 'img/skier_down.png' },
-    { name: IMAGE_NAMES.SKIER_RIGHTDOWN, url: 'img/skier_right_down.png' },
-    { name: IMAGE_NAMES.SKIER_RIGHT, url: 'img/skier_right.png' },
-    { name: IMAGE_NAMES.SKIER_JUMP1, url: 'img/skier_jump_1.png' },
-    { name: IMAGE_NAMES.SKIER_JUMP2, url: 'img/skier_jump_2.png' },
-    { name: IMAGE_NAMES.SKIER_JUMP3, url: 'img/skier_jump_3.png' },
-    { name: IMAGE_NAMES.SKIER_JUMP4, url: 'img/skier_jump_4.png' },
-    { name: IMAGE_NAMES.SKIER_JUMP5, url: 'img/skier_jump_5.png' },
-    { name: IMAGE_NAMES.TREE, url: 'img/tree_1.png' },
-    { name: IMAGE_NAMES.TREE_CLUSTER, url: 'img/tree_cluster.png' },
+    { name: IMAGE_NAMES.JUMP_RAMP, url: 'img/jump_ramp.png', width: 43, height: 9 },
+    { name: IMAGE_NAMES.ROCK1, url: 'img/rock_1.png', width: 40, height: 28 },
+    { name: IMAGE_NAMES.ROCK2, url: 'img/rock_2.png', width: 49, height: 28 },
+    { name: IMAGE_NAMES.RHINO, url: 'img/rhino_default.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.RHINO_RUN1, url: 'img/rhino_run_left.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.RHINO_RUN2, url: 'img/rhino_run_left_2.png', width: 64, height: 65 },
+    { name: IMAGE_NAMES.RHINO_EAT1, url: 'img/rhino_eat_1.png', width: 64, height: 65 },
+    { name: IMAGE_NAMES.RHINO_EAT2, url: 'img/rhino_eat_2.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.RHINO_EAT3, url: 'img/rhino_eat_3.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.RHINO_EAT4, url: 'img/rhino_eat_4.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.RHINO_CELEBRATE1, url: 'img/rhino_celebrate_1.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.RHINO_CELEBRATE2, url: 'img/rhino_celebrate_2.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.SKIER_CRASH, url: 'img/skier_crash.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.SKIER_LEFT, url: 'img/skier_left.png', width: 55, height: 47 },
+    { name: IMAGE_NAMES.SKIER_LEFTDOWN, url: 'img/skier_left_down.png', width: 45, height: 59 },
+    { name: IMAGE_NAMES.SKIER_DOWN, url: 'img/skier_down.png', width: 38, height: 61 },
+    { name: IMAGE_NAMES.SKIER_RIGHTDOWN, url: 'img/skier_right_down.png', width: 45, height: 59 },
+    { name: IMAGE_NAMES.SKIER_RIGHT, url: 'img/skier_right.png', width: 55, height: 47 },
+    { name: IMAGE_NAMES.SKIER_JUMP1, url: 'img/skier_jump_1.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.SKIER_JUMP2, url: 'img/skier_jump_2.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.SKIER_JUMP3, url: 'img/skier_jump_3.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.SKIER_JUMP4, url: 'img/skier_jump_4.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.SKIER_JUMP5, url: 'img/skier_jump_5.png', width: 65, height: 65 },
+    { name: IMAGE_NAMES.TREE, url: 'img/tree_1.png', width: 43, height: 53 },
+    { name: IMAGE_NAMES.TREE_CLUSTER, url: 'img/tree_cluster.png', width: 88, height: 91 },
+    { name: IMAGE_NAMES.GATE_RED, url: 'img/gate_red.png', width: 14, height: 32 },
+    { name: IMAGE_NAMES.GATE_BLUE, url: 'img/gate_blue.png', width: 14, height: 32 },
+    { name: IMAGE_NAMES.FINISH_LINE, url: 'img/finish_line.png', width: 32, height: 16 },
 ];
 
+/**
+ * The JSON frame map of the atlas the images are packed into, so they load in one request. Images the atlas doesn't
+ * have, or all of them if the atlas can't be loaded, are loaded from their own URL. See iAtlas for the format, and
+ * rebuild the atlas with `npm run atlas` after changing the images.
+ */
+export const IMAGE_ATLAS_URL: string = 'img/atlas.json';
+
+/**
+ * The types of obstacle that can be placed on the mountain. See OBSTACLE_TYPE_DEFINITIONS.
+ */
+export enum OBSTACLE_TYPES {
+    JUMP_RAMP = 'jumpRamp',
+    TREE = 'tree',
+    TREE_CLUSTER = 'treeCluster',
+    ROCK1 = 'rock1',
+    ROCK2 = 'rock2',
+};
+
+/**
+ * What happens when the skier runs into an obstacle:
+ * - Crash: the skier crashes, whether on the ground or in the air.
+ * - Jumpable: the skier crashes, unless they're in the air over it.
+ * - Launch: the skier is thrown into the air.
+ * - Slow down: the skier is held back to a fraction of their top speed while on the ground in it.
+ * - Bounce: the skier is knocked back off it and loses speed, but keeps going.
+ * - Collectible: the skier picks it up, taking it off the mountain, and scores for it.
+ * No obstacle type slows, bounces or is collected yet. They're ready for new types to use.
+ */
+export enum COLLISION_BEHAVIORS {
+    CRASH = 'crash',
+    JUMPABLE = 'jumpable',
+    LAUNCH = 'launch',
+    SLOW_DOWN = 'slowDown',
+    BOUNCE = 'bounce',
+    COLLECTIBLE = 'collectible',
+};
+
+/**
+ * The layers the game is drawn in, from the bottom up. See RENDER_LAYER_ORDER.
+ * - Ground: decals flat on the snow, such as the finish line, which everything else passes over.
+ * - Entities: everything standing on the ground. Things further down the mountain are drawn in front.
+ * - Airborne: anything in the air, such as the skier mid-jump, over everything on the ground.
+ * - Effects: anything drawn over the world itself.
+ * - HUD: the HUD and anything else fixed on screen.
+ */
+export enum RENDER_LAYERS {
+    GROUND = 'ground',
+    ENTITIES = 'entities',
+    AIRBORNE = 'airborne',
+    EFFECTS = 'effects',
+    HUD = 'hud',
+};
+
+/**
+ * The animations entities can play. Each is defined in the animation manifest, src/Entities/Animations.json.
+ */
+export enum ANIMATIONS {
+    RHINO_RUN = 'rhinoRun',
+    RHINO_EAT = 'rhinoEat',
+    RHINO_CELEBRATE = 'rhinoCelebrate',
+};
+
+/**
+ * How an animation plays through its frames. Looping animations go back to the first frame after the last, ping-pong
+ * ones play backwards to the first frame again.
+ */
+export enum ANIMATION_MODES {
+    LOOP = 'loop',
+    PING_PONG = 'pingPong',
+};
+
+/**
+ * Named moments in animations that entities react to, set on the frame they happen in the animation manifest
+ */
+export enum ANIMATION_EVENTS {
+    JAWS_CLOSE = 'jawsClose',
+};
+
+/**
+ * The kinds of shape things can be collided with as. See COLLISION_SHAPES.
+ */
+export enum SHAPE_TYPES {
+    RECT = 'rect',
+    CIRCLE = 'circle',
+    POLYGON = 'polygon',
+};
+
+/**
+ * The different states the game as a whole can be in.
+ */
+export enum GAME_STATES {
+    TITLE = 'title',
+    PLAYING = 'playing',
+    PAUSED = 'paused',
+    GAME_OVER = 'gameOver',
+    EDITING = 'editing',
+};
+
+/**
+ * The difficulty presets that can be picked on the title screen. See DIFFICULTY_PRESETS for how each plays.
+ */
+export enum DIFFICULTIES {
+    EASY = 'easy',
+    NORMAL = 'normal',
+    HARD = 'hard',
+};
+
+/**
+ * What kind of game is being played. Endless is the original chase down the mountain until the rhino catches the
+ * skier. Slalom is a race against the clock down a fixed length course of gates.
+ */
+export enum GAME_MODES {
+    ENDLESS = 'endless',
+    SLALOM = 'slalom',
+};
+
+/**
+ * How the skier moves. Arcade is the original SkiFree feel: full speed straight away, five fixed directions and
+ * sideways steps. Momentum has the skier pick up speed down the fall line, steer smoothly while keys are held and lose
+ * speed to friction, drag and carving.
+ */
+export enum PHYSICS_MODES {
+    ARCADE = 'arcade',
+    MOMENTUM = 'momentum',
+};
+
+/**
+ * The kinds of terrain the mountain passes through, each favouring different patterns. See BIOME_DEFINITIONS.
+ */
+export enum BIOMES {
+    FOREST = 'forest',
+    ALPINE = 'alpine',
+    GLADE = 'glade',
+};
+
+/**
+ * The authored layouts of obstacles the terrain is stitched together from. See TERRAIN_PATTERN_DEFINITIONS.
+ */
+export enum TERRAIN_PATTERNS {
+    TREE_CORRIDOR = 'treeCorridor',
+    ROCK_GARDEN = 'rockGarden',
+    RAMP_SEQUENCE = 'rampSequence',
+    OPEN_POWDER = 'openPowder',
+};
+
+/**
+ * The tricks the skier can pull off in the air. See TRICK_DEFINITIONS.
+ */
+export enum TRICKS {
+    GRAB = 'grab',
+    SPIN_LEFT = 'spinLeft',
+    SPIN_RIGHT = 'spinRight',
+    BACKFLIP = 'backflip',
+    FRONTFLIP = 'frontflip',
+    CORKSCREW_LEFT = 'corkscrewLeft',
+    CORKSCREW_RIGHT = 'corkscrewRight',
+};
+
+/**
+ * How far a score's trip to the online leaderboard has got
+ */
+export enum SUBMISSION_STATES {
+    SENDING = 'sending',
+    SENT = 'sent',
+    FAILED = 'failed',
+};
+
+/**
+ * The gameplay events sent on the game's event bus. See iGameEvents for the payload of each.
+ */
+export enum GAME_EVENTS {
+    SKIER_CRASHED = 'skierCrashed',
+    SKIER_JUMPED = 'skierJumped',
+    SKIER_LANDED = 'skierLanded',
+    SKIER_TRICK_COMPLETED = 'skierTrickCompleted',
+    SKIER_CLEARED_OBSTACLE = 'skierClearedObstacle',
+    SKIER_NEAR_MISS = 'skierNearMiss',
+    SKIER_BOUNCED = 'skierBounced',
+    SKIER_COLLECTED = 'skierCollected',
+    SKIER_DIED = 'skierDied',
+    RHINO_APPEARED = 'rhinoAppeared',
+    RHINO_LUNGED = 'rhinoLunged',
+    RHINO_TIRED = 'rhinoTired',
+    RHINO_CAUGHT_TARGET = 'rhinoCaughtTarget',
+    RHINO_JAWS_CLOSED = 'rhinoJawsClosed',
+    RHINO_CELEBRATED = 'rhinoCelebrated',
+    OBSTACLE_PLACED = 'obstaclePlaced',
+    GATE_PASSED = 'gatePassed',
+    GATE_MISSED = 'gateMissed',
+    SKIER_FINISHED = 'skierFinished',
+};
+
 /**
  * The different states an entity can be in.
  */
@@ -80,11 +293,31 @@ export enum STATES {
     STATE_CRASHED = 'crashed',
     STATE_DEAD = 'dead',
     /* Rhino */
+    STATE_WAITING = 'waiting',
     STATE_RUNNING = 'running',
     STATE_EATING = 'eating',
-    STATE_CELEBRATING = 'celebrating'
+    STATE_CELEBRATING = 'celebrating',
+    /* Gate */
+    STATE_PASSED = 'passed',
+    STATE_MISSED = 'missed',
 };
 
-export const ANIMATION_FRAME_SPEED_MS_RHINO: number = 250;
+/**
+ * The simulation advances in fixed steps at this rate regardless of the display's refresh rate, so the game plays at
+ * the same speed on every monitor.
+ */
+export const TICKS_PER_SECOND: number = 60;
+export const TICK_DURATION_MS: number = 1000 / TICKS_PER_SECOND;
+
+/**
+ * The most real time a single rendered frame can feed into the simulation. Stops a long stall, such as a backgrounded
+ * tab, from triggering a huge burst of catch-up ticks.
+ */
+export const MAX_FRAME_TIME_MS: number = 250;
+
+export const DIAGONAL_SPEED_REDUCER: number = 1.4142;
 
-export const DIAGONAL_SPEED_REDUCER: number = 1.4142;
\ No newline at end of file
+/**
+ * How many pixels of the game world make up a metre, for showing distances and speeds to the player.
+ */
+export const PIXELS_PER_METRE: number = 20;
\ No newline at end of file
@@ -1,42 +1,175 @@
 /**
- * Configuration for a single animation. Animations contain an array of images to play through. They can loop back
- * to the start when the full animation sequence has been played or they can not loop and just finish on the last image.
- * They can also have a callback set to fire when the animation sequence is complete.
+ * Configuration for a single animation, as defined in the animation manifest. Animations contain a sequence of frames
+ * to play through, each shown for its own length of time. Looping animations go back to the start after the last
+ * frame, and ping-pong animations play back to the start again. Either can play forever or a set number of times,
+ * finishing on the frame they ended up on. Frames can also be tagged with an event for the entity to react to as
+ * they're shown.
+ *
+ * How far through an animation an entity is gets counted in steps from one frame to the next, so where it is can be
+ * saved as a single number whatever the mode.
  */
-import { IMAGE_NAMES } from "../Constants";
+import { ANIMATION_EVENTS, ANIMATION_MODES, ANIMATIONS, IMAGE_NAMES } from "../Constants";
+import { isRecord } from "./Utils";
+import { iAnimation, iAnimationFrame } from "../Interfaces/iAnimation";
+
+const ANIMATION_VALUES: string[] = Object.values(ANIMATIONS);
+const ANIMATION_MODE_VALUES: string[] = Object.values(ANIMATION_MODES);
+const ANIMATION_EVENT_VALUES: string[] = Object.values(ANIMATION_EVENTS);
+const IMAGE_NAME_VALUES: string[] = Object.values(IMAGE_NAMES);
 
 export class Animation {
 
     /**
-     * The sequence of images the animation cycles through
+     * The sequence of frames the animation cycles through
+     */
+    private readonly frames: iAnimationFrame[];
+
+    /**
+     * How the animation gets back to the beginning when it reaches the end
+     */
+    private readonly mode: ANIMATION_MODES;
+
+    /**
+     * How many times the animation plays through before it's complete, or 0 to play forever
+     */
+    private readonly loops: number;
+
+    constructor(definition: iAnimation) {
+        this.frames = definition.frames;
+        this.mode = definition.mode;
+        this.loops = definition.loops;
+    }
+
+    /**
+     * Return the frame shown after the passed in number of steps into the animation.
      */
-    private readonly images: IMAGE_NAMES[];
+    getFrame(step: number): iAnimationFrame {
+        const cycleLength: number = this.getCycleLength();
+        const position: number = step % cycleLength;
+
+        return this.frames[position < this.frames.length ? position : cycleLength - position];
+    }
+
+    /**
+     * Is the animation complete once it's taken the passed in number of steps. Ping-pong animations finish back on
+     * their first frame.
+     */
+    isFinished(step: number): boolean {
+        if (!this.loops) {
+            return false;
+        }
+
+        return step >= this.loops * this.getCycleLength() + (this.isPingPong() ? 1 : 0);
+    }
 
     /**
-     * Does the animation loop back to the beginning when complete?
+     * Return how many steps it takes to play through the animation once
      */
-    private readonly looping: boolean;
+    getCycleLength(): number {
+        return this.isPingPong() ? this.frames.length * 2 - 2 : this.frames.length;
+    }
 
     /**
-     * Function to call when the animation is complete
+     * Does the animation play backwards as well as forwards. Only one frame long, there's nothing to play backwards.
      */
-    private readonly callback?: Function;
+    isPingPong(): boolean {
+        return this.mode === ANIMATION_MODES.PING_PONG && this.frames.length > 1;
+    }
+}
+
+/**
+ * Is the passed in value the name of an animation.
+ */
+export function isAnimation(value: unknown): value is ANIMATIONS {
+    return ANIMATION_VALUES.indexOf(value as string) !== -1;
+}
 
-    constructor(images: IMAGE_NAMES[], looping: boolean, callback?: Function) {
-        this.images = images;
-        this.looping = looping;
-        this.callback = callback;
+/**
+ * Check an animation manifest defines every animation properly, and return the animations in it.
+ */
+export function parseAnimationManifest(data: unknown): Record<ANIMATIONS, Animation> {
+    if (!isRecord(data)) {
+        throw new Error('Animation manifest must be a JSON object');
+    }
+
+    Object.keys(data).forEach((name: string) => {
+        if (!isAnimation(name)) {
+            throw new Error(`Animation manifest has unknown animation ${name}`);
+        }
+    });
+
+    const animations = {} as Record<ANIMATIONS, Animation>;
+    Object.values(ANIMATIONS).forEach((name: ANIMATIONS) => {
+        animations[name] = new Animation(parseAnimation(data[name], name));
+    });
+
+    return animations;
+}
+
+/**
+ * Check a single animation's definition, filling in anything left out.
+ */
+function parseAnimation(data: unknown, name: string): iAnimation {
+    if (!isRecord(data)) {
+        throw new Error(`Animation ${name} must be defined in the animation manifest`);
+    }
+
+    const mode: unknown = data.mode;
+    if (!isAnimationMode(mode)) {
+        throw new Error(`Animation ${name} has unknown mode ${mode}`);
+    }
+
+    const loops: unknown = data.loops === undefined ? 0 : data.loops;
+    if (typeof loops !== 'number' || !Number.isInteger(loops) || loops < 0) {
+        throw new Error(`Animation ${name} loops must be a whole number, or 0 to play forever`);
+    }
+
+    const frames: unknown = data.frames;
+    if (!Array.isArray(frames) || !frames.length) {
+        throw new Error(`Animation ${name} must have at least one frame`);
+    }
+
+    return {
+        mode,
+        loops,
+        frames: frames.map((frame: unknown, index: number) => parseAnimationFrame(frame, name, index)),
+    };
+}
+
+/**
+ * Check a single frame of an animation.
+ */
+function parseAnimationFrame(frame: unknown, name: string, index: number): iAnimationFrame {
+    const image: unknown = isRecord(frame) ? frame.image : undefined;
+    if (!isRecord(frame) || !isImageName(image)) {
+        throw new Error(`Animation ${name} frame ${index} has unknown image ${image}`);
     }
 
-    getImages(): IMAGE_NAMES[] {
-        return this.images;
+    const duration: unknown = frame.duration;
+    if (typeof duration !== 'number' || !(duration > 0)) {
+        throw new Error(`Animation ${name} frame ${index} must have a duration above 0`);
     }
 
-    getLooping(): boolean {
-        return this.looping;
+    const event: unknown = frame.event;
+    if (event === undefined) {
+        return { image, duration };
     }
 
-    getCallback(): Function | undefined {
-        return this.callback;
+    if (!isAnimationEvent(event)) {
+        throw new Error(`Animation ${name} frame ${index} has unknown event ${event}`);
     }
-}
\ No newline at end of file
+
+    return { image, duration, event };
+}
+
+function isAnimationMode(value: unknown): value is ANIMATION_MODES {
+    return ANIMATION_MODE_VALUES.indexOf(value as string) !== -1;
+}
+
+function isAnimationEvent(value: unknown): value is ANIMATION_EVENTS {
+    return ANIMATION_EVENT_VALUES.indexOf(value as string) !== -1;
+}
+
+function isImageName(value: unknown): value is IMAGE_NAMES {
+    return IMAGE_NAME_VALUES.indexOf(value as string) !== -1;
+}
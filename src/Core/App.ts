@@ -0,0 +1,847 @@
+/**
+ * The top level of the game in the browser. A state machine that moves between the title screen, playing, paused,
+ * game over and course editor states. It owns the single GameLoop and the listeners that drive whichever Game is
+ * current, so restarting swaps in a fresh Game without starting another loop or adding more listeners. dispose() tears
+ * them all down.
+ *
+ * Pausing stops the game being ticked at all, which freezes its simulation clock, and with it all movement, spawning
+ * and animation, exactly where it was.
+ *
+ * When a run ends the player can type their name to put their score on the leaderboard, which is kept in the browser
+ * and sent to the server. A slalom race ends on the finish line, with the final time shown instead.
+ *
+ * The course editor is opened from the title screen. Courses tried out from it are played like any other run, but
+ * can't be saved, replayed or put on the leaderboard, and restarting goes back to the editor so the course can be
+ * changed and tried again.
+ */
+
+import {
+    DIFFICULTIES,
+    GAME_MODES,
+    GAME_STATES,
+    IMAGE_ATLAS_URL,
+    IMAGES,
+    KEYS,
+    PHYSICS_MODES,
+    SEED_QUERY_PARAM,
+    SUBMISSION_STATES,
+} from "../Constants";
+import { Canvas } from "./Canvas";
+import { DIFFICULTY_PRESETS, nextDifficulty } from "./Difficulty";
+import { downloadJson, pickTextFile } from "./Files";
+import { Game } from "./Game";
+import { GameLoop } from "./GameLoop";
+import { ImageManager } from "./ImageManager";
+import { loadPlayerName, MAX_NAME_LENGTH, saveLocalScore, savePlayerName, submitScore } from "./Leaderboard";
+import { generateSeed, parseSeed } from "./Random";
+import { parseReplay } from "./Replay";
+import { loadSettings, saveSettings } from "./Settings";
+import { loadSnapshot, saveSnapshot } from "./Snapshot";
+import { Position } from "./Utils";
+import { iCourse, iCoursePoint } from "../Interfaces/iCourse";
+import { iLeaderboardEntry, iScoreSubmission } from "../Interfaces/iLeaderboard";
+import { iRaceResult } from "../Interfaces/iRaceResult";
+import { iReplay } from "../Interfaces/iReplay";
+import { iScore } from "../Interfaces/iScore";
+import { iSettings } from "../Interfaces/iSettings";
+import { iGameSnapshot } from "../Interfaces/iSnapshot";
+import { CourseEditor } from "../UI/CourseEditor";
+import { iMenuItem, Menu } from "../UI/Menu";
+import { NameEntry } from "../UI/NameEntry";
+import { drawGameOverScreen, drawLoadErrorScreen, drawLoadingScreen, drawRaceResultScreen } from "../UI/Screens";
+
+/**
+ * Use the seed from the page URL if one was given (e.g. ?seed=1234), otherwise pick a new one for every run.
+ */
+function getSeed(): number {
+    const seedParam: string | null = new URLSearchParams(window.location.search).get(SEED_QUERY_PARAM);
+
+    return seedParam ? parseSeed(seedParam) : generateSeed();
+}
+
+/**
+ * Label for a setting that's either on or off
+ */
+function toggleLabel(name: string, value: boolean): string {
+    return `${name}: ${value ? 'On' : 'Off'}`;
+}
+
+export class App {
+    /**
+     * The canvas every game is displayed on
+     */
+    private readonly canvas: Canvas;
+
+    /**
+     * Images are loaded once and shared by every game
+     */
+    private readonly imageManager: ImageManager;
+
+    /**
+     * The one loop that updates and draws the app
+     */
+    private readonly loop: GameLoop;
+
+    /**
+     * The keydown listener, kept so it can be removed again
+     */
+    private readonly keyDownListener: (event: KeyboardEvent) => void;
+
+    /**
+     * The keyup listener, kept so it can be removed again
+     */
+    private readonly keyUpListener: (event: KeyboardEvent) => void;
+
+    /**
+     * The window blur listener, kept so it can be removed again
+     */
+    private readonly blurListener: () => void;
+
+    /**
+     * The mouse listeners the course editor is driven by, kept so they can be removed again
+     */
+    private readonly mouseDownListener: (event: MouseEvent) => void;
+    private readonly mouseMoveListener: (event: MouseEvent) => void;
+    private readonly mouseUpListener: () => void;
+    private readonly contextMenuListener: (event: MouseEvent) => void;
+
+    /**
+     * The player's settings
+     */
+    private readonly settings: iSettings;
+
+    /**
+     * Menu shown on the title screen. Rebuilt each time the title screen is shown, since whether there's a saved game
+     * to continue can change.
+     */
+    private titleMenu: Menu;
+
+    /**
+     * Menu shown while paused
+     */
+    private readonly pauseMenu: Menu;
+
+    /**
+     * Menu for changing settings, opened from the pause menu
+     */
+    private readonly settingsMenu: Menu;
+
+    /**
+     * The course editor. Kept for as long as the app runs, so the course being built is still there after trying it
+     * out.
+     */
+    private readonly editor: CourseEditor;
+
+    /**
+     * The menu currently open while paused
+     */
+    private activeMenu: Menu;
+
+    /**
+     * How far between ticks the last frame was drawn. While paused every frame is drawn at this point, so the frozen
+     * game doesn't flicker between its last two ticks.
+     */
+    private lastAlpha: number = 1;
+
+    /**
+     * What state the app is currently in
+     */
+    private state: GAME_STATES = GAME_STATES.TITLE;
+
+    /**
+     * The game currently being played, null until the first one starts
+     */
+    private game: Game | null = null;
+
+    /**
+     * The name being typed for the leaderboard on the game over screen. Null when the run can't go on the leaderboard.
+     */
+    private nameEntry: NameEntry | null = null;
+
+    /**
+     * Where the finished run's score placed, once it has been submitted
+     */
+    private submission: iScoreSubmission | null = null;
+
+    /**
+     * Have the images finished loading, so a game can start
+     */
+    private loaded: boolean = false;
+
+    /**
+     * The fraction of the images loaded so far, for the loading bar
+     */
+    private loadProgress: number = 0;
+
+    /**
+     * Why any images couldn't be loaded, shown on the loading screen until the player carries on to the title menu
+     */
+    private loadErrors: Error[] = [];
+
+    constructor(canvas: Canvas) {
+        this.canvas = canvas;
+        this.imageManager = new ImageManager(IMAGES);
+        this.loop = new GameLoop(this.update.bind(this), this.draw.bind(this));
+        this.keyDownListener = this.handleKeyDown.bind(this);
+        this.keyUpListener = this.handleKeyUp.bind(this);
+        this.blurListener = this.handleBlur.bind(this);
+        this.mouseDownListener = this.handleMouseDown.bind(this);
+        this.mouseMoveListener = this.handleMouseMove.bind(this);
+        this.mouseUpListener = this.handleMouseUp.bind(this);
+        this.contextMenuListener = this.handleContextMenu.bind(this);
+        this.settings = loadSettings();
+        this.editor = new CourseEditor(
+            this.canvas,
+            this.imageManager,
+            this.playCourse.bind(this),
+            this.showTitle.bind(this)
+        );
+
+        this.titleMenu = this.createTitleMenu();
+        this.pauseMenu = new Menu('Paused', [
+            { label: 'Resume', action: this.resume.bind(this) },
+            { label: 'Restart', action: this.restart.bind(this) },
+            { label: 'Settings', action: () => this.openMenu(this.settingsMenu) },
+            { label: 'Save and quit', action: this.saveAndQuit.bind(this) },
+        ]);
+        this.settingsMenu = new Menu('Settings', [
+            {
+                label: () => toggleLabel('Show seed', this.settings.showSeed),
+                action: this.toggleSetting.bind(this, 'showSeed'),
+            },
+            {
+                label: () => toggleLabel('Pause when the window loses focus', this.settings.pauseOnBlur),
+                action: this.toggleSetting.bind(this, 'pauseOnBlur'),
+            },
+            { label: 'Back', action: this.openMenu.bind(this, null) },
+        ]);
+        this.activeMenu = this.pauseMenu;
+    }
+
+    /**
+     * Start listening for input and running the loop, showing the title screen while the images load. Images that
+     * fail to load are drawn as placeholders, so the game can still be played, and the failures are listed on the
+     * loading screen.
+     */
+    async start(): Promise<void> {
+        document.addEventListener('keydown', this.keyDownListener);
+        document.addEventListener('keyup', this.keyUpListener);
+        window.addEventListener('blur', this.blurListener);
+        this.canvas.canvas.addEventListener('mousedown', this.mouseDownListener);
+        this.canvas.canvas.addEventListener('contextmenu', this.contextMenuListener);
+        window.addEventListener('mousemove', this.mouseMoveListener);
+        window.addEventListener('mouseup', this.mouseUpListener);
+        this.loop.start();
+
+        this.loadErrors = await this.imageManager.loadImages(IMAGES, IMAGE_ATLAS_URL, (progress: number) => {
+            this.loadProgress = progress;
+        });
+        this.loaded = true;
+    }
+
+    /**
+     * Stop the loop, remove the listeners and drop the current game.
+     */
+    dispose() {
+        document.removeEventListener('keydown', this.keyDownListener);
+        document.removeEventListener('keyup', this.keyUpListener);
+        window.removeEventListener('blur', this.blurListener);
+        this.canvas.canvas.removeEventListener('mousedown', this.mouseDownListener);
+        this.canvas.canvas.removeEventListener('contextmenu', this.contextMenuListener);
+        window.removeEventListener('mousemove', this.mouseMoveListener);
+        window.removeEventListener('mouseup', this.mouseUpListener);
+        this.loop.stop();
+        this.disposeGame();
+    }
+
+    /**
+     * Tear down the current game, if there is one.
+     */
+    disposeGame() {
+        if (this.game) {
+            this.game.dispose();
+            this.game = null;
+        }
+    }
+
+    /**
+     * Move to a new state.
+     */
+    setState(newState: GAME_STATES) {
+        this.state = newState;
+    }
+
+    /**
+     * Create the title screen menu, only offering to continue if there's a saved game.
+     */
+    createTitleMenu(): Menu {
+        const items: iMenuItem[] = [
+            { label: 'New game', action: this.restart.bind(this) },
+            {
+                label: () => `Difficulty: ${DIFFICULTY_PRESETS[this.settings.difficulty].label}`,
+                action: this.changeDifficulty.bind(this),
+            },
+            {
+                label: () => `Physics: ${this.settings.physics === PHYSICS_MODES.MOMENTUM ? 'Momentum' : 'Arcade'}`,
+                action: this.changePhysics.bind(this),
+            },
+            {
+                label: () => `Mode: ${this.settings.mode === GAME_MODES.SLALOM ? 'Slalom race' : 'Endless chase'}`,
+                action: this.changeMode.bind(this),
+            },
+        ];
+
+        const snapshot: iGameSnapshot | null = loadSnapshot();
+        if (snapshot) {
+            items.push({
+                label: 'Continue',
+                action: () => this.startGame(
+                    snapshot.seed,
+                    snapshot.difficulty,
+                    snapshot.physics,
+                    snapshot.mode,
+                    undefined,
+                    snapshot
+                ),
+            });
+        }
+
+        items.push({ label: 'Watch a replay', action: this.loadReplay.bind(this) });
+        items.push({ label: 'Course editor', action: this.openEditor.bind(this) });
+
+        return new Menu('Ski Free', items);
+    }
+
+    /**
+     * Go back to the title screen, dropping the current game.
+     */
+    showTitle() {
+        this.disposeGame();
+        this.titleMenu = this.createTitleMenu();
+        this.setState(GAME_STATES.TITLE);
+    }
+
+    /**
+     * Open the course editor, dropping the current game.
+     */
+    openEditor() {
+        this.disposeGame();
+        this.setState(GAME_STATES.EDITING);
+    }
+
+    /**
+     * Try out a course from the editor, with the skier starting from the passed in position, on the chosen difficulty
+     * and physics. A course with a finish line is raced like a slalom, otherwise it's skied until the rhino catches
+     * the skier.
+     */
+    playCourse(course: iCourse, start: iCoursePoint) {
+        this.startGame(
+            getSeed(),
+            this.settings.difficulty,
+            this.settings.physics,
+            course.finishLine ? GAME_MODES.SLALOM : GAME_MODES.ENDLESS,
+            undefined,
+            undefined,
+            { ...course, start }
+        );
+    }
+
+    /**
+     * Replace the current game with a new one from the seed, difficulty, physics and game mode, playing back the replay
+     * if one is passed in. If a snapshot is passed in, the game carries on from there rather than starting at the top
+     * of the mountain. If a course is passed in, the game is played on it instead of on generated terrain.
+     */
+    startGame(
+        seed: number,
+        difficulty: DIFFICULTIES,
+        physics: PHYSICS_MODES,
+        mode: GAME_MODES,
+        replay?: iReplay,
+        snapshot?: iGameSnapshot,
+        course?: iCourse
+    ) {
+        this.disposeGame();
+        this.game = new Game(this.canvas, this.imageManager, seed, difficulty, physics, mode, replay, course);
+
+        if (snapshot) {
+            this.game.restoreSnapshot(snapshot);
+        }
+
+        this.setState(GAME_STATES.PLAYING);
+    }
+
+    /**
+     * Throw away the current game and start a new one on the chosen difficulty, physics and game mode. A course being
+     * tried out goes back to the editor instead.
+     */
+    restart() {
+        if (this.isPlayingCourse()) {
+            this.openEditor();
+            return;
+        }
+
+        this.startGame(getSeed(), this.settings.difficulty, this.settings.physics, this.settings.mode);
+    }
+
+    /**
+     * Move on to the next difficulty for new games, and save it as the choice for next time.
+     */
+    changeDifficulty() {
+        this.settings.difficulty = nextDifficulty(this.settings.difficulty);
+        saveSettings(this.settings);
+    }
+
+    /**
+     * Switch between arcade and momentum physics for new games, and save it as the choice for next time.
+     */
+    changePhysics() {
+        this.settings.physics = this.settings.physics === PHYSICS_MODES.MOMENTUM
+            ? PHYSICS_MODES.ARCADE
+            : PHYSICS_MODES.MOMENTUM;
+        saveSettings(this.settings);
+    }
+
+    /**
+     * Switch between an endless chase and a slalom race for new games, and save it as the choice for next time.
+     */
+    changeMode() {
+        this.settings.mode = this.settings.mode === GAME_MODES.SLALOM ? GAME_MODES.ENDLESS : GAME_MODES.SLALOM;
+        saveSettings(this.settings);
+    }
+
+    /**
+     * Pause the current game and open the pause menu. Any keys held down are let go of, as their release won't reach
+     * the game while it's paused.
+     */
+    pause() {
+        if (this.game) {
+            this.game.releaseInputs();
+        }
+
+        this.openMenu(this.pauseMenu);
+        this.setState(GAME_STATES.PAUSED);
+    }
+
+    /**
+     * Resume the paused game from exactly where it was frozen.
+     */
+    resume() {
+        this.setState(GAME_STATES.PLAYING);
+    }
+
+    /**
+     * Switch to a menu while paused, starting from its first item. Pass null to go back to the pause menu.
+     */
+    openMenu(menu: Menu | null) {
+        this.activeMenu = menu || this.pauseMenu;
+        this.activeMenu.reset();
+    }
+
+    /**
+     * Is the current game a course being tried out from the editor.
+     */
+    isPlayingCourse(): boolean {
+        return !!this.game && this.game.getCourse() !== null;
+    }
+
+    /**
+     * Save the current game so it can be continued from the title screen, then go back there. Courses being tried out
+     * can't be saved, as the save wouldn't have the course.
+     */
+    saveAndQuit() {
+        if (!this.game) {
+            return;
+        }
+
+        if (this.isPlayingCourse()) {
+            window.alert('Courses being tried out from the editor can\'t be saved.');
+            return;
+        }
+
+        if (!saveSnapshot(this.game.createSnapshot())) {
+            window.alert('Could not save the game. Your browser may be blocking storage.');
+            return;
+        }
+
+        this.showTitle();
+    }
+
+    /**
+     * Flip a setting on or off and save it.
+     */
+    toggleSetting(setting: 'showSeed' | 'pauseOnBlur') {
+        this.settings[setting] = !this.settings[setting];
+        saveSettings(this.settings);
+    }
+
+    /**
+     * Run a single simulation tick of the current game, and end the game once the skier has been killed or has
+     * finished their race. The world keeps running under the game over screen so the rhino can finish its meal, but
+     * isn't ticked at all while paused.
+     */
+    update() {
+        if (!this.game || this.state === GAME_STATES.PAUSED) {
+            return;
+        }
+
+        this.game.updateGameWindow();
+
+        if (this.state === GAME_STATES.PLAYING && this.game.isGameOver()) {
+            this.endGame();
+        }
+    }
+
+    /**
+     * Show the game over screen, asking for the player's name unless the run was a replay or on a course from the
+     * editor. Slalom times don't go on the leaderboard, which ranks scores.
+     */
+    endGame() {
+        if (!this.game) {
+            return;
+        }
+
+        const canSubmit: boolean = !this.game.isReplay()
+            && this.game.getMode() !== GAME_MODES.SLALOM
+            && !this.isPlayingCourse();
+
+        this.nameEntry = canSubmit ? new NameEntry(loadPlayerName(), MAX_NAME_LENGTH) : null;
+        this.submission = null;
+        this.setState(GAME_STATES.GAME_OVER);
+    }
+
+    /**
+     * Put the finished run's score on the leaderboard under the name the player typed. The local rank is known straight
+     * away, while the online ranks fill in once the server answers.
+     */
+    async submitScore(): Promise<void> {
+        if (!this.game || !this.nameEntry || !this.nameEntry.getText()) {
+            return;
+        }
+
+        const score: iScore = this.game.getScore();
+        const entry: iLeaderboardEntry = {
+            name: this.nameEntry.getText(),
+            points: score.points,
+            distance: Math.floor(score.distance),
+            seed: this.game.getSeed(),
+            difficulty: this.game.getDifficulty(),
+            physics: this.game.getPhysics(),
+            date: new Date().toISOString(),
+        };
+        savePlayerName(entry.name);
+
+        const submission: iScoreSubmission = {
+            entry,
+            localRank: saveLocalScore(entry),
+            status: SUBMISSION_STATES.SENDING,
+            onlineRanks: null,
+        };
+        this.submission = submission;
+
+        try {
+            submission.onlineRanks = await submitScore(entry);
+            submission.status = SUBMISSION_STATES.SENT;
+        } catch (error) {
+            submission.status = SUBMISSION_STATES.FAILED;
+        }
+    }
+
+    /**
+     * Draw the current game, if there is one, with the screen for the current state over the top of it.
+     */
+    draw(alpha: number) {
+        if (this.state === GAME_STATES.PAUSED) {
+            alpha = this.lastAlpha;
+        }
+        this.lastAlpha = alpha;
+
+        this.canvas.clearCanvas();
+
+        if (this.game && this.state !== GAME_STATES.TITLE) {
+            this.game.draw(alpha, this.settings.showSeed);
+        }
+
+        switch (this.state) {
+            case GAME_STATES.TITLE:
+                if (!this.loaded) {
+                    drawLoadingScreen(this.canvas, this.loadProgress);
+                } else if (this.loadErrors.length) {
+                    drawLoadErrorScreen(this.canvas, this.loadErrors);
+                } else {
+                    this.titleMenu.draw(this.canvas);
+                }
+                break;
+            case GAME_STATES.PAUSED:
+                this.activeMenu.draw(this.canvas);
+                break;
+            case GAME_STATES.GAME_OVER:
+                this.drawGameOver();
+                break;
+            case GAME_STATES.EDITING:
+                this.editor.draw();
+                break;
+        }
+    }
+
+    /**
+     * Draw the screen shown once the game is over: the race result for a slalom race the skier finished, otherwise the
+     * final score, e.g. when a rhino on a course from the editor caught them first.
+     */
+    drawGameOver() {
+        if (!this.game) {
+            return;
+        }
+
+        const raceResult: iRaceResult | null = this.game.getRaceResult();
+
+        if (raceResult && raceResult.finished) {
+            drawRaceResultScreen(this.canvas, raceResult, !this.game.isReplay() && !this.isPlayingCourse());
+        } else {
+            drawGameOverScreen(this.canvas, this.game.getScore(), this.nameEntry, this.submission);
+        }
+    }
+
+    /**
+     * Handle keypresses, first for anything the current state does with them and then for the game itself.
+     */
+    handleKeyDown(event: KeyboardEvent) {
+        let handled: boolean;
+
+        switch (this.state) {
+            case GAME_STATES.TITLE:
+                handled = this.handleTitleInput(event.code);
+                break;
+            case GAME_STATES.PLAYING:
+                handled = this.handlePlayingInput(event.code);
+                break;
+            case GAME_STATES.PAUSED:
+                handled = this.handlePausedInput(event.code);
+                break;
+            case GAME_STATES.GAME_OVER:
+                handled = this.handleGameOverInput(event.code, event.key);
+                break;
+            case GAME_STATES.EDITING:
+                handled = this.editor.handleInput(event.code, event.ctrlKey || event.metaKey, event.shiftKey);
+                break;
+        }
+
+        if (handled) {
+            event.preventDefault();
+        }
+    }
+
+    /**
+     * Handle keys being released. Only the game cares about these, and only while it's being played.
+     */
+    handleKeyUp(event: KeyboardEvent) {
+        if (this.state === GAME_STATES.PLAYING && this.game && this.game.receiveInput(event.code, false)) {
+            event.preventDefault();
+        }
+    }
+
+    /**
+     * Handle input on the title screen, passing anything the app doesn't use on to the title menu. Nothing can start
+     * until the images have loaded, and any that failed to have been seen.
+     */
+    handleTitleInput(inputCode: string): boolean {
+        if (!this.loaded) {
+            return false;
+        }
+
+        if (this.loadErrors.length) {
+            if (inputCode !== KEYS.ENTER) {
+                return false;
+            }
+
+            this.loadErrors = [];
+            return true;
+        }
+
+        if (inputCode === KEYS.LOAD_REPLAY) {
+            this.loadReplay();
+            return true;
+        }
+
+        return this.titleMenu.handleInput(inputCode);
+    }
+
+    /**
+     * Handle input while playing, passing anything the app doesn't use on to the game.
+     */
+    handlePlayingInput(inputCode: string): boolean {
+        switch (inputCode) {
+            case KEYS.TOGGLE_PAUSE:
+                this.pause();
+                return true;
+            case KEYS.ESCAPE:
+                this.restart();
+                return true;
+            case KEYS.EXPORT_REPLAY:
+                this.exportReplay();
+                return true;
+            case KEYS.LOAD_REPLAY:
+                this.loadReplay();
+                return true;
+        }
+
+        return this.game ? this.game.receiveInput(inputCode) : false;
+    }
+
+    /**
+     * Handle input while paused, passing anything the app doesn't use on to the open menu. Escape backs out of the
+     * settings menu, otherwise restarts.
+     */
+    handlePausedInput(inputCode: string): boolean {
+        switch (inputCode) {
+            case KEYS.TOGGLE_PAUSE:
+                this.resume();
+                return true;
+            case KEYS.ESCAPE:
+                if (this.activeMenu !== this.pauseMenu) {
+                    this.openMenu(null);
+                } else {
+                    this.restart();
+                }
+                return true;
+            case KEYS.EXPORT_REPLAY:
+                this.exportReplay();
+                return true;
+        }
+
+        return this.activeMenu.handleInput(inputCode);
+    }
+
+    /**
+     * Handle input on the game over screen. While the player's name is being typed, keys type into it rather than
+     * doing what they normally would.
+     */
+    handleGameOverInput(inputCode: string, key: string): boolean {
+        if (this.nameEntry && !this.submission) {
+            switch (inputCode) {
+                case KEYS.ENTER:
+                    this.submitScore();
+                    return true;
+                case KEYS.ESCAPE:
+                    this.restart();
+                    return true;
+            }
+
+            return this.nameEntry.handleInput(inputCode, key);
+        }
+
+        switch (inputCode) {
+            case KEYS.ENTER:
+            case KEYS.ESCAPE:
+                this.restart();
+                return true;
+            case KEYS.EXPORT_REPLAY:
+                this.exportReplay();
+                return true;
+            case KEYS.LOAD_REPLAY:
+                this.loadReplay();
+                return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Pass a mouse button being pressed over the canvas on to the course editor, while it's open.
+     */
+    handleMouseDown(event: MouseEvent) {
+        if (this.state !== GAME_STATES.EDITING) {
+            return;
+        }
+
+        const position: Position = this.getPointerPosition(event);
+        this.editor.handlePointerDown(position.x, position.y, event.button);
+        event.preventDefault();
+    }
+
+    /**
+     * Pass the mouse moving on to the course editor, while it's open. Listened for across the whole window, so drags
+     * carry on when the pointer leaves the canvas.
+     */
+    handleMouseMove(event: MouseEvent) {
+        if (this.state !== GAME_STATES.EDITING) {
+            return;
+        }
+
+        const position: Position = this.getPointerPosition(event);
+        this.editor.handlePointerMove(position.x, position.y);
+    }
+
+    /**
+     * Pass a mouse button being let go of on to the course editor, while it's open.
+     */
+    handleMouseUp() {
+        if (this.state === GAME_STATES.EDITING) {
+            this.editor.handlePointerUp();
+        }
+    }
+
+    /**
+     * Stop the browser's menu opening when the course editor's view is dragged with the right mouse button.
+     */
+    handleContextMenu(event: MouseEvent) {
+        if (this.state === GAME_STATES.EDITING) {
+            event.preventDefault();
+        }
+    }
+
+    /**
+     * Return where the mouse is on the canvas.
+     */
+    getPointerPosition(event: MouseEvent): Position {
+        const bounds: DOMRect = this.canvas.canvas.getBoundingClientRect();
+
+        return new Position(event.clientX - bounds.left, event.clientY - bounds.top);
+    }
+
+    /**
+     * Pause the game when the window loses focus, if the player wants that, so they don't come back to a crash. Keys
+     * released while the window is out of focus are never heard about, so let go of them all either way. Mouse
+     * buttons are the same, so the course editor stops dragging.
+     */
+    handleBlur() {
+        if (this.state === GAME_STATES.EDITING) {
+            this.editor.handlePointerUp();
+        }
+
+        if (this.state !== GAME_STATES.PLAYING) {
+            return;
+        }
+
+        if (this.settings.pauseOnBlur) {
+            this.pause();
+        } else if (this.game) {
+            this.game.releaseInputs();
+        }
+    }
+
+    /**
+     * Save a recording of the current run to the player's computer. Courses being tried out can't be replayed, as the
+     * replay wouldn't have the course.
+     */
+    exportReplay() {
+        if (!this.game || this.isPlayingCourse()) {
+            return;
+        }
+
+        const replay: iReplay = this.game.getReplay();
+
+        downloadJson(`ski-free-replay-${replay.seed}.json`, replay);
+    }
+
+    /**
+     * Ask the player for a replay file and play it back.
+     */
+    async loadReplay(): Promise<void> {
+        try {
+            const replay: iReplay = parseReplay(await pickTextFile('.json,application/json'));
+            this.startGame(replay.seed, replay.difficulty, replay.physics, replay.mode, replay, replay.snapshot);
+        } catch (error) {
+            window.alert(`Could not load replay: ${(error as Error).message}`);
+        }
+    }
+}
@@ -0,0 +1,255 @@
+/**
+ * The camera decides which part of the game world is shown on screen. It follows the skier with a little lag, looks
+ * ahead of them in the direction they're travelling and zooms out the faster they go. It shakes when the skier crashes
+ * or is caught, and cuts away to the rhino for a moment when it first turns up.
+ *
+ * The camera also owns the game window, the area of the world around the skier that the simulation keeps active. It's
+ * big enough to hold anything the camera could show, zoomed all the way out and looking as far ahead as it can, but
+ * stays locked onto the skier's position, so what the camera shows never changes how the game plays.
+ * Like the entities, the camera moves on simulation ticks and is drawn part way between the last two.
+ */
+
+import { GAME_EVENTS, TICK_DURATION_MS } from "../Constants";
+import { lerp, Position, Rect } from "./Utils";
+import { Entity } from "../Entities/Entity";
+import { GameEventBus } from "../Interfaces/iGameEvents";
+import { iRenderer } from "../Interfaces/iRenderer";
+
+/**
+ * How long, in seconds, the camera takes to make up most of the ground to where it should be looking. Smaller is
+ * snappier. Panning to and from the rhino is slower, to make a show of it.
+ */
+const FOLLOW_TIME: number = 0.1;
+const PAN_TIME: number = 0.3;
+
+/**
+ * The camera looks this far ahead of the skier, in seconds of travel at their current speed, up to a limit in pixels
+ */
+const LOOKAHEAD_TIME: number = 0.3;
+const MAX_LOOKAHEAD: number = 150;
+
+/**
+ * The camera zooms out as the skier speeds up, all the way to the minimum zoom at this speed in pixels per second.
+ * It takes ZOOM_TIME seconds to make up most of a change in zoom.
+ */
+const MIN_ZOOM: number = 0.8;
+const MIN_ZOOM_SPEED: number = 500;
+const ZOOM_TIME: number = 0.5;
+
+/**
+ * How far, in pixels, the view is thrown about by the strongest shake, and how long a shake takes to die away in ms
+ */
+const MAX_SHAKE_OFFSET: number = 12;
+const SHAKE_DURATION_MS: number = 400;
+
+/**
+ * How fast the view shakes, in radians per ms. Each axis shakes at its own rate so the view doesn't move in a line.
+ */
+const SHAKE_RATE_X: number = 0.09;
+const SHAKE_RATE_Y: number = 0.07;
+
+/**
+ * How strongly the view shakes, from 0 to 1, when the skier crashes and when the rhino catches them
+ */
+const CRASH_SHAKE: number = 0.5;
+const CAUGHT_SHAKE: number = 1;
+
+/**
+ * How long in ms the camera stays on the rhino when it first turns up, and then how long it takes panning back to the
+ * skier
+ */
+const RHINO_CUT_SCENE_MS: number = 1200;
+const RHINO_PAN_BACK_MS: number = 1000;
+
+export class Camera {
+    private renderer: iRenderer;
+
+    /**
+     * The entity the camera follows, and the one it cuts away to when it first turns up
+     */
+    private target: Entity;
+    private rhino: Entity;
+
+    /**
+     * The middle of the view in the world, and where it was the tick before, so the view can be drawn between ticks
+     */
+    private position: Position;
+    private previousPosition: Position;
+
+    /**
+     * How far zoomed in the view is, where 1 shows the world at its actual size, and how far it was the tick before
+     */
+    private zoom: number = 1;
+    private previousZoom: number = 1;
+
+    /**
+     * Game time of the last tick
+     */
+    private gameTime: number = 0;
+
+    /**
+     * How strongly the view was shaking, from 0 to 1, at the game time the latest shake started
+     */
+    private shakeStrength: number = 0;
+    private shakeStartTime: number = 0;
+
+    /**
+     * Game time the camera stops looking at the rhino, or null if it has never cut away to it
+     */
+    private cutSceneEndTime: number | null = null;
+
+    /**
+     * The area of the world the simulation keeps active
+     */
+    private gameWindow!: Rect;
+
+    /**
+     * Create a camera showing the passed in target on the renderer, cutting away to the rhino when it turns up.
+     */
+    constructor(renderer: iRenderer, eventBus: GameEventBus, target: Entity, rhino: Entity) {
+        this.renderer = renderer;
+        this.target = target;
+        this.rhino = rhino;
+        this.position = new Position(0, 0);
+        this.previousPosition = new Position(0, 0);
+
+        eventBus.on(GAME_EVENTS.SKIER_CRASHED, (event) => this.shake(CRASH_SHAKE, event.gameTime));
+        eventBus.on(GAME_EVENTS.RHINO_CAUGHT_TARGET, (event) => this.shake(CAUGHT_SHAKE, event.gameTime));
+        eventBus.on(GAME_EVENTS.RHINO_APPEARED, (event) => {
+            if (this.cutSceneEndTime === null) {
+                this.cutSceneEndTime = event.gameTime + RHINO_CUT_SCENE_MS;
+            }
+        });
+
+        this.reset(0);
+    }
+
+    /**
+     * Put the camera straight onto the target, with nothing in motion, as at the start of a game or after jumping to
+     * another point in it.
+     */
+    reset(gameTime: number) {
+        const targetPosition: Position = this.target.getPosition();
+
+        this.gameTime = gameTime;
+        this.position = new Position(targetPosition.x, targetPosition.y);
+        this.previousPosition = new Position(targetPosition.x, targetPosition.y);
+        this.zoom = 1;
+        this.previousZoom = 1;
+        this.shakeStrength = 0;
+        this.gameWindow = this.getWindowAround(targetPosition);
+    }
+
+    /**
+     * Move the camera on by a tick, easing it towards the rhino during the cut-scene or ahead of the target otherwise,
+     * and zooming to suit the target's speed. The game window is worked out from where the target ends the tick.
+     */
+    update(gameTime: number, deltaTime: number) {
+        this.gameTime = gameTime;
+        this.previousPosition = new Position(this.position.x, this.position.y);
+        this.previousZoom = this.zoom;
+
+        const targetPosition: Position = this.target.getPosition();
+        const velocity: Position = new Position(
+            (targetPosition.x - this.target.previousPosition.x) / deltaTime,
+            (targetPosition.y - this.target.previousPosition.y) / deltaTime
+        );
+        const speed: number = Math.hypot(velocity.x, velocity.y);
+
+        const inCutScene: boolean = this.cutSceneEndTime !== null && gameTime < this.cutSceneEndTime;
+        const focus: Position = inCutScene ? this.rhino.getPosition() : this.getLookahead(targetPosition, velocity);
+
+        const panning: boolean = this.cutSceneEndTime !== null
+            && gameTime < this.cutSceneEndTime + RHINO_PAN_BACK_MS;
+        const follow: number = getDamping(panning ? PAN_TIME : FOLLOW_TIME, deltaTime);
+        this.position.x = lerp(this.position.x, focus.x, follow);
+        this.position.y = lerp(this.position.y, focus.y, follow);
+
+        const zoomTarget: number = lerp(1, MIN_ZOOM, Math.min(speed / MIN_ZOOM_SPEED, 1));
+        this.zoom = lerp(this.zoom, zoomTarget, getDamping(ZOOM_TIME, deltaTime));
+
+        this.gameWindow = this.getWindowAround(targetPosition);
+    }
+
+    /**
+     * Return where the camera wants to look to see ahead of the target, given how fast it's travelling and which way.
+     */
+    getLookahead(targetPosition: Position, velocity: Position): Position {
+        let lookaheadX: number = velocity.x * LOOKAHEAD_TIME;
+        let lookaheadY: number = velocity.y * LOOKAHEAD_TIME;
+
+        const lookahead: number = Math.hypot(lookaheadX, lookaheadY);
+        if (lookahead > MAX_LOOKAHEAD) {
+            lookaheadX *= MAX_LOOKAHEAD / lookahead;
+            lookaheadY *= MAX_LOOKAHEAD / lookahead;
+        }
+
+        return new Position(targetPosition.x + lookaheadX, targetPosition.y + lookaheadY);
+    }
+
+    /**
+     * Shake the view at the passed in strength, from 0 to 1, unless it's already shaking harder.
+     */
+    shake(strength: number, gameTime: number) {
+        this.shakeStrength = Math.max(this.getShakeStrength(gameTime), strength);
+        this.shakeStartTime = gameTime;
+    }
+
+    /**
+     * Return how strongly the view is shaking at the passed in game time, having died away since the shake started.
+     */
+    getShakeStrength(gameTime: number): number {
+        return this.shakeStrength * Math.max(1 - (gameTime - this.shakeStartTime) / SHAKE_DURATION_MS, 0);
+    }
+
+    /**
+     * Return the area of the world the simulation keeps active.
+     */
+    getGameWindow(): Rect {
+        return this.gameWindow;
+    }
+
+    /**
+     * Point the renderer at what the camera sees part way between the last two ticks, and return the area of the world
+     * in view. Alpha is how far between the previous and current tick this frame is being drawn.
+     */
+    applyView(alpha: number): Rect {
+        const drawTime: number = this.gameTime - (1 - alpha) * TICK_DURATION_MS;
+        const shakeOffset: number = this.getShakeStrength(drawTime) * MAX_SHAKE_OFFSET;
+
+        const zoom: number = lerp(this.previousZoom, this.zoom, alpha);
+        const width: number = this.renderer.width / zoom;
+        const height: number = this.renderer.height / zoom;
+        const left: number = lerp(this.previousPosition.x, this.position.x, alpha)
+            + Math.sin(drawTime * SHAKE_RATE_X) * shakeOffset
+            - width / 2;
+        const top: number = lerp(this.previousPosition.y, this.position.y, alpha)
+            + Math.sin(drawTime * SHAKE_RATE_Y) * shakeOffset
+            - height / 2;
+
+        this.renderer.setDrawOffset(left, top);
+        this.renderer.setDrawScale(zoom);
+
+        return new Rect(left, top, left + width, top + height);
+    }
+
+    /**
+     * Return the area of the world the camera could show while following a target at the passed in position: the view
+     * zoomed all the way out, looking as far ahead as it can in any direction and thrown about by the strongest shake.
+     */
+    getWindowAround(center: Position): Rect {
+        const reach: number = MAX_LOOKAHEAD + MAX_SHAKE_OFFSET;
+        const halfWidth: number = this.renderer.width / MIN_ZOOM / 2 + reach;
+        const halfHeight: number = this.renderer.height / MIN_ZOOM / 2 + reach;
+
+        return new Rect(center.x - halfWidth, center.y - halfHeight, center.x + halfWidth, center.y + halfHeight);
+    }
+}
+
+/**
+ * Return how much of the way to its goal something easing towards it over the passed in time should move in a tick of
+ * deltaTime seconds, so it eases the same however long a tick is.
+ */
+function getDamping(time: number, deltaTime: number): number {
+    return 1 - Math.exp(-deltaTime / time);
+}
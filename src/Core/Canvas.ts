@@ -1,12 +1,20 @@
 /**
  * The Canvas class is responsible for managing the HTML Canvas element and anything drawn to it. It incorporates a
  * drawing offset that all drawn entities to be positioned relative to giving the illusion of moving around in the
- * game world.
+ * game world, and a drawing scale for zooming in and out of it.
  */
 
 import { Position } from './Utils';
+import { iSprite } from '../Interfaces/iImage';
+import { iRenderer, iTextStyle } from '../Interfaces/iRenderer';
 
-export class Canvas {
+/**
+ * How text is drawn when a style isn't given
+ */
+const DEFAULT_FONT: string = '16px sans-serif';
+const DEFAULT_COLOR: string = '#000';
+
+export class Canvas implements iRenderer {
     canvasId: string;
 
     width: number;
@@ -22,6 +30,11 @@ export class Canvas {
 
     drawOffset: Position = new Position(0, 0);
 
+    /**
+     * Images are drawn this many times their size, and this many times as far from the drawOffset
+     */
+    drawScale: number = 1;
+
     /**
      * Create a canvas of a specific size
      */
@@ -84,12 +97,50 @@ export class Canvas {
     }
 
     /**
-     * Draw an Image at the desired coordinates relative to the drawOffset position at the desired size.
+     * Set how much images are scaled by when they're drawn.
      */
-    drawImage(image: HTMLImageElement, x: number, y: number, width: number, height: number) {
-        x -= this.drawOffset.x;
-        y -= this.drawOffset.y;
+    setDrawScale(scale: number) {
+        this.drawScale = scale;
+    }
 
-        this.ctx.drawImage(image, x, y, width, height);
+    /**
+     * Draw a sprite at the desired coordinates relative to the drawOffset position at the desired size, scaled by the
+     * drawScale.
+     */
+    drawImage(sprite: iSprite, x: number, y: number, width: number, height: number) {
+        x = (x - this.drawOffset.x) * this.drawScale;
+        y = (y - this.drawOffset.y) * this.drawScale;
+        width *= this.drawScale;
+        height *= this.drawScale;
+
+        this.ctx.drawImage(
+            sprite.source,
+            sprite.sourceX,
+            sprite.sourceY,
+            sprite.sourceWidth,
+            sprite.sourceHeight,
+            x,
+            y,
+            width,
+            height
+        );
+    }
+
+    /**
+     * Draw text at fixed screen coordinates. Unlike images, text ignores the drawOffset so it stays put on screen.
+     */
+    drawText(text: string, x: number, y: number, style: iTextStyle = {}) {
+        this.ctx.font = style.font || DEFAULT_FONT;
+        this.ctx.fillStyle = style.color || DEFAULT_COLOR;
+        this.ctx.textAlign = style.align || 'left';
+        this.ctx.fillText(text, x, y);
+    }
+
+    /**
+     * Fill a rectangle at fixed screen coordinates, ignoring the drawOffset. Used for overlays.
+     */
+    drawRect(x: number, y: number, width: number, height: number, color: string) {
+        this.ctx.fillStyle = color;
+        this.ctx.fillRect(x, y, width, height);
     }
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { IMAGE_NAMES, SHAPE_TYPES } from "../Constants";
+import { COLLISION_SHAPES } from "../Entities/CollisionShapes";
+import { getShapeBounds, intersectShapes, mirrorShape, moveShape } from "./Collision";
+import { Position, Rect } from "./Utils";
+import { iCollisionShape } from "../Interfaces/iCollisionShape";
+
+const square: iCollisionShape = { type: SHAPE_TYPES.RECT, left: 0, top: 0, right: 10, bottom: 10 };
+
+/**
+ * A right angled triangle filling the bottom left half of a 20 pixel square at the origin
+ */
+const triangle: iCollisionShape = {
+    type: SHAPE_TYPES.POLYGON,
+    points: [new Position(0, 0), new Position(20, 20), new Position(0, 20)],
+};
+
+/**
+ * Return a circle of the passed in radius at the passed in center.
+ */
+function circle(x: number, y: number, radius: number): iCollisionShape {
+    return { type: SHAPE_TYPES.CIRCLE, x, y, radius };
+}
+
+describe('intersectShapes', () => {
+    test('finds rectangles overlapping or touching, but not apart', () => {
+        expect(intersectShapes(square, moveShape(square, new Position(5, 5)))).toBe(true);
+        expect(intersectShapes(square, moveShape(square, new Position(10, 0)))).toBe(true);
+        expect(intersectShapes(square, moveShape(square, new Position(11, 0)))).toBe(false);
+    });
+
+    test('finds circles overlapping by the distance between their centers', () => {
+        expect(intersectShapes(circle(0, 0, 5), circle(8, 0, 4))).toBe(true);
+        expect(intersectShapes(circle(0, 0, 5), circle(7, 7, 4))).toBe(false);
+    });
+
+    test('misses a circle near the corner of a rectangle even when their bounds overlap', () => {
+        expect(intersectShapes(square, circle(13, 13, 4))).toBe(false);
+        expect(intersectShapes(square, circle(12, 12, 4))).toBe(true);
+        expect(intersectShapes(circle(12, 12, 4), square)).toBe(true);
+    });
+
+    test('misses a shape in the empty half of a triangle', () => {
+        expect(intersectShapes(triangle, moveShape(square, new Position(12, 0)))).toBe(false);
+        expect(intersectShapes(triangle, circle(15, 4, 3))).toBe(false);
+        expect(intersectShapes(triangle, moveShape(square, new Position(0, 12)))).toBe(true);
+    });
+});
+
+describe('moving and mirroring shapes', () => {
+    test('moves every kind of shape by the offset', () => {
+        const offset: Position = new Position(100, 50);
+
+        expect(getShapeBounds(moveShape(square, offset))).toEqual(new Rect(100, 50, 110, 60));
+        expect(getShapeBounds(moveShape(circle(0, 0, 5), offset))).toEqual(new Rect(95, 45, 105, 55));
+        expect(getShapeBounds(moveShape(triangle, offset))).toEqual(new Rect(100, 50, 120, 70));
+    });
+
+    test('mirrors a polygon about its center and keeps its points in order', () => {
+        const mirrored: iCollisionShape = mirrorShape(triangle);
+
+        expect(getShapeBounds(mirrored).left).toBe(-20);
+        expect(getShapeBounds(mirrored).right).toBeCloseTo(0);
+        expect(intersectShapes(mirrored, moveShape(square, new Position(-22, 0)))).toBe(false);
+        expect(intersectShapes(mirrored, moveShape(square, new Position(-10, 12)))).toBe(true);
+    });
+});
+
+describe('the collision shape manifest', () => {
+    /**
+     * Is a polygon convex, with its corners all turning the same way round.
+     */
+    function isConvex(points: Position[]): boolean {
+        const turns: number[] = points.map((point: Position, index: number) => {
+            const next: Position = points[(index + 1) % points.length];
+            const after: Position = points[(index + 2) % points.length];
+
+            return Math.sign((next.x - point.x) * (after.y - next.y) - (next.y - point.y) * (after.x - next.x));
+        });
+
+        return turns.every((turn: number) => turn >= 0) || turns.every((turn: number) => turn <= 0);
+    }
+
+    test('only has convex polygons', () => {
+        Object.keys(COLLISION_SHAPES).forEach((imageName: string) => {
+            const shapes: iCollisionShape[] = COLLISION_SHAPES[imageName as IMAGE_NAMES] || [];
+
+            shapes.forEach((shape: iCollisionShape) => {
+                if (shape.type === SHAPE_TYPES.POLYGON) {
+                    expect(isConvex(shape.points)).toBe(true);
+                }
+            });
+        });
+    });
+
+    test('lets the skier through the gap between trees in a cluster', () => {
+        const cluster: iCollisionShape[] = COLLISION_SHAPES[IMAGE_NAMES.TREE_CLUSTER] || [];
+        const gap: iCollisionShape = circle(25, 20, 4);
+
+        expect(cluster.some((shape: iCollisionShape) => intersectShapes(shape, gap))).toBe(false);
+    });
+});
@@ -0,0 +1,192 @@
+/**
+ * Testing collision shapes against each other. Rectangles are treated as four sided polygons, and overlaps between
+ * polygons and circles are found with the separating axis test: two convex shapes overlap unless there's a line they
+ * can be projected onto without their projections overlapping, and the only lines worth trying are the ones at right
+ * angles to their edges, plus the one towards a circle's center. Shapes that only touch count as overlapping.
+ */
+
+import { SHAPE_TYPES } from "../Constants";
+import { iCircleShape, iCollisionShape } from "../Interfaces/iCollisionShape";
+import { getDirectionVector, intersectTwoRects, Position, Rect } from "./Utils";
+
+/**
+ * Where a shape lies along an axis
+ */
+interface iProjection {
+    min: number;
+    max: number;
+}
+
+/**
+ * Return a copy of a shape moved by the passed in offset, e.g. from relative to an image's center to where the image
+ * is in the world.
+ */
+export function moveShape(shape: iCollisionShape, offset: Position): iCollisionShape {
+    switch (shape.type) {
+        case SHAPE_TYPES.RECT:
+            return {
+                type: SHAPE_TYPES.RECT,
+                left: shape.left + offset.x,
+                top: shape.top + offset.y,
+                right: shape.right + offset.x,
+                bottom: shape.bottom + offset.y,
+            };
+        case SHAPE_TYPES.CIRCLE:
+            return { type: SHAPE_TYPES.CIRCLE, x: shape.x + offset.x, y: shape.y + offset.y, radius: shape.radius };
+        case SHAPE_TYPES.POLYGON:
+            return {
+                type: SHAPE_TYPES.POLYGON,
+                points: shape.points.map((point: Position) => new Position(point.x + offset.x, point.y + offset.y)),
+            };
+    }
+}
+
+/**
+ * Return a copy of a shape flipped left to right about its image's center.
+ */
+export function mirrorShape(shape: iCollisionShape): iCollisionShape {
+    switch (shape.type) {
+        case SHAPE_TYPES.RECT:
+            return {
+                type: SHAPE_TYPES.RECT,
+                left: -shape.right,
+                top: shape.top,
+                right: -shape.left,
+                bottom: shape.bottom,
+            };
+        case SHAPE_TYPES.CIRCLE:
+            return { type: SHAPE_TYPES.CIRCLE, x: -shape.x, y: shape.y, radius: shape.radius };
+        case SHAPE_TYPES.POLYGON:
+            // Flipping reverses which way round the points go, so put them back in order
+            return {
+                type: SHAPE_TYPES.POLYGON,
+                points: shape.points.map((point: Position) => new Position(-point.x, point.y)).reverse(),
+            };
+    }
+}
+
+/**
+ * Return the smallest rectangle that contains the shape.
+ */
+export function getShapeBounds(shape: iCollisionShape): Rect {
+    switch (shape.type) {
+        case SHAPE_TYPES.RECT:
+            return new Rect(shape.left, shape.top, shape.right, shape.bottom);
+        case SHAPE_TYPES.CIRCLE:
+            return new Rect(
+                shape.x - shape.radius,
+                shape.y - shape.radius,
+                shape.x + shape.radius,
+                shape.y + shape.radius
+            );
+        case SHAPE_TYPES.POLYGON: {
+            const xs: number[] = shape.points.map((point: Position) => point.x);
+            const ys: number[] = shape.points.map((point: Position) => point.y);
+
+            return new Rect(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys));
+        }
+    }
+}
+
+/**
+ * Do any of the shapes in one list overlap any of the shapes in the other.
+ */
+export function intersectShapeLists(shapes1: iCollisionShape[], shapes2: iCollisionShape[]): boolean {
+    return shapes1.some((shape1: iCollisionShape) => {
+        return shapes2.some((shape2: iCollisionShape) => intersectShapes(shape1, shape2));
+    });
+}
+
+/**
+ * Determine if there is an intersection (overlap) between two shapes. Most shapes tested are nowhere near each other,
+ * so their bounds are compared first to skip the full test.
+ */
+export function intersectShapes(shape1: iCollisionShape, shape2: iCollisionShape): boolean {
+    if (!intersectTwoRects(getShapeBounds(shape1), getShapeBounds(shape2))) {
+        return false;
+    }
+
+    if (shape1.type === SHAPE_TYPES.CIRCLE && shape2.type === SHAPE_TYPES.CIRCLE) {
+        return Math.hypot(shape2.x - shape1.x, shape2.y - shape1.y) <= shape1.radius + shape2.radius;
+    }
+
+    if (shape1.type === SHAPE_TYPES.CIRCLE) {
+        return intersectCircleAndPolygon(shape1, getPoints(shape2));
+    }
+
+    if (shape2.type === SHAPE_TYPES.CIRCLE) {
+        return intersectCircleAndPolygon(shape2, getPoints(shape1));
+    }
+
+    const points1: Position[] = getPoints(shape1);
+    const points2: Position[] = getPoints(shape2);
+    const axes: Position[] = getEdgeNormals(points1).concat(getEdgeNormals(points2));
+
+    return axes.every((axis: Position) => {
+        return projectionsOverlap(projectPoints(points1, axis), projectPoints(points2, axis));
+    });
+}
+
+/**
+ * Does a circle overlap a convex polygon. As well as the polygon's edges, the circle can only be separated from it
+ * along the line from the polygon's nearest corner to the circle's center.
+ */
+function intersectCircleAndPolygon(circle: iCircleShape, points: Position[]): boolean {
+    const nearest: Position = points.reduce((closest: Position, point: Position) => {
+        const closestDistance: number = Math.hypot(closest.x - circle.x, closest.y - circle.y);
+
+        return Math.hypot(point.x - circle.x, point.y - circle.y) < closestDistance ? point : closest;
+    });
+    const axes: Position[] = getEdgeNormals(points);
+    axes.push(getDirectionVector(nearest.x, nearest.y, circle.x, circle.y));
+
+    return axes.every((axis: Position) => {
+        const center: number = circle.x * axis.x + circle.y * axis.y;
+        const circleProjection: iProjection = { min: center - circle.radius, max: center + circle.radius };
+
+        return projectionsOverlap(circleProjection, projectPoints(points, axis));
+    });
+}
+
+/**
+ * Return the corners of a rectangle or polygon.
+ */
+function getPoints(shape: iCollisionShape): Position[] {
+    switch (shape.type) {
+        case SHAPE_TYPES.RECT:
+            return [
+                new Position(shape.left, shape.top),
+                new Position(shape.right, shape.top),
+                new Position(shape.right, shape.bottom),
+                new Position(shape.left, shape.bottom),
+            ];
+        case SHAPE_TYPES.POLYGON:
+            return shape.points;
+        case SHAPE_TYPES.CIRCLE:
+            return [new Position(shape.x, shape.y)];
+    }
+}
+
+/**
+ * Return a line at right angles to each edge of a polygon, as normalized vectors.
+ */
+function getEdgeNormals(points: Position[]): Position[] {
+    return points.map((point: Position, index: number) => {
+        const next: Position = points[(index + 1) % points.length];
+
+        return getDirectionVector(0, 0, point.y - next.y, next.x - point.x);
+    });
+}
+
+/**
+ * Return where a set of points lie along an axis.
+ */
+function projectPoints(points: Position[], axis: Position): iProjection {
+    const projected: number[] = points.map((point: Position) => point.x * axis.x + point.y * axis.y);
+
+    return { min: Math.min(...projected), max: Math.max(...projected) };
+}
+
+function projectionsOverlap(projection1: iProjection, projection2: iProjection): boolean {
+    return projection1.min <= projection2.max && projection2.min <= projection1.max;
+}
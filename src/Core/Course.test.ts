@@ -0,0 +1,82 @@
+import { OBSTACLE_TYPES } from "../Constants";
+import { DEFAULT_RHINO_CONFIG } from "../Entities/Rhino";
+import { COURSE_VERSION, createCourse, parseCourse } from "./Course";
+import { iCourse } from "../Interfaces/iCourse";
+
+/**
+ * Return the JSON for a race course, with the passed in fields changed.
+ */
+function raceCourseJson(changes: Record<string, unknown> = {}): string {
+    const course: iCourse = {
+        ...createCourse([{ x: 10, y: 200, type: OBSTACLE_TYPES.TREE }]),
+        metadata: { name: 'Downhill', author: 'Someone', parTime: 30000 },
+        gates: [{ x: 0, y: 500 }, { x: 50, y: 900 }],
+        finishLine: { x: 0, y: 1500 },
+    };
+
+    return JSON.stringify({ ...course, ...changes });
+}
+
+describe('parseCourse', () => {
+    test('reads back a saved course', () => {
+        const json: string = raceCourseJson();
+
+        expect(parseCourse(json)).toEqual(JSON.parse(json));
+    });
+
+    test('migrates a version 1 course to a course from the top with the usual rhino and no finish line', () => {
+        const course: iCourse = parseCourse(JSON.stringify({
+            version: 1,
+            obstacles: [{ x: 10, y: 200, type: OBSTACLE_TYPES.ROCK1 }],
+        }));
+
+        expect(course).toEqual({
+            ...createCourse([{ x: 10, y: 200, type: OBSTACLE_TYPES.ROCK1 }]),
+            version: COURSE_VERSION,
+        });
+        expect(course.rhino).toEqual({
+            appearDistance: DEFAULT_RHINO_CONFIG.appearDistance,
+            appearTime: DEFAULT_RHINO_CONFIG.appearTime,
+        });
+    });
+
+    test('rejects versions it does not know', () => {
+        expect(() => parseCourse(raceCourseJson({ version: 3 }))).toThrow(
+            `Unsupported course version 3, expected ${COURSE_VERSION}`
+        );
+    });
+
+    test('rejects a file that is not a JSON object', () => {
+        expect(() => parseCourse('{')).toThrow('Course file is not valid JSON');
+        expect(() => parseCourse('[]')).toThrow('Course file must contain a JSON object');
+    });
+
+    test('names the field at fault', () => {
+        const badObstacles = [{ x: 10, y: 200, type: OBSTACLE_TYPES.TREE }, { x: 'left', y: 300, type: 'tree' }];
+
+        expect(() => parseCourse(raceCourseJson({ obstacles: badObstacles }))).toThrow(
+            'Course field obstacles[1].x must be a number'
+        );
+        expect(() => parseCourse(raceCourseJson({ obstacles: [{ x: 0, y: 0, type: 'snowman' }] }))).toThrow(
+            'Course field obstacles[0].type has unknown obstacle type snowman'
+        );
+        expect(() => parseCourse(raceCourseJson({ rhino: { appearDistance: -1, appearTime: 0 } }))).toThrow(
+            'Course field rhino.appearDistance must not be negative'
+        );
+        expect(() => parseCourse(raceCourseJson({ metadata: { name: 'Downhill', author: 3, parTime: null } }))).toThrow(
+            'Course field metadata.author must be a string'
+        );
+    });
+
+    test('rejects gates and a finish line out of order down the course', () => {
+        expect(() => parseCourse(raceCourseJson({ gates: [{ x: 0, y: 900 }, { x: 0, y: 500 }] }))).toThrow(
+            'Course field gates[1].y must be further down the course than gates[0]'
+        );
+        expect(() => parseCourse(raceCourseJson({ finishLine: { x: 0, y: 800 } }))).toThrow(
+            'Course field finishLine.y must be further down the course than the last gate'
+        );
+        expect(() => parseCourse(raceCourseJson({ finishLine: null }))).toThrow(
+            'Course field gates must be empty on a course without a finish line'
+        );
+    });
+});
@@ -0,0 +1,208 @@
+/**
+ * Creating, validating and migrating course files. A course is a layout of obstacles built by hand in the course
+ * editor, along with where the skier starts, when the rhino turns up, any gates and finish line to race through and
+ * what the course is called. Courses are saved as plain JSON so they can be shared, edited and played on again later.
+ * The format is described in full in the README.
+ */
+
+import { isObstacleType } from "../Entities/Obstacles/ObstacleTypes";
+import { DEFAULT_RHINO_CONFIG } from "../Entities/Rhino";
+import { isRecord } from "./Utils";
+import { iCourse, iCoursePoint, iCourseRhino } from "../Interfaces/iCourse";
+import { iObstaclePlacement } from "../Interfaces/iTerrain";
+
+/**
+ * The version of the course file format. Bump it whenever the format changes, and add a migration from the previous
+ * version to migrateCourse().
+ */
+export const COURSE_VERSION: number = 2;
+
+/**
+ * What a course is called until it's given a name
+ */
+const DEFAULT_COURSE_NAME: string = 'Untitled course';
+
+/**
+ * Return a new course made up of the passed in obstacles. It starts at the top of the mountain, has the rhino turn
+ * up as it normally would, and is skied until the rhino catches the skier.
+ */
+export function createCourse(obstacles: iObstaclePlacement[] = []): iCourse {
+    return {
+        version: COURSE_VERSION,
+        metadata: { name: DEFAULT_COURSE_NAME, author: '', parTime: null },
+        start: { x: 0, y: 0 },
+        rhino: {
+            appearDistance: DEFAULT_RHINO_CONFIG.appearDistance,
+            appearTime: DEFAULT_RHINO_CONFIG.appearTime,
+        },
+        obstacles: obstacles.map((obstacle: iObstaclePlacement) => ({ ...obstacle })),
+        gates: [],
+        finishLine: null,
+    };
+}
+
+/**
+ * Parse the contents of a course file, throwing an error naming the first bad field if it isn't a valid course.
+ * Courses from older versions are migrated to the current version first.
+ */
+export function parseCourse(json: string): iCourse {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        throw new Error('Course file is not valid JSON');
+    }
+
+    if (!isRecord(parsed)) {
+        throw new Error('Course file must contain a JSON object');
+    }
+
+    const data: Record<string, unknown> = migrateCourse(parsed);
+
+    checkObject(data.metadata, 'metadata');
+    checkString(data.metadata.name, 'metadata.name');
+    checkString(data.metadata.author, 'metadata.author');
+    if (data.metadata.parTime !== null) {
+        checkPositive(data.metadata.parTime, 'metadata.parTime');
+    }
+
+    const start: iCoursePoint = parsePoint(data.start, 'start');
+
+    let rhino: iCourseRhino | null = null;
+    if (data.rhino !== null) {
+        checkObject(data.rhino, 'rhino');
+        checkNotNegative(data.rhino.appearDistance, 'rhino.appearDistance');
+        checkNotNegative(data.rhino.appearTime, 'rhino.appearTime');
+        rhino = { appearDistance: data.rhino.appearDistance, appearTime: data.rhino.appearTime };
+    }
+
+    checkArray(data.obstacles, 'obstacles');
+    const obstacles: iObstaclePlacement[] = data.obstacles.map((value: unknown, index: number) => {
+        const path: string = `obstacles[${index}]`;
+
+        checkPoint(value, path);
+        if (!isObstacleType(value.type)) {
+            throw new Error(`Course field ${path}.type has unknown obstacle type ${value.type}`);
+        }
+
+        return { x: value.x, y: value.y, type: value.type };
+    });
+
+    checkArray(data.gates, 'gates');
+    const gates: iCoursePoint[] = data.gates.map((value: unknown, index: number) => {
+        return parsePoint(value, `gates[${index}]`);
+    });
+    gates.forEach((gate: iCoursePoint, index: number) => {
+        if (index > 0 && gate.y <= gates[index - 1].y) {
+            throw new Error(`Course field gates[${index}].y must be further down the course than gates[${index - 1}]`);
+        }
+    });
+
+    let finishLine: iCoursePoint | null = null;
+    if (data.finishLine === null) {
+        if (gates.length) {
+            throw new Error('Course field gates must be empty on a course without a finish line');
+        }
+    } else {
+        finishLine = parsePoint(data.finishLine, 'finishLine');
+
+        if (finishLine.y <= start.y) {
+            throw new Error('Course field finishLine.y must be further down the course than the start');
+        }
+
+        const lastGate: iCoursePoint | undefined = gates[gates.length - 1];
+        if (lastGate && finishLine.y <= lastGate.y) {
+            throw new Error('Course field finishLine.y must be further down the course than the last gate');
+        }
+    }
+
+    return {
+        version: COURSE_VERSION,
+        metadata: {
+            name: data.metadata.name,
+            author: data.metadata.author,
+            parTime: data.metadata.parTime,
+        },
+        start,
+        rhino,
+        obstacles,
+        gates,
+        finishLine,
+    };
+}
+
+/**
+ * Bring a course from an older version up to the current version, one version at a time. Course files are shared and
+ * kept around, so every version the editor has ever saved has to keep loading.
+ */
+function migrateCourse(data: Record<string, unknown>): Record<string, unknown> {
+    if (data.version === 1) {
+        // The first course editor saved version 1 files, which held only the obstacles. Version 2 added the start,
+        // rhino, gates, finish line and metadata, and version 1 courses were all skied from the top of the mountain
+        // until the rhino caught the skier.
+        const { obstacles, ...rest } = createCourse();
+        data = { ...rest, ...data, version: 2 };
+    }
+
+    if (data.version !== COURSE_VERSION) {
+        throw new Error(`Unsupported course version ${data.version}, expected ${COURSE_VERSION}`);
+    }
+
+    return data;
+}
+
+/**
+ * Check a point in the world and return a copy of it.
+ */
+function parsePoint(value: unknown, path: string): iCoursePoint {
+    checkPoint(value, path);
+
+    return { x: value.x, y: value.y };
+}
+
+/**
+ * Check something is an object with a position in the world, such as an obstacle, which can have other fields too.
+ */
+function checkPoint(value: unknown, path: string): asserts value is Record<string, unknown> & iCoursePoint {
+    checkObject(value, path);
+    checkNumber(value.x, `${path}.x`);
+    checkNumber(value.y, `${path}.y`);
+}
+
+function checkObject(value: unknown, path: string): asserts value is Record<string, unknown> {
+    if (!isRecord(value)) {
+        throw new Error(`Course field ${path} must be an object`);
+    }
+}
+
+function checkArray(value: unknown, path: string): asserts value is unknown[] {
+    if (!Array.isArray(value)) {
+        throw new Error(`Course field ${path} must be an array`);
+    }
+}
+
+function checkString(value: unknown, path: string): asserts value is string {
+    if (typeof value !== 'string') {
+        throw new Error(`Course field ${path} must be a string`);
+    }
+}
+
+function checkNumber(value: unknown, path: string): asserts value is number {
+    if (typeof value !== 'number' || !isFinite(value)) {
+        throw new Error(`Course field ${path} must be a number`);
+    }
+}
+
+function checkNotNegative(value: unknown, path: string): asserts value is number {
+    checkNumber(value, path);
+    if (value < 0) {
+        throw new Error(`Course field ${path} must not be negative`);
+    }
+}
+
+function checkPositive(value: unknown, path: string): asserts value is number {
+    checkNumber(value, path);
+    if (value <= 0) {
+        throw new Error(`Course field ${path} must be above 0`);
+    }
+}
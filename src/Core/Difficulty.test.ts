@@ -0,0 +1,71 @@
+import { DIFFICULTIES } from "../Constants";
+import { DIFFICULTY_PRESETS, getDifficultyLevel, isDifficulty, nextDifficulty } from "./Difficulty";
+import { iDifficultyCurvePoint } from "../Interfaces/iDifficulty";
+
+const CURVE: iDifficultyCurvePoint[] = [
+    { distance: 0, skierSpeed: 300, obstacleChance: 0.1, treeClusterWeight: 1, rhinoSpeed: 310 },
+    { distance: 100, skierSpeed: 400, obstacleChance: 0.2, treeClusterWeight: 2, rhinoSpeed: 410 },
+    { distance: 300, skierSpeed: 500, obstacleChance: 0.4, treeClusterWeight: 4, rhinoSpeed: 510 },
+];
+
+describe('getDifficultyLevel', () => {
+    test('is the first point of the curve at the top of the mountain', () => {
+        expect(getDifficultyLevel(CURVE, 0)).toEqual({
+            skierSpeed: 300,
+            obstacleChance: 0.1,
+            treeClusterWeight: 1,
+            rhinoSpeed: 310,
+        });
+    });
+
+    test('blends between the points on either side', () => {
+        const level = getDifficultyLevel(CURVE, 200);
+
+        expect(level.skierSpeed).toBeCloseTo(450);
+        expect(level.obstacleChance).toBeCloseTo(0.3);
+        expect(level.treeClusterWeight).toBeCloseTo(3);
+        expect(level.rhinoSpeed).toBeCloseTo(460);
+    });
+
+    test('stays at the last point past the end of the curve', () => {
+        expect(getDifficultyLevel(CURVE, 10000)).toEqual(getDifficultyLevel(CURVE, 300));
+    });
+
+    test('gets harder the further down the mountain on every preset', () => {
+        Object.values(DIFFICULTIES).forEach((difficulty: DIFFICULTIES) => {
+            const curve: iDifficultyCurvePoint[] = DIFFICULTY_PRESETS[difficulty].curve;
+            const top = getDifficultyLevel(curve, 0);
+            const bottom = getDifficultyLevel(curve, curve[curve.length - 1].distance);
+
+            expect(bottom.skierSpeed).toBeGreaterThan(top.skierSpeed);
+            expect(bottom.obstacleChance).toBeGreaterThan(top.obstacleChance);
+            expect(bottom.rhinoSpeed).toBeGreaterThan(top.rhinoSpeed);
+        });
+    });
+
+    test('is harder on each preset than the one before', () => {
+        [0, 500, 2000].forEach((distance: number) => {
+            const easy = getDifficultyLevel(DIFFICULTY_PRESETS[DIFFICULTIES.EASY].curve, distance);
+            const normal = getDifficultyLevel(DIFFICULTY_PRESETS[DIFFICULTIES.NORMAL].curve, distance);
+            const hard = getDifficultyLevel(DIFFICULTY_PRESETS[DIFFICULTIES.HARD].curve, distance);
+
+            expect(normal.skierSpeed).toBeGreaterThan(easy.skierSpeed);
+            expect(hard.skierSpeed).toBeGreaterThan(normal.skierSpeed);
+            expect(normal.obstacleChance).toBeGreaterThan(easy.obstacleChance);
+            expect(hard.obstacleChance).toBeGreaterThan(normal.obstacleChance);
+        });
+    });
+});
+
+describe('difficulties', () => {
+    test('cycle through every preset and back to the first', () => {
+        expect(nextDifficulty(DIFFICULTIES.EASY)).toBe(DIFFICULTIES.NORMAL);
+        expect(nextDifficulty(DIFFICULTIES.NORMAL)).toBe(DIFFICULTIES.HARD);
+        expect(nextDifficulty(DIFFICULTIES.HARD)).toBe(DIFFICULTIES.EASY);
+    });
+
+    test('are told apart from other values', () => {
+        expect(isDifficulty(DIFFICULTIES.HARD)).toBe(true);
+        expect(isDifficulty('extreme')).toBe(false);
+    });
+});
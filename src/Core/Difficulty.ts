@@ -0,0 +1,92 @@
+/**
+ * The difficulty presets and their curves. The game gets harder the further down the mountain the skier gets: the
+ * skier goes faster, obstacles are placed more often and are more likely to be tree clusters, and the rhino runs
+ * faster. Each preset ramps these up at its own pace.
+ */
+
+import { DIFFICULTIES } from "../Constants";
+import { lerp } from "./Utils";
+import { DEFAULT_RHINO_CONFIG } from "../Entities/Rhino";
+import { iDifficultyCurvePoint, iDifficultyLevel, iDifficultyPreset } from "../Interfaces/iDifficulty";
+
+export const DIFFICULTY_PRESETS: Record<DIFFICULTIES, iDifficultyPreset> = {
+    [DIFFICULTIES.EASY]: {
+        label: 'Easy',
+        curve: [
+            { distance: 0, skierSpeed: 260, obstacleChance: 0.09, treeClusterWeight: 0.5, rhinoSpeed: 270 },
+            { distance: 1000, skierSpeed: 320, obstacleChance: 0.12, treeClusterWeight: 1, rhinoSpeed: 330 },
+            { distance: 2500, skierSpeed: 380, obstacleChance: 0.16, treeClusterWeight: 1.5, rhinoSpeed: 390 },
+        ],
+        rhino: {
+            ...DEFAULT_RHINO_CONFIG,
+            appearDistance: 300,
+            appearTime: 30000,
+            lungeRange: 160,
+            chaseStaminaDrain: 0.04,
+        },
+    },
+    [DIFFICULTIES.NORMAL]: {
+        label: 'Normal',
+        curve: [
+            { distance: 0, skierSpeed: 300, obstacleChance: 0.125, treeClusterWeight: 1, rhinoSpeed: 310 },
+            { distance: 500, skierSpeed: 360, obstacleChance: 0.16, treeClusterWeight: 1.5, rhinoSpeed: 370 },
+            { distance: 1500, skierSpeed: 450, obstacleChance: 0.22, treeClusterWeight: 2.5, rhinoSpeed: 460 },
+        ],
+        rhino: DEFAULT_RHINO_CONFIG,
+    },
+    [DIFFICULTIES.HARD]: {
+        label: 'Hard',
+        curve: [
+            { distance: 0, skierSpeed: 340, obstacleChance: 0.16, treeClusterWeight: 1.5, rhinoSpeed: 355 },
+            { distance: 400, skierSpeed: 420, obstacleChance: 0.21, treeClusterWeight: 2.5, rhinoSpeed: 440 },
+            { distance: 1200, skierSpeed: 520, obstacleChance: 0.28, treeClusterWeight: 4, rhinoSpeed: 545 },
+        ],
+        rhino: {
+            ...DEFAULT_RHINO_CONFIG,
+            appearDistance: 120,
+            appearTime: 12000,
+            lungeRange: 240,
+            chaseStaminaDrain: 0.02,
+        },
+    },
+};
+
+const DIFFICULTY_VALUES: DIFFICULTIES[] = Object.values(DIFFICULTIES);
+
+/**
+ * Is the passed in value the name of a difficulty preset.
+ */
+export function isDifficulty(value: unknown): value is DIFFICULTIES {
+    return DIFFICULTY_VALUES.indexOf(value as DIFFICULTIES) !== -1;
+}
+
+/**
+ * Return the difficulty after the passed in one, going back to the first after the last.
+ */
+export function nextDifficulty(difficulty: DIFFICULTIES): DIFFICULTIES {
+    return DIFFICULTY_VALUES[(DIFFICULTY_VALUES.indexOf(difficulty) + 1) % DIFFICULTY_VALUES.length];
+}
+
+/**
+ * Return how hard the game is at a distance down the mountain, in metres, blending between the curve's points on
+ * either side.
+ */
+export function getDifficultyLevel(curve: iDifficultyCurvePoint[], distance: number): iDifficultyLevel {
+    let index: number = 0;
+    while (index < curve.length - 1 && curve[index + 1].distance <= distance) {
+        index++;
+    }
+
+    const from: iDifficultyCurvePoint = curve[index];
+    const to: iDifficultyCurvePoint = curve[Math.min(index + 1, curve.length - 1)];
+    const amount: number = to.distance > from.distance
+        ? Math.min(Math.max((distance - from.distance) / (to.distance - from.distance), 0), 1)
+        : 0;
+
+    return {
+        skierSpeed: lerp(from.skierSpeed, to.skierSpeed, amount),
+        obstacleChance: lerp(from.obstacleChance, to.obstacleChance, amount),
+        treeClusterWeight: lerp(from.treeClusterWeight, to.treeClusterWeight, amount),
+        rhinoSpeed: lerp(from.rhinoSpeed, to.rhinoSpeed, amount),
+    };
+}
@@ -0,0 +1,74 @@
+/**
+ * A typed publish/subscribe event bus. The Events type maps each event name to the payload sent with it, so listeners
+ * and emitters are checked against each other. Every event is stamped with the game time it happened at, taken from
+ * the clock the bus was created with.
+ */
+
+/**
+ * A listener receives the event's payload along with the game time it was emitted at.
+ */
+export type EventListener<Payload> = (event: Payload & { gameTime: number }) => void;
+
+export class EventBus<Events> {
+    /**
+     * Listeners subscribed to each event
+     */
+    private listeners: { [Type in keyof Events]?: EventListener<Events[Type]>[] } = {};
+
+    /**
+     * Returns the current game time in ms
+     */
+    private readonly getGameTime: () => number;
+
+    constructor(getGameTime: () => number) {
+        this.getGameTime = getGameTime;
+    }
+
+    /**
+     * Subscribe to an event. Returns a function that unsubscribes the listener again.
+     */
+    on<Type extends keyof Events>(type: Type, listener: EventListener<Events[Type]>): () => void {
+        const listeners: EventListener<Events[Type]>[] = this.listeners[type] || [];
+        listeners.push(listener);
+        this.listeners[type] = listeners;
+
+        return () => this.off(type, listener);
+    }
+
+    /**
+     * Unsubscribe a listener from an event.
+     */
+    off<Type extends keyof Events>(type: Type, listener: EventListener<Events[Type]>) {
+        const listeners = this.listeners[type];
+        if (!listeners) {
+            return;
+        }
+
+        const index = listeners.indexOf(listener);
+        if (index !== -1) {
+            listeners.splice(index, 1);
+        }
+    }
+
+    /**
+     * Send an event to everything subscribed to it. Listeners are copied first so they can unsubscribe while handling
+     * the event.
+     */
+    emit<Type extends keyof Events>(type: Type, payload: Events[Type]) {
+        const listeners = this.listeners[type];
+        if (!listeners) {
+            return;
+        }
+
+        const event = { ...payload, gameTime: this.getGameTime() };
+
+        listeners.slice().forEach((listener: EventListener<Events[Type]>) => listener(event));
+    }
+
+    /**
+     * Unsubscribe every listener from every event.
+     */
+    clear() {
+        this.listeners = {};
+    }
+}
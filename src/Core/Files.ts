@@ -0,0 +1,42 @@
+/**
+ * Helpers for moving files between the game and the player's computer.
+ */
+
+/**
+ * Save data to the player's computer as a JSON file with the passed in name.
+ */
+export function downloadJson(filename: string, data: unknown) {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Ask the player to pick a file and return a promise that resolves with its text contents.
+ */
+export function pickTextFile(accept: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = accept;
+        input.onchange = () => {
+            const file = input.files && input.files[0];
+            if (!file) {
+                reject(new Error('No file was selected'));
+                return;
+            }
+
+            const reader = new FileReader();
+            reader.onload = () => resolve(String(reader.result));
+            reader.onerror = () => reject(new Error(`Could not read file ${file.name}`));
+            reader.readAsText(file);
+        };
+        input.click();
+    });
+}
@@ -0,0 +1,46 @@
+import { GAME_EVENTS, KEYS, TICKS_PER_SECOND } from "../Constants";
+import { Game } from "./Game";
+import { createGame } from "./TestHelpers";
+
+describe('Game', () => {
+    test('runs a tick for every tick simulated', () => {
+        const game: Game = createGame(1);
+        game.simulate(TICKS_PER_SECOND);
+
+        expect(game.createSnapshot().tick).toBe(TICKS_PER_SECOND);
+    });
+
+    test('moves the skier down the mountain', () => {
+        const game: Game = createGame(1);
+        const startY: number = game.createSnapshot().skier.y;
+
+        game.receiveInput(KEYS.DOWN);
+        game.simulate(TICKS_PER_SECOND);
+
+        expect(game.createSnapshot().skier.y).toBeGreaterThan(startY);
+    });
+
+    test('ends once the rhino catches the skier', () => {
+        const game: Game = createGame(1);
+        const caught = jest.fn();
+        game.getEventBus().on(GAME_EVENTS.RHINO_CAUGHT_TARGET, caught);
+
+        game.simulate(40 * TICKS_PER_SECOND);
+
+        expect(game.isGameOver()).toBe(true);
+        expect(caught).toHaveBeenCalledTimes(1);
+    });
+
+    test('plays out the same for the same seed and inputs', () => {
+        const games: Game[] = [createGame(42), createGame(42)];
+
+        games.forEach((game: Game) => {
+            game.receiveInput(KEYS.DOWN);
+            game.simulate(2 * TICKS_PER_SECOND);
+            game.receiveInput(KEYS.LEFT);
+            game.simulate(TICKS_PER_SECOND);
+        });
+
+        expect(games[0].createSnapshot()).toEqual(games[1].createSnapshot());
+    });
+});
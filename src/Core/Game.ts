@@ -1,36 +1,125 @@
 /**
- * The main game class. This initializes the game as well as runs the game/render loop and initial handling of input.
+ * The main game class. This initializes a single run of the game, advances it and draws it, as well as the initial
+ * handling of input. The simulation is advanced in fixed ticks of TICK_DURATION_MS so it behaves identically at any
+ * frame rate, while drawing interpolates between the last two ticks. The App's GameLoop decides when each happens.
+ *
+ * In an endless game the skier heads down the mountain until the rhino catches them. In a slalom race there's no
+ * rhino, and the game is over once the skier crosses the finish line at the bottom of the course. Either can also be
+ * played on a course built in the course editor in place of the generated terrain. The course says where the skier
+ * starts and when the rhino turns up, if at all, and a course raced as a slalom brings its own gates and finish line.
+ *
+ * What's on screen is up to the game's camera, which follows the skier and also decides which area of the world is
+ * kept active. Everything is drawn through a render queue, which draws it in layers and in front to back order.
+ *
+ * The game only talks to the outside world through the renderer it's given, so with a HeadlessRenderer it can be
+ * simulated outside of a browser by calling simulate().
  */
 
-import { GAME_CANVAS, GAME_WIDTH, GAME_HEIGHT, IMAGES, KEYS } from "../Constants";
-import { Canvas } from './Canvas';
+import { DIFFICULTIES, GAME_MODES, PHYSICS_MODES, RENDER_LAYERS, TICK_DURATION_MS } from "../Constants";
+import { DIFFICULTY_PRESETS, getDifficultyLevel } from "./Difficulty";
+import { Camera } from "./Camera";
+import { EventBus } from "./EventBus";
 import { ImageManager } from "./ImageManager";
-import { Position, Rect } from './Utils';
+import { Random } from "./Random";
+import { RenderQueue } from "./RenderQueue";
+import { Scoring } from "./Scoring";
+import { InputRecorder, ReplayPlayer } from "./Replay";
+import { SNAPSHOT_VERSION } from "./Snapshot";
+import { iDifficultyLevel, iDifficultyPreset } from "../Interfaces/iDifficulty";
+import { iCourse, iCoursePoint } from "../Interfaces/iCourse";
+import { iRenderer } from "../Interfaces/iRenderer";
+import { iInput, iReplay } from "../Interfaces/iReplay";
+import { iGameSnapshot } from "../Interfaces/iSnapshot";
+import { GameEventBus, iGameEvents } from "../Interfaces/iGameEvents";
+import { iScore } from "../Interfaces/iScore";
+import { iRaceResult } from "../Interfaces/iRaceResult";
+import { drawHud, drawRaceHud } from "../UI/Hud";
+import { Rect } from './Utils';
 import { ObstacleManager } from "../Entities/Obstacles/ObstacleManager";
-import { Rhino, STARTING_SPEED as STARTING_SPEED_RHINO } from "../Entities/Rhino";
-import { Skier, STARTING_SPEED as STARTING_SPEED_SKIER } from "../Entities/Skier";
+import { GateManager, layOutSlalomCourse } from "../Entities/Gates/GateManager";
+import { Rhino } from "../Entities/Rhino";
+import { Skier, SKIER_INPUTS } from "../Entities/Skier";
+
+/**
+ * Distance in pixels that text drawn on screen keeps from the edges of the screen.
+ */
+const SCREEN_TEXT_MARGIN: number = 10;
 
 export class Game {
     /**
-     * The canvas the game will be displayed on
+     * The renderer the game will be displayed on. Its size is the size of the viewport onto the game world.
      */
-    private canvas!: Canvas;
+    private renderer: iRenderer;
 
     /**
-     * Coordinates denoting the active rectangular space in the game world
-     * */
-    private gameWindow!: Rect;
+     * Current game time in ms. This is simulation time, so it only advances when a tick runs.
+     */
+    private gameTime: number = 0;
 
     /**
-     * Current game time
+     * The number of simulation ticks that have run. Inputs are recorded against this.
      */
-    private gameTime: number = Date.now();
+    private tick: number = 0;
 
-    private imageManager!: ImageManager;
+    private imageManager: ImageManager;
 
     private obstacleManager!: ObstacleManager;
 
-    private paused: boolean = false;
+    /**
+     * The slalom course being raced down, or null when the game isn't a slalom race
+     */
+    private gateManager: GateManager | null = null;
+
+    /**
+     * The world's random number generator. Seeded so that a run can be reproduced.
+     */
+    private random: Random;
+
+    /**
+     * The difficulty preset being played, and the curve the game gets harder along
+     */
+    private difficulty: DIFFICULTIES;
+    private difficultyPreset: iDifficultyPreset;
+
+    /**
+     * How the skier moves
+     */
+    private physics: PHYSICS_MODES;
+
+    /**
+     * What kind of game is being played
+     */
+    private mode: GAME_MODES;
+
+    /**
+     * The course being played on, or null when the terrain is generated
+     */
+    private course: iCourse | null;
+
+    /**
+     * Skier inputs received since the last tick, waiting to be applied at the start of the next one.
+     */
+    private pendingInputs: iInput[] = [];
+
+    /**
+     * Records every input applied to the simulation so the run can be exported as a replay.
+     */
+    private inputRecorder: InputRecorder;
+
+    /**
+     * When playing back a replay, supplies the inputs for each tick in place of the keyboard.
+     */
+    private replayPlayer: ReplayPlayer | null;
+
+    /**
+     * Gameplay events are announced here, so scoring, audio, UI and the like can react to them
+     */
+    private eventBus: GameEventBus;
+
+    /**
+     * Keeps the player's score
+     */
+    private scoring!: Scoring;
 
     /**
      * The skier player
@@ -43,142 +132,416 @@ export class Game {
     private rhino!: Rhino;
 
     /**
-     * Initialize the game and setup any input handling needed.
+     * Decides what's on screen and which area of the world is active
+     */
+    private camera!: Camera;
+
+    /**
+     * Puts everything drawn each frame in the right order
+     */
+    private renderQueue: RenderQueue = new RenderQueue();
+
+    /**
+     * Initialize the game from a world seed, difficulty, physics and game mode, drawing to the passed in renderer with
+     * images from the image manager. If a replay is passed in, the game plays it back instead of taking skier input
+     * from the keyboard. If a course is passed in, it's played on instead of generated terrain. A slalom race on a
+     * course needs it to have a finish line.
      */
-    constructor() {
+    constructor(
+        renderer: iRenderer,
+        imageManager: ImageManager,
+        seed: number,
+        difficulty: DIFFICULTIES = DIFFICULTIES.NORMAL,
+        physics: PHYSICS_MODES = PHYSICS_MODES.ARCADE,
+        mode: GAME_MODES = GAME_MODES.ENDLESS,
+        replay?: iReplay,
+        course: iCourse | null = null
+    ) {
+        this.renderer = renderer;
+        this.imageManager = imageManager;
+        this.random = new Random(seed);
+        this.difficulty = difficulty;
+        this.difficultyPreset = DIFFICULTY_PRESETS[difficulty];
+        this.physics = physics;
+        this.mode = mode;
+        this.course = course;
+        this.inputRecorder = new InputRecorder(seed, difficulty, physics, mode);
+        this.replayPlayer = replay ? new ReplayPlayer(replay) : null;
+        this.eventBus = new EventBus<iGameEvents>(() => this.gameTime);
+
         this.init();
-        this.setupInputHandling();
     }
 
     /**
      * Create all necessary game objects and initialize them as needed.
      */
     init() {
-        this.canvas = new Canvas(GAME_CANVAS, GAME_WIDTH, GAME_HEIGHT);
-        this.imageManager = new ImageManager();
-        this.obstacleManager = new ObstacleManager(this.imageManager, this.canvas);
+        this.obstacleManager = new ObstacleManager(
+            this.imageManager,
+            this.renderer,
+            this.random.getSeed(),
+            this.difficultyPreset.curve,
+            this.eventBus,
+            this.course
+        );
+
+        if (this.mode === GAME_MODES.SLALOM) {
+            // On generated terrain the course follows the route kept clear down the middle of the mountain, so every
+            // gate can be reached
+            const layout = this.course && this.course.finishLine
+                ? { gates: this.course.gates, finishLine: this.course.finishLine }
+                : layOutSlalomCourse((y: number) => this.obstacleManager.getRouteX(0, y));
+
+            this.gateManager = new GateManager(
+                this.imageManager,
+                this.renderer,
+                this.eventBus,
+                layout.gates,
+                layout.finishLine,
+                this.course ? this.course.metadata.parTime : null
+            );
+        }
 
-        this.skier = new Skier(0, 0, this.imageManager, this.obstacleManager, this.canvas);
-        this.rhino = new Rhino(-500, -2000, this.imageManager, this.canvas);
+        const start: iCoursePoint = this.course ? this.course.start : { x: 0, y: 0 };
+
+        this.skier = new Skier(
+            start.x,
+            start.y,
+            this.imageManager,
+            this.obstacleManager,
+            this.renderer,
+            this.eventBus,
+            this.physics,
+            this.gateManager
+        );
+        this.rhino = new Rhino(
+            start.x,
+            start.y,
+            this.imageManager,
+            this.obstacleManager,
+            this.renderer,
+            this.random,
+            this.eventBus,
+            this.course && this.course.rhino
+                ? { ...this.difficultyPreset.rhino, ...this.course.rhino }
+                : this.difficultyPreset.rhino
+        );
+        this.scoring = new Scoring(this.eventBus, this.skier.getPosition().y);
+        this.camera = new Camera(this.renderer, this.eventBus, this.skier, this.rhino);
+
+        this.applyDifficulty();
+        this.obstacleManager.update(this.camera.getGameWindow());
+    }
 
-        this.calculateGameWindow();
-        this.obstacleManager.placeInitialObstacles();
+    /**
+     * Run a number of simulation ticks back to back without drawing anything or waiting on real time. Used to run the
+     * game headless, e.g. from tests and tools.
+     */
+    simulate(ticks: number) {
+        for (let i = 0; i < ticks; i++) {
+            this.updateGameWindow();
+        }
     }
 
     /**
-     * Setup listeners for any input events we might need.
+     * Return the event bus gameplay events are announced on.
      */
-    setupInputHandling() {
-        document.addEventListener('keydown', this.handleKeyDown.bind(this));
+    getEventBus(): GameEventBus {
+        return this.eventBus;
     }
 
     /**
-     * Load any assets we need for the game to run. Return a promise so that we can wait on something until all assets
-     * are loaded before running the game.
+     * Tear down the game, unsubscribing everything listening to its events.
      */
-    async load(): Promise<void> {
-        await this.imageManager.loadImages(IMAGES);
+    dispose() {
+        this.eventBus.clear();
     }
 
     /**
-     * The main game loop. Clear the screen, update the game objects and then draw them.
+     * Return a snapshot of the whole game world, from which the game can carry on exactly as if it had never stopped.
      */
-    run() {
-        this.canvas.clearCanvas();
+    createSnapshot(): iGameSnapshot {
+        return {
+            version: SNAPSHOT_VERSION,
+            seed: this.random.getSeed(),
+            difficulty: this.difficulty,
+            physics: this.physics,
+            mode: this.mode,
+            randomState: this.random.getState(),
+            tick: this.tick,
+            gameTime: this.gameTime,
+            skier: this.skier.createSnapshot(),
+            rhino: this.rhino.createSnapshot(),
+            chunks: this.obstacleManager.createSnapshot(),
+            removedObstacles: this.obstacleManager.createRemovedSnapshot(),
+            course: this.gateManager ? this.gateManager.createSnapshot() : null,
+            scoring: this.scoring.createSnapshot(),
+        };
+    }
 
-        this.updateGameWindow();
-        this.drawGameWindow();
+    /**
+     * Put the game world back exactly as it was when the snapshot was taken. The game must have been created with the
+     * snapshot's seed, difficulty, physics and game mode. Recording starts over from the snapshot, so a replay of the
+     * rest of the run starts there too.
+     */
+    restoreSnapshot(snapshot: iGameSnapshot) {
+        this.random.setState(snapshot.randomState);
+        this.tick = snapshot.tick;
+        this.gameTime = snapshot.gameTime;
+
+        this.skier.restoreSnapshot(snapshot.skier);
+        this.rhino.restoreSnapshot(snapshot.rhino);
+        this.obstacleManager.restoreSnapshot(snapshot.chunks, snapshot.removedObstacles);
+        if (this.gateManager && snapshot.course) {
+            this.gateManager.restoreSnapshot(snapshot.course);
+        }
+        this.scoring.restoreSnapshot(snapshot.scoring);
+
+        this.pendingInputs = [];
+        this.inputRecorder = new InputRecorder(
+            snapshot.seed,
+            snapshot.difficulty,
+            snapshot.physics,
+            snapshot.mode,
+            snapshot
+        );
+
+        this.applyDifficulty();
+        this.camera.reset(this.gameTime);
+    }
 
-        requestAnimationFrame(this.run.bind(this));
+    /**
+     * Return the seed the world was generated from.
+     */
+    getSeed(): number {
+        return this.random.getSeed();
     }
 
     /**
-     * Pause the game by setting the speed to 0.
-     * Resume the game by setting the speed back to what it was initially.
+     * Return the difficulty preset being played.
      */
-    togglePause() {
-        this.paused = !this.paused;
+    getDifficulty(): DIFFICULTIES {
+        return this.difficulty;
+    }
 
-        if (!this.paused) {
-            this.skier.speed = STARTING_SPEED_SKIER;
-            this.rhino.speed = STARTING_SPEED_RHINO;
+    /**
+     * Return the physics the skier is played with.
+     */
+    getPhysics(): PHYSICS_MODES {
+        return this.physics;
+    }
 
-            return;
-        }
+    /**
+     * Return what kind of game is being played.
+     */
+    getMode(): GAME_MODES {
+        return this.mode;
+    }
 
-        this.skier.speed = 0;
-        this.rhino.speed = 0;
+    /**
+     * Return the course being played on, or null when the terrain is generated.
+     */
+    getCourse(): iCourse | null {
+        return this.course;
     }
 
     /**
-     * Do any updates needed to the game objects
+     * Is there a rhino chasing the skier. There's none on a slalom course, only the clock, unless it's a course from
+     * the course editor that says when it turns up.
+     */
+    hasRhino(): boolean {
+        return this.course ? this.course.rhino !== null : this.mode !== GAME_MODES.SLALOM;
+    }
+
+    /**
+     * Is the game playing back a replay rather than being played.
+     */
+    isReplay(): boolean {
+        return this.replayPlayer !== null;
+    }
+
+    /**
+     * Return the player's current score.
+     */
+    getScore(): iScore {
+        return this.scoring.getScore();
+    }
+
+    /**
+     * Return how the slalom race is going, or null when the game isn't a slalom race.
+     */
+    getRaceResult(): iRaceResult | null {
+        return this.gateManager ? this.gateManager.getRaceResult(this.gameTime) : null;
+    }
+
+    /**
+     * The game is over once the skier has been killed, or has crossed the finish line of a slalom race.
+     */
+    isGameOver(): boolean {
+        return this.skier.isDead() || (this.gateManager !== null && this.gateManager.isFinished());
+    }
+
+    /**
+     * Return a recording of the run so far.
+     */
+    getReplay(): iReplay {
+        return this.inputRecorder.getReplay();
+    }
+
+    /**
+     * Run a single simulation tick, applying the tick's inputs and then doing any updates needed to the game objects.
      */
     updateGameWindow() {
-        this.gameTime = Date.now();
+        this.tick++;
+        this.applyDifficulty();
+        this.applyInputs();
+
+        this.gameTime += TICK_DURATION_MS;
+        const deltaTime: number = TICK_DURATION_MS / 1000;
 
-        const previousGameWindow: Rect = this.gameWindow;
-        this.calculateGameWindow();
+        this.skier.storePreviousPosition();
+        this.rhino.storePreviousPosition();
 
-        this.obstacleManager.placeNewObstacle(this.gameWindow, previousGameWindow);
+        this.skier.update(this.gameTime, deltaTime);
 
-        this.skier.update(this.gameTime);
-        this.rhino.update(this.gameTime, this.skier);
+        if (this.hasRhino()) {
+            this.rhino.update(this.gameTime, deltaTime, this.skier, this.camera.getGameWindow());
+        }
+
+        // The window is worked out from where the skier ends the tick, so a restored snapshot works out the same one
+        this.camera.update(this.gameTime, deltaTime);
+
+        this.obstacleManager.update(this.camera.getGameWindow());
+
+        this.scoring.update(this.gameTime, this.skier.getPosition());
     }
 
     /**
-     * Draw all entities to the screen, in the correct order. Also setup the canvas draw offset so that we see the
-     * rectangular space denoted by the game window.
+     * Make the game as hard as the difficulty curve says it should be at how far down the mountain the skier has got.
      */
-    drawGameWindow() {
-        this.canvas.setDrawOffset(this.gameWindow.left, this.gameWindow.top);
+    applyDifficulty() {
+        const distance: number = this.scoring.getScore().distance;
+        const level: iDifficultyLevel = getDifficultyLevel(this.difficultyPreset.curve, distance);
 
-        this.skier.draw();
-        this.rhino.draw();
-        this.obstacleManager.drawObstacles();
+        this.skier.setTopSpeed(level.skierSpeed);
+        this.rhino.setSpeed(level.rhinoSpeed);
+    }
+
+    /**
+     * Apply this tick's inputs to the skier, taking them from the replay when playing one back or from the keyboard
+     * otherwise, and record them.
+     */
+    applyInputs() {
+        const inputs: iInput[] = this.replayPlayer
+            ? this.replayPlayer.getInputs(this.tick)
+            : this.pendingInputs.splice(0);
+
+        inputs.forEach((input: iInput) => {
+            this.skier.handleInput(input.code, input.pressed);
+            this.inputRecorder.record(this.tick, input);
+        });
     }
 
     /**
-     * Calculate the game window (the rectangular space drawn to the screen). It's centered around the player and must
-     * be updated since the player moves position.
+     * Draw the game as the camera sees it, with the HUD and, if asked for, the seed over the top. Alpha is how far
+     * between the previous and current tick this frame is being drawn.
      */
-    calculateGameWindow() {
-        const skierPosition: Position = this.skier.getPosition();
-        const left: number = skierPosition.x - (GAME_WIDTH / 2);
-        const top: number = skierPosition.y - (GAME_HEIGHT / 2);
+    draw(alpha: number, showSeed: boolean) {
+        this.drawGameWindow(alpha);
 
-        this.gameWindow = new Rect(left, top, left + GAME_WIDTH, top + GAME_HEIGHT);
+        this.renderQueue.add(RENDER_LAYERS.HUD, 0, () => this.drawHud());
+        if (showSeed) {
+            this.renderQueue.add(RENDER_LAYERS.HUD, 0, () => this.drawSeed());
+        }
+
+        this.renderQueue.flush();
     }
 
     /**
-     * Handle keypresses and delegate to any game objects that might have key handling of their own.
+     * Queue all entities that can be seen to be drawn, as the camera sees them. The render queue sorts out the order.
      */
-    handleKeyDown(event: KeyboardEvent) {
-        // Make sure to not allow any keyboard interaction with the skier while the game is paused
-        const handledSkier: boolean = !this.paused
-            ? this.skier.handleInput(event.code)
-            : false;
+    drawGameWindow(alpha: number) {
+        const drawWindow: Rect = this.camera.applyView(alpha);
+
+        if (this.gateManager) {
+            this.gateManager.draw(this.renderQueue, drawWindow);
+        }
+
+        this.renderQueue.addEntity(this.skier, alpha);
+        if (this.hasRhino()) {
+            this.renderQueue.addEntity(this.rhino, alpha);
+        }
+        this.obstacleManager.drawObstacles(this.renderQueue, drawWindow);
+    }
+
+    /**
+     * Draw the HUD over the game. A slalom race shows the clock and gates in place of the score.
+     */
+    drawHud() {
+        if (this.gateManager) {
+            drawRaceHud(this.renderer, this.gateManager.getRaceResult(this.gameTime), this.skier.speed);
+            return;
+        }
+
+        drawHud(this.renderer, this.scoring.getScore(), this.skier.speed, this.gameTime);
+    }
+
+    /**
+     * Show the world seed, difficulty, physics and game mode in the corner of the screen so a run can be shared and
+     * reproduced, along with the name of any course from the course editor. Also call out when the run on screen is a
+     * replay.
+     */
+    drawSeed() {
+        const modeText: string = this.mode === GAME_MODES.SLALOM ? ', slalom' : '';
+        const courseText: string = this.course ? ` on ${this.course.metadata.name}` : '';
+        const replayText: string = this.replayPlayer ? ' (replay)' : '';
+
+        this.renderer.drawText(
+            `Seed: ${this.random.getSeed()} on ${this.difficultyPreset.label}, ${this.physics} physics`
+                + `${modeText}${courseText}${replayText}`,
+            SCREEN_TEXT_MARGIN,
+            this.renderer.height - SCREEN_TEXT_MARGIN
+        );
+    }
 
-        const handledGame: boolean = this.handleInput(event.code);
+    /**
+     * Handle keypresses from the browser, stopping the browser from also acting on any the game uses.
+     */
+    handleKeyDown(event: KeyboardEvent) {
+        if (this.receiveInput(event.code)) {
+            event.preventDefault();
+        }
+    }
 
-        if (handledSkier || handledGame) {
+    /**
+     * Handle keys being released in the browser, stopping the browser from also acting on any the game uses.
+     */
+    handleKeyUp(event: KeyboardEvent) {
+        if (this.receiveInput(event.code, false)) {
             event.preventDefault();
         }
     }
 
     /**
-     * Handle keyboard input. If the skier is dead, don't handle any input.
+     * Take an input, either a key being pressed or released, and delegate to any game objects that might have input
+     * handling of their own. Skier input is queued and applied at the start of the next tick, so it lands on a tick
+     * boundary that can be replayed exactly. Return whether the input was used.
      */
-    handleInput(inputCode: string) {
-        let handled: boolean = true;
-     
-        switch(inputCode) {
-            case KEYS.TOGGLE_PAUSE:
-                this.togglePause();
-                break;
-            default:
-                handled = false;
+    receiveInput(inputCode: string, pressed: boolean = true): boolean {
+        // Make sure to not allow any keyboard interaction with the skier while a replay is playing
+        const handledSkier: boolean = !this.replayPlayer && SKIER_INPUTS.indexOf(inputCode) !== -1;
+        if (handledSkier) {
+            this.pendingInputs.push({ code: inputCode, pressed });
         }
-    
-        return handled;
+
+        return handledSkier;
+    }
+
+    /**
+     * Let go of every skier input, for when the browser can't be trusted to say when keys are released, such as after
+     * the window loses focus. The releases are queued like any other input.
+     */
+    releaseInputs() {
+        SKIER_INPUTS.forEach((inputCode: string) => this.receiveInput(inputCode, false));
     }
 }
\ No newline at end of file
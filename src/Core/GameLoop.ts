@@ -0,0 +1,86 @@
+/**
+ * Drives the game from requestAnimationFrame. Every rendered frame, runs as many fixed simulation ticks of
+ * TICK_DURATION_MS as the real time since the last frame allows, then draws once, passing along how far between the
+ * last two ticks the frame falls so drawing can interpolate. Only one frame request is ever outstanding, and stop()
+ * cancels it, so starting and stopping the loop never leaves stray loops running.
+ */
+
+import { MAX_FRAME_TIME_MS, TICK_DURATION_MS } from "../Constants";
+
+export class GameLoop {
+    /**
+     * Called once per simulation tick
+     */
+    private readonly update: () => void;
+
+    /**
+     * Called once per rendered frame with how far between the previous and current tick the frame is
+     */
+    private readonly draw: (alpha: number) => void;
+
+    /**
+     * Real time that has elapsed but hasn't been consumed by simulation ticks yet.
+     */
+    private tickAccumulator: number = 0;
+
+    /**
+     * Timestamp of the previously rendered frame, null until the first frame after starting is rendered.
+     */
+    private lastFrameTime: number | null = null;
+
+    /**
+     * The id of the outstanding animation frame request, null when the loop isn't running.
+     */
+    private frameRequest: number | null = null;
+
+    constructor(update: () => void, draw: (alpha: number) => void) {
+        this.update = update;
+        this.draw = draw;
+    }
+
+    /**
+     * Start the loop running, if it isn't already.
+     */
+    start() {
+        if (this.frameRequest !== null) {
+            return;
+        }
+
+        this.lastFrameTime = null;
+        this.tickAccumulator = 0;
+        this.frameRequest = requestAnimationFrame(this.runFrame.bind(this));
+    }
+
+    /**
+     * Stop the loop, cancelling the outstanding frame request.
+     */
+    stop() {
+        if (this.frameRequest === null) {
+            return;
+        }
+
+        cancelAnimationFrame(this.frameRequest);
+        this.frameRequest = null;
+    }
+
+    /**
+     * Run the ticks that are due, draw the frame and request the next one.
+     */
+    runFrame(frameTime: number) {
+        if (this.lastFrameTime === null) {
+            this.lastFrameTime = frameTime;
+        }
+
+        this.tickAccumulator += Math.min(frameTime - this.lastFrameTime, MAX_FRAME_TIME_MS);
+        this.lastFrameTime = frameTime;
+
+        while (this.tickAccumulator >= TICK_DURATION_MS) {
+            this.update();
+            this.tickAccumulator -= TICK_DURATION_MS;
+        }
+
+        this.draw(this.tickAccumulator / TICK_DURATION_MS);
+
+        this.frameRequest = requestAnimationFrame(this.runFrame.bind(this));
+    }
+}
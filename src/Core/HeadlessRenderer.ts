@@ -0,0 +1,45 @@
+/**
+ * A renderer that draws nothing. Lets the game run without a browser, e.g. in Node or a Jest test, to simulate runs as
+ * fast as possible.
+ */
+
+import { iSprite } from "../Interfaces/iImage";
+import { iRenderer, iTextStyle } from "../Interfaces/iRenderer";
+
+export class HeadlessRenderer implements iRenderer {
+    width: number;
+
+    height: number;
+
+    /**
+     * Create a renderer for a viewport of a specific size
+     */
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+    }
+
+    clearCanvas() {
+
+    }
+
+    setDrawOffset(x: number, y: number) {
+
+    }
+
+    setDrawScale(scale: number) {
+
+    }
+
+    drawImage(sprite: iSprite, x: number, y: number, width: number, height: number) {
+
+    }
+
+    drawText(text: string, x: number, y: number, style?: iTextStyle) {
+
+    }
+
+    drawRect(x: number, y: number, width: number, height: number, color: string) {
+
+    }
+}
@@ -0,0 +1,131 @@
+import { IMAGE_NAMES } from "../Constants";
+import { ImageManager } from "./ImageManager";
+import { iAtlas, iImage } from "../Interfaces/iImage";
+
+const IMAGES: iImage[] = [
+    { name: IMAGE_NAMES.TREE, url: 'img/tree_1.png', width: 43, height: 53 },
+    { name: IMAGE_NAMES.ROCK1, url: 'img/rock_1.png', width: 40, height: 28 },
+];
+
+const ATLAS: iAtlas = {
+    image: 'atlas.png',
+    frames: {
+        [IMAGE_NAMES.TREE]: { x: 10, y: 20, width: 43, height: 53 },
+    },
+};
+
+/**
+ * The image files that can be loaded, by URL, with their width and height
+ */
+let imageFiles: Record<string, number[]>;
+
+/**
+ * Stands in for the browser's image loading: files in the list load at their size, anything else fails.
+ */
+class FakeImage {
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    naturalWidth: number = 0;
+    naturalHeight: number = 0;
+
+    set src(url: string) {
+        const size: number[] | undefined = imageFiles[url.replace('http://localhost/', '')];
+
+        setTimeout(() => {
+            if (size) {
+                this.naturalWidth = size[0];
+                this.naturalHeight = size[1];
+            }
+
+            const handler = size ? this.onload : this.onerror;
+            if (handler) {
+                handler();
+            }
+        });
+    }
+}
+
+/**
+ * Have the atlas's frame map be served with the passed in status and body.
+ */
+function serveAtlas(status: number, body: unknown) {
+    (window as any).fetch = jest.fn(() => Promise.resolve({
+        ok: status === 200,
+        status,
+        json: () => Promise.resolve(body),
+    }));
+}
+
+describe('ImageManager', () => {
+    const originalImage = window.Image;
+
+    beforeEach(() => {
+        imageFiles = {};
+        (window as any).Image = FakeImage;
+        jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    });
+
+    afterEach(() => {
+        window.Image = originalImage;
+        delete (window as any).fetch;
+        jest.restoreAllMocks();
+    });
+
+    test('cuts images from the atlas and loads the ones it lacks on their own', async () => {
+        serveAtlas(200, ATLAS);
+        imageFiles = { 'img/atlas.png': [256, 256], 'img/rock_1.png': [40, 28] };
+        const imageManager: ImageManager = new ImageManager(IMAGES);
+        const onProgress = jest.fn();
+
+        const errors: Error[] = await imageManager.loadImages(IMAGES, 'img/atlas.json', onProgress);
+
+        expect(errors).toEqual([]);
+        expect(imageManager.getImage(IMAGE_NAMES.TREE)).toMatchObject({
+            sourceX: 10,
+            sourceY: 20,
+            sourceWidth: 43,
+            sourceHeight: 53,
+            width: 21.5,
+            height: 26.5,
+        });
+        expect(imageManager.getImage(IMAGE_NAMES.ROCK1)).toMatchObject({ sourceX: 0, sourceWidth: 40 });
+        expect(onProgress).toHaveBeenLastCalledWith(1);
+    });
+
+    test('falls back to loading each image on its own when the atlas is missing', async () => {
+        serveAtlas(404, null);
+        imageFiles = { 'img/tree_1.png': [43, 53], 'img/rock_1.png': [40, 28] };
+        const imageManager: ImageManager = new ImageManager(IMAGES);
+
+        const errors: Error[] = await imageManager.loadImages(IMAGES, 'img/atlas.json');
+
+        expect(errors.map((error: Error) => error.message)).toEqual([
+            'Could not load image atlas img/atlas.json: responded with 404',
+        ]);
+        expect(imageManager.getImage(IMAGE_NAMES.TREE)).toMatchObject({ sourceX: 0, sourceWidth: 43 });
+    });
+
+    test('rejects an atlas frame without a size', async () => {
+        serveAtlas(200, { image: 'atlas.png', frames: { [IMAGE_NAMES.TREE]: { x: 0, y: 0 } } });
+        imageFiles = { 'img/atlas.png': [256, 256], 'img/tree_1.png': [43, 53], 'img/rock_1.png': [40, 28] };
+        const imageManager: ImageManager = new ImageManager(IMAGES);
+
+        const errors: Error[] = await imageManager.loadImages(IMAGES, 'img/atlas.json');
+
+        expect(errors.map((error: Error) => error.message)).toEqual([
+            'Image atlas img/atlas.json frame tree must have a non-negative x, y, width and height',
+        ]);
+    });
+
+    test('draws a placeholder the size of an image that fails to load, and names it', async () => {
+        imageFiles = { 'img/rock_1.png': [40, 28] };
+        const imageManager: ImageManager = new ImageManager(IMAGES);
+
+        const errors: Error[] = await imageManager.loadImages(IMAGES);
+
+        expect(errors.map((error: Error) => error.message)).toEqual([
+            'Could not load image tree from img/tree_1.png',
+        ]);
+        expect(imageManager.getImage(IMAGE_NAMES.TREE)).toMatchObject({ width: 21.5, height: 26.5 });
+    });
+});
@@ -1,9 +1,15 @@
 /**
- * Handles loading of any images needed for the game.
+ * Handles loading of any images needed for the game. Image sizes come from the image manifest rather than the loaded
+ * images, so the game can be simulated without ever loading them.
+ *
+ * Images are packed into an atlas, one image with a JSON frame map saying where each is in it, so they load in a
+ * single request. Any images the atlas doesn't have, or all of them if it can't be loaded, are loaded on their own.
+ * Loading never hangs or stops the game: every request is cancelled after a while, and an image that can't be loaded
+ * is drawn as a placeholder instead, with an error naming it returned so it can be reported.
  */
 
 import { IMAGE_NAMES } from "../Constants";
-import { iImage } from "../Interfaces/iImage";
+import { iAtlas, iAtlasFrame, iImage, iImageSize, iSprite } from "../Interfaces/iImage";
 
 /**
  * Scale all images loaded by this amount
@@ -11,44 +17,249 @@ import { iImage } from "../Interfaces/iImage";
  * */
 const SCALE: number = 0.5;
 
+/**
+ * How long to wait for any one file to load before giving up on it, in ms
+ */
+const LOAD_TIMEOUT_MS: number = 10000;
+
+/**
+ * Colour of the placeholder drawn for images that couldn't be loaded, picked to stand out
+ */
+const PLACEHOLDER_COLOR: string = '#ff00ff';
+const PLACEHOLDER_OUTLINE_COLOR: string = '#000000';
+
 export class ImageManager {
-    loadedImages: {[key in IMAGE_NAMES]?: HTMLImageElement} = {};
+    /**
+     * The sprite each loaded image is drawn from
+     */
+    sprites: {[key in IMAGE_NAMES]?: iSprite} = {};
 
     /**
-     * Load each of the passed in images and return a promise that resolves when all images are finished loading
+     * The scaled size of every image in the manifest
      */
-    async loadImages(images: iImage[]): Promise<void> {
-        const imagePromises: Promise<void>[] = [];
+    imageSizes: {[key in IMAGE_NAMES]?: iImageSize} = {};
 
-        for (const image of images) {
-            const imagePromise: Promise<void> = this.loadSingleImage(image);
-            imagePromises.push(imagePromise);
+    /**
+     * Init the ImageManager from the manifest of images the game uses.
+     */
+    constructor(images: iImage[]) {
+        images.forEach((image: iImage) => {
+            this.imageSizes[image.name] = {
+                width: image.width * SCALE,
+                height: image.height * SCALE,
+            };
+        });
+    }
+
+    /**
+     * Load each of the passed in images, from the atlas first if one is passed in, and return a promise that resolves
+     * when they've all either loaded or failed. Each image that failed is given a placeholder, and the promise resolves
+     * with an error for each thing that couldn't be loaded. Progress is called with the fraction of the images done so
+     * far as they finish.
+     */
+    async loadImages(
+        images: iImage[],
+        atlasUrl: string | null = null,
+        onProgress?: (progress: number) => void
+    ): Promise<Error[]> {
+        const errors: Error[] = [];
+        let finished: number = 0;
+        const reportFinished = (count: number) => {
+            finished += count;
+            if (onProgress) {
+                onProgress(images.length ? finished / images.length : 1);
+            }
+        };
+
+        let remaining: iImage[] = images;
+        if (atlasUrl) {
+            try {
+                const packed: IMAGE_NAMES[] = await this.loadAtlas(atlasUrl, images);
+                remaining = images.filter((image: iImage) => packed.indexOf(image.name) === -1);
+                reportFinished(packed.length);
+            } catch (error) {
+                errors.push(error as Error);
+            }
         }
 
-        await Promise.all(imagePromises);
+        await Promise.all(remaining.map(async (image: iImage) => {
+            try {
+                await this.loadSingleImage(image);
+            } catch (error) {
+                errors.push(error as Error);
+                this.sprites[image.name] = this.createPlaceholder(image.name);
+            }
+
+            reportFinished(1);
+        }));
+
+        return errors;
     }
 
     /**
-     * Load a single image and return a promise that resolves when the image is finished loading.
+     * Load an atlas's frame map and packed image, and cut a sprite from it for each of the passed in images it has a
+     * frame for. Return a promise that resolves with the names of those images, or rejects if the atlas couldn't be
+     * loaded or isn't valid.
      */
-    loadSingleImage(image: iImage): Promise<void> {
-        return new Promise((resolve) => {
-            const loadedImage = new Image();
-            loadedImage.onload = () => {
-                loadedImage.width *= SCALE;
-                loadedImage.height *= SCALE;
+    async loadAtlas(url: string, images: iImage[]): Promise<IMAGE_NAMES[]> {
+        const atlas: iAtlas = parseAtlas(await fetchJson(url, `image atlas ${url}`), url);
+        const imageUrl: string = new URL(atlas.image, new URL(url, window.location.href)).href;
+        const atlasImage: HTMLImageElement = await loadImageElement(imageUrl, `image atlas ${url}`);
+
+        return images.filter((image: iImage) => !!atlas.frames[image.name]).map((image: iImage): IMAGE_NAMES => {
+            const frame = atlas.frames[image.name] as iAtlasFrame;
 
-                this.loadedImages[image.name] = loadedImage;
-                resolve();
+            this.sprites[image.name] = {
+                source: atlasImage,
+                sourceX: frame.x,
+                sourceY: frame.y,
+                sourceWidth: frame.width,
+                sourceHeight: frame.height,
+                width: frame.width * SCALE,
+                height: frame.height * SCALE,
             };
-            loadedImage.src = image.url;
+
+            return image.name;
         });
     }
 
     /**
-     * Get a single Image by name
+     * Load a single image and return a promise that resolves when the image is finished loading, or rejects if it
+     * can't be.
+     */
+    async loadSingleImage(image: iImage): Promise<void> {
+        const loadedImage: HTMLImageElement = await loadImageElement(image.url, `image ${image.name}`);
+
+        this.sprites[image.name] = {
+            source: loadedImage,
+            sourceX: 0,
+            sourceY: 0,
+            sourceWidth: loadedImage.naturalWidth,
+            sourceHeight: loadedImage.naturalHeight,
+            width: loadedImage.naturalWidth * SCALE,
+            height: loadedImage.naturalHeight * SCALE,
+        };
+    }
+
+    /**
+     * Create a sprite to stand in for an image that couldn't be loaded: a brightly coloured box the size the image
+     * would have been.
+     */
+    createPlaceholder(name: IMAGE_NAMES): iSprite {
+        const size: iImageSize = this.imageSizes[name] || { width: 0, height: 0 };
+
+        const canvas: HTMLCanvasElement = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(size.width));
+        canvas.height = Math.max(1, Math.round(size.height));
+
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+            ctx.fillStyle = PLACEHOLDER_COLOR;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.strokeStyle = PLACEHOLDER_OUTLINE_COLOR;
+            ctx.strokeRect(0, 0, canvas.width, canvas.height);
+        }
+
+        return {
+            source: canvas,
+            sourceX: 0,
+            sourceY: 0,
+            sourceWidth: canvas.width,
+            sourceHeight: canvas.height,
+            width: size.width,
+            height: size.height,
+        };
+    }
+
+    /**
+     * Get the sprite for a single image by name
+     */
+    getImage(name: IMAGE_NAMES): iSprite | undefined {
+        return this.sprites[name];
+    }
+
+    /**
+     * Get the size a single image is drawn at by name, whether or not it has been loaded
      */
-    getImage(name: IMAGE_NAMES): HTMLImageElement | undefined {
-        return this.loadedImages[name];
+    getImageSize(name: IMAGE_NAMES): iImageSize | undefined {
+        return this.imageSizes[name];
+    }
+}
+
+/**
+ * Fetch and parse a JSON file, rejecting with an error naming what was being loaded if it fails or takes too long. A
+ * request that takes too long is cancelled, so it doesn't carry on in the background.
+ */
+async function fetchJson(url: string, description: string): Promise<unknown> {
+    const controller: AbortController = new AbortController();
+    const timeout: number = window.setTimeout(() => controller.abort(), LOAD_TIMEOUT_MS);
+
+    try {
+        const response: Response = await fetch(url, { signal: controller.signal });
+        if (!response.ok) {
+            throw new Error(`Could not load ${description}: responded with ${response.status}`);
+        }
+
+        return await response.json();
+    } catch (error) {
+        if (controller.signal.aborted) {
+            throw new Error(`Timed out loading ${description} after ${LOAD_TIMEOUT_MS}ms`);
+        }
+
+        throw error;
+    } finally {
+        window.clearTimeout(timeout);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Load an image file, rejecting with an error naming what was being loaded if it fails or takes too long. A request
+ * that takes too long is cancelled, so it doesn't carry on in the background.
+ */
+function loadImageElement(url: string, description: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const loadedImage = new Image();
+        const timeout: number = window.setTimeout(() => {
+            loadedImage.onload = null;
+            loadedImage.onerror = null;
+            loadedImage.src = '';
+            reject(new Error(`Timed out loading ${description} from ${url} after ${LOAD_TIMEOUT_MS}ms`));
+        }, LOAD_TIMEOUT_MS);
+
+        loadedImage.onload = () => {
+            window.clearTimeout(timeout);
+            resolve(loadedImage);
+        };
+        loadedImage.onerror = () => {
+            window.clearTimeout(timeout);
+            reject(new Error(`Could not load ${description} from ${url}`));
+        };
+        loadedImage.src = url;
+    });
+}
+
+/**
+ * Check an atlas's frame map has everything needed to cut sprites from it.
+ */
+function parseAtlas(data: any, url: string): iAtlas {
+    if (!data || typeof data !== 'object' || typeof data.image !== 'string') {
+        throw new Error(`Image atlas ${url} must be a JSON object with an image`);
+    }
+
+    if (!data.frames || typeof data.frames !== 'object') {
+        throw new Error(`Image atlas ${url} must have an object of frames`);
+    }
+
+    Object.keys(data.frames).forEach((name: string) => {
+        const frame = data.frames[name];
+        const isValid: boolean = !!frame && ['x', 'y', 'width', 'height'].every((field: string) => {
+            return typeof frame[field] === 'number' && frame[field] >= 0;
+        });
+
+        if (!isValid) {
+            throw new Error(`Image atlas ${url} frame ${name} must have a non-negative x, y, width and height`);
+        }
+    });
+
+    return data as iAtlas;
+}
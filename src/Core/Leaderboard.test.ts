@@ -0,0 +1,48 @@
+import { DIFFICULTIES, PHYSICS_MODES } from "../Constants";
+import { loadLocalScores, saveLocalScore } from "./Leaderboard";
+import { iLeaderboardEntry } from "../Interfaces/iLeaderboard";
+
+/**
+ * Return a score on the normal, arcade board, with any fields passed in changed.
+ */
+function createEntry(fields: Partial<iLeaderboardEntry>): iLeaderboardEntry {
+    return {
+        name: 'Skier',
+        points: 100,
+        distance: 50,
+        seed: 1234,
+        difficulty: DIFFICULTIES.NORMAL,
+        physics: PHYSICS_MODES.ARCADE,
+        date: '2026-01-01T00:00:00.000Z',
+        ...fields,
+    };
+}
+
+describe('local leaderboard', () => {
+    beforeEach(() => {
+        window.localStorage.clear();
+    });
+
+    test('ranks scores best first', () => {
+        expect(saveLocalScore(createEntry({ points: 100 }))).toBe(1);
+        expect(saveLocalScore(createEntry({ points: 300 }))).toBe(1);
+        expect(saveLocalScore(createEntry({ points: 200 }))).toBe(2);
+
+        expect(loadLocalScores().map((entry: iLeaderboardEntry) => entry.points)).toEqual([300, 200, 100]);
+    });
+
+    test('only ranks scores against those with the same difficulty and physics', () => {
+        saveLocalScore(createEntry({ points: 1000, difficulty: DIFFICULTIES.EASY }));
+        saveLocalScore(createEntry({ points: 1000, physics: PHYSICS_MODES.MOMENTUM }));
+
+        expect(saveLocalScore(createEntry({ points: 100 }))).toBe(1);
+        expect(loadLocalScores()).toHaveLength(3);
+    });
+
+    test('leaves out saved scores that don\'t say which board they\'re on', () => {
+        const { difficulty, ...withoutDifficulty } = createEntry({});
+        window.localStorage.setItem('skiFree.leaderboard', JSON.stringify([withoutDifficulty, createEntry({})]));
+
+        expect(loadLocalScores()).toEqual([createEntry({})]);
+    });
+});
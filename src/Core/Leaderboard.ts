@@ -0,0 +1,138 @@
+/**
+ * The leaderboard. Scores are always kept in localStorage, so there's a board even when playing offline, and are also
+ * sent to the server's /api/scores endpoints to rank them against everyone else's. There's a separate board for each
+ * difficulty and physics mode, so scores are only ranked against runs played the same way.
+ */
+
+import { isDifficulty } from "./Difficulty";
+import { isPhysicsMode } from "../Entities/Skier";
+import { iLeaderboardEntry, iOnlineRanks } from "../Interfaces/iLeaderboard";
+
+/**
+ * Longest name that can be put on the leaderboard. The server enforces the same limit.
+ */
+export const MAX_NAME_LENGTH: number = 12;
+
+/**
+ * Where the server's leaderboard lives
+ */
+const SCORES_API_URL: string = '/api/scores';
+
+/**
+ * The localStorage keys the local leaderboard, and the name last entered for it, are saved under
+ */
+const LEADERBOARD_STORAGE_KEY: string = 'skiFree.leaderboard';
+const PLAYER_NAME_STORAGE_KEY: string = 'skiFree.playerName';
+
+/**
+ * How many scores the local leaderboard keeps for each difficulty and physics mode. Anything lower drops off the
+ * bottom.
+ */
+const LOCAL_LEADERBOARD_SIZE: number = 50;
+
+/**
+ * Order scores from best to worst. Ties go to whoever got there first.
+ */
+function compareEntries(entry1: iLeaderboardEntry, entry2: iLeaderboardEntry): number {
+    return entry2.points - entry1.points || entry1.date.localeCompare(entry2.date);
+}
+
+/**
+ * Were the two scores set with the same difficulty and physics, so they're on the same board.
+ */
+function isSameBoard(entry1: iLeaderboardEntry, entry2: iLeaderboardEntry): boolean {
+    return entry1.difficulty === entry2.difficulty && entry1.physics === entry2.physics;
+}
+
+/**
+ * Load the scores kept in this browser, best first. Scores that don't say which board they're on are left out.
+ */
+export function loadLocalScores(): iLeaderboardEntry[] {
+    let entries: iLeaderboardEntry[] = [];
+
+    try {
+        const saved: unknown = JSON.parse(window.localStorage.getItem(LEADERBOARD_STORAGE_KEY) || '[]');
+        if (Array.isArray(saved)) {
+            entries = saved.filter((entry: iLeaderboardEntry) => {
+                return entry && isDifficulty(entry.difficulty) && isPhysicsMode(entry.physics);
+            });
+        }
+    } catch (error) {
+        // Corrupt or inaccessible storage just means an empty leaderboard
+    }
+
+    return entries;
+}
+
+/**
+ * Add a score to the leaderboard kept in this browser and return its rank on its board there, 1 being the best.
+ */
+export function saveLocalScore(entry: iLeaderboardEntry): number {
+    const entries: iLeaderboardEntry[] = loadLocalScores();
+    const board: iLeaderboardEntry[] = entries.filter((other: iLeaderboardEntry) => isSameBoard(other, entry));
+    const rank: number = board.filter((other: iLeaderboardEntry) => other.points > entry.points).length + 1;
+
+    board.push(entry);
+    board.sort(compareEntries);
+    const otherBoards: iLeaderboardEntry[] = entries.filter((other: iLeaderboardEntry) => !isSameBoard(other, entry));
+
+    try {
+        window.localStorage.setItem(
+            LEADERBOARD_STORAGE_KEY,
+            JSON.stringify(otherBoards.concat(board.slice(0, LOCAL_LEADERBOARD_SIZE)).sort(compareEntries))
+        );
+    } catch (error) {
+        // Storage can be full or disabled, in which case the score is only on the online leaderboard
+    }
+
+    return rank;
+}
+
+/**
+ * Send a score to the server's leaderboard, returning a promise that resolves with where it ranked. Rejects if the
+ * server can't be reached or turns the score down.
+ */
+export async function submitScore(entry: iLeaderboardEntry): Promise<iOnlineRanks> {
+    const response: Response = await fetch(SCORES_API_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            name: entry.name,
+            points: entry.points,
+            distance: entry.distance,
+            seed: entry.seed,
+            difficulty: entry.difficulty,
+            physics: entry.physics,
+        }),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Leaderboard responded with ${response.status}`);
+    }
+
+    const result = await response.json();
+
+    return { rank: result.rank, seedRank: result.seedRank };
+}
+
+/**
+ * Load the name last put on the leaderboard, so the player doesn't have to type it every time.
+ */
+export function loadPlayerName(): string {
+    try {
+        return window.localStorage.getItem(PLAYER_NAME_STORAGE_KEY) || '';
+    } catch (error) {
+        return '';
+    }
+}
+
+/**
+ * Remember the name put on the leaderboard for next time.
+ */
+export function savePlayerName(name: string) {
+    try {
+        window.localStorage.setItem(PLAYER_NAME_STORAGE_KEY, name);
+    } catch (error) {
+        // Storage can be full or disabled, in which case the name will need typing again
+    }
+}
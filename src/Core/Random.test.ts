@@ -0,0 +1,69 @@
+import { deriveSeed, parseSeed, Random } from "./Random";
+
+/**
+ * Draw the passed in number of values from a generator.
+ */
+function draw(random: Random, count: number): number[] {
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+        values.push(random.next());
+    }
+
+    return values;
+}
+
+describe('Random', () => {
+    test('produces the same sequence for the same seed', () => {
+        expect(draw(new Random(1234), 100)).toEqual(draw(new Random(1234), 100));
+    });
+
+    test('produces a different sequence for a different seed', () => {
+        expect(draw(new Random(1234), 100)).not.toEqual(draw(new Random(1235), 100));
+    });
+
+    test('carries on the same sequence from a saved state', () => {
+        const random: Random = new Random(1234);
+        draw(random, 50);
+
+        const restored: Random = new Random(1);
+        restored.setState(random.getState());
+
+        expect(draw(restored, 50)).toEqual(draw(random, 50));
+    });
+
+    test('keeps numbers between 0 and 1, and integers within their bounds', () => {
+        const random: Random = new Random(1234);
+
+        draw(random, 1000).forEach((value: number) => {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        });
+
+        for (let i = 0; i < 1000; i++) {
+            const value: number = random.randomInt(-3, 3);
+            expect(Number.isInteger(value)).toBe(true);
+            expect(value).toBeGreaterThanOrEqual(-3);
+            expect(value).toBeLessThanOrEqual(3);
+        }
+    });
+});
+
+describe('parseSeed', () => {
+    test('uses whole numbers as they are', () => {
+        expect(parseSeed('1234')).toBe(1234);
+    });
+
+    test('hashes anything else to the same seed every time', () => {
+        expect(parseSeed('powder day')).toBe(parseSeed('powder day'));
+        expect(parseSeed('powder day')).not.toBe(parseSeed('powder days'));
+        expect(Number.isInteger(parseSeed('powder day'))).toBe(true);
+    });
+});
+
+describe('deriveSeed', () => {
+    test('gives the same seed for the same inputs and a different one for different inputs', () => {
+        expect(deriveSeed(1234, 2, 3)).toBe(deriveSeed(1234, 2, 3));
+        expect(deriveSeed(1234, 2, 3)).not.toBe(deriveSeed(1234, 3, 2));
+        expect(deriveSeed(1234, 2, 3)).not.toBe(deriveSeed(1235, 2, 3));
+    });
+});
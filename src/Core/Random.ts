@@ -0,0 +1,104 @@
+/**
+ * A seedable pseudo random number generator. Anything random about the game world draws from an instance of this
+ * rather than Math.random(), so the same seed always produces the same world. Uses the mulberry32 algorithm, whose
+ * entire state is a single 32 bit integer that can be saved and restored.
+ */
+
+export class Random {
+    /**
+     * The seed the generator was created with
+     */
+    private readonly seed: number;
+
+    /**
+     * The internal state, advanced every time a number is generated
+     */
+    private state: number;
+
+    /**
+     * Create a generator from a seed. Seeds are treated as unsigned 32 bit integers.
+     */
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    getSeed(): number {
+        return this.seed;
+    }
+
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number) {
+        this.state = state >>> 0;
+    }
+
+    /**
+     * Return a random number between 0 (inclusive) and 1 (exclusive), the same range as Math.random().
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+
+        let t: number = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Return a random integer between min and max, inclusive of both.
+     */
+    randomInt(min: number, max: number): number {
+        min = Math.ceil(min);
+        max = Math.floor(max);
+        return Math.floor(this.next() * (max - min + 1)) + min;
+    }
+}
+
+/**
+ * Turn a seed typed by a player into a numeric seed. Whole numbers are used as is, anything else is hashed so that
+ * words work as seeds too.
+ */
+export function parseSeed(value: string): number {
+    if (/^\d+$/.test(value)) {
+        return Number(value) >>> 0;
+    }
+
+    let hash: number = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+    }
+
+    return hash >>> 0;
+}
+
+/**
+ * Is the passed in value a seed: a whole number that fits in an unsigned 32 bit integer, as parseSeed() returns.
+ */
+export function isSeed(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xFFFFFFFF;
+}
+
+/**
+ * Mix a seed with some whole numbers, such as the coordinates of a piece of the world, into a new seed. The same
+ * inputs always give the same seed, so that piece can be generated on its own and still come out the same every time.
+ */
+export function deriveSeed(seed: number, ...values: number[]): number {
+    let hash: number = seed >>> 0;
+    values.forEach((value: number) => {
+        hash = Math.imul(hash ^ (value | 0), 0x9E3779B1);
+        hash ^= hash >>> 16;
+    });
+
+    return hash >>> 0;
+}
+
+/**
+ * Pick a fresh seed for a run that wasn't given one.
+ */
+export function generateSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,64 @@
+/**
+ * The render queue collects everything to be drawn in a frame, then draws it in the right order: layer by layer from
+ * the ground up, and within a layer from the top of the mountain down, by where each thing meets the ground. That way
+ * the skier is drawn in front of a tree they're below and behind one they're above, and over everything while they're
+ * in the air.
+ */
+
+import { RENDER_LAYERS } from "../Constants";
+import { Entity } from "../Entities/Entity";
+import { iRenderItem } from "../Interfaces/iRenderer";
+
+/**
+ * The order the layers are drawn in, from the bottom up
+ */
+const RENDER_LAYER_ORDER: RENDER_LAYERS[] = [
+    RENDER_LAYERS.GROUND,
+    RENDER_LAYERS.ENTITIES,
+    RENDER_LAYERS.AIRBORNE,
+    RENDER_LAYERS.EFFECTS,
+    RENDER_LAYERS.HUD,
+];
+
+export class RenderQueue {
+    /**
+     * Everything waiting to be drawn this frame, in the order it was added
+     */
+    private items: iRenderItem[] = [];
+
+    /**
+     * Queue a drawing function in a layer, sorted among the rest of the layer by where it meets the ground.
+     */
+    add(layer: RENDER_LAYERS, sortY: number, draw: () => void) {
+        this.items.push({ layer, sortY, draw });
+    }
+
+    /**
+     * Queue an entity to be drawn in its layer, by where its feet are. Alpha is how far between the previous and
+     * current tick this frame is being drawn.
+     */
+    addEntity(entity: Entity, alpha: number) {
+        this.add(entity.getRenderLayer(), entity.getFootY(alpha), () => entity.draw(alpha));
+    }
+
+    /**
+     * Draw everything queued in order and empty the queue for the next frame. Items in the same layer and at the same
+     * height are drawn in the order they were added.
+     */
+    flush() {
+        const order: number[] = this.items.map((item: iRenderItem, index: number) => index);
+        order.sort((indexA: number, indexB: number) => {
+            const itemA: iRenderItem = this.items[indexA];
+            const itemB: iRenderItem = this.items[indexB];
+
+            return RENDER_LAYER_ORDER.indexOf(itemA.layer) - RENDER_LAYER_ORDER.indexOf(itemB.layer)
+                || itemA.sortY - itemB.sortY
+                || indexA - indexB;
+        });
+
+        const items: iRenderItem[] = this.items;
+        this.items = [];
+
+        order.forEach((index: number) => items[index].draw());
+    }
+}
@@ -0,0 +1,65 @@
+import { KEYS, TICKS_PER_SECOND } from "../Constants";
+import { Game } from "./Game";
+import { parseReplay } from "./Replay";
+import { createGame } from "./TestHelpers";
+import { iReplay } from "../Interfaces/iReplay";
+
+/**
+ * Ski a game weaving down the mountain, until it's over or a minute has gone by, and return how many ticks it ran.
+ */
+function play(game: Game): number {
+    let tick: number = 0;
+
+    game.receiveInput(KEYS.DOWN);
+    while (!game.isGameOver() && tick < 60 * TICKS_PER_SECOND) {
+        if (tick % TICKS_PER_SECOND === 0) {
+            const key: string = (tick / TICKS_PER_SECOND) % 2 ? KEYS.LEFT : KEYS.RIGHT;
+            game.receiveInput(key);
+            game.simulate(TICKS_PER_SECOND / 4);
+            game.receiveInput(key, false);
+            tick += TICKS_PER_SECOND / 4;
+        }
+
+        game.simulate(1);
+        tick++;
+    }
+
+    return tick;
+}
+
+describe('Replay', () => {
+    test('plays back to the same final snapshot as the run it was recorded from', () => {
+        const game: Game = createGame(3);
+        const ticks: number = play(game);
+
+        const replay: iReplay = parseReplay(JSON.stringify(game.getReplay()));
+        const playback: Game = createGame(replay.seed, replay);
+        playback.simulate(ticks);
+
+        expect(playback.isReplay()).toBe(true);
+        expect(playback.createSnapshot()).toEqual(game.createSnapshot());
+    });
+
+    test('rejects a replay from another version of world generation', () => {
+        const replay: iReplay = createGame(3).getReplay();
+
+        expect(() => parseReplay(JSON.stringify({ ...replay, generation: replay.generation + 1 })))
+            .toThrow('generation');
+    });
+
+    test.each([-1, 1.5, 4294967296, null, '1234'])('rejects a replay with the seed %p', (seed: unknown) => {
+        const replay: iReplay = createGame(3).getReplay();
+
+        expect(() => parseReplay(JSON.stringify({ ...replay, seed }))).toThrow('Replay seed');
+    });
+
+    test('rejects a replay whose snapshot was taken on another seed', () => {
+        const game: Game = createGame(3);
+        game.simulate(TICKS_PER_SECOND);
+        game.restoreSnapshot(game.createSnapshot());
+        const replay: iReplay = game.getReplay();
+
+        expect(parseReplay(JSON.stringify(replay)).snapshot).toBeDefined();
+        expect(() => parseReplay(JSON.stringify({ ...replay, seed: 4 }))).toThrow('seed');
+    });
+});
@@ -0,0 +1,225 @@
+/**
+ * Recording and playback of runs. The InputRecorder collects the inputs applied to the simulation each tick, and the
+ * ReplayPlayer feeds them back in on the same ticks. Because the world is seeded and the simulation runs on a fixed
+ * timestep, that reproduces the original run exactly.
+ */
+
+import { DIFFICULTIES, GAME_MODES, PHYSICS_MODES } from "../Constants";
+import { isDifficulty } from "./Difficulty";
+import { isSeed } from "./Random";
+import { isGameMode, parseSnapshot } from "./Snapshot";
+import { isRecord } from "./Utils";
+import { isPhysicsMode } from "../Entities/Skier";
+import { WORLD_GENERATION_VERSION } from "../World/TerrainGenerator";
+import { iInput, iRecordedInput, iReplay } from "../Interfaces/iReplay";
+import { iGameSnapshot } from "../Interfaces/iSnapshot";
+
+/**
+ * The version of the replay file format. Bump it whenever the format changes, and migrate files from the previous
+ * version in parseReplay().
+ */
+export const REPLAY_VERSION: number = 1;
+
+export class InputRecorder {
+    /**
+     * The seed of the world being recorded
+     */
+    private readonly seed: number;
+
+    /**
+     * The difficulty the run is being played on
+     */
+    private readonly difficulty: DIFFICULTIES;
+
+    /**
+     * How the skier moves in the run
+     */
+    private readonly physics: PHYSICS_MODES;
+
+    /**
+     * What kind of game the run is
+     */
+    private readonly mode: GAME_MODES;
+
+    /**
+     * Every input recorded so far, in the order they were applied
+     */
+    private readonly inputs: iRecordedInput[] = [];
+
+    /**
+     * The world the recording started from, if it didn't start at the beginning of a run
+     */
+    private readonly snapshot?: iGameSnapshot;
+
+    constructor(
+        seed: number,
+        difficulty: DIFFICULTIES,
+        physics: PHYSICS_MODES,
+        mode: GAME_MODES,
+        snapshot?: iGameSnapshot
+    ) {
+        this.seed = seed;
+        this.difficulty = difficulty;
+        this.physics = physics;
+        this.mode = mode;
+        this.snapshot = snapshot;
+    }
+
+    /**
+     * Record an input that was applied to the simulation on the passed in tick.
+     */
+    record(tick: number, input: iInput) {
+        this.inputs.push({ tick, code: input.code, pressed: input.pressed });
+    }
+
+    /**
+     * Return everything recorded so far as a replay.
+     */
+    getReplay(): iReplay {
+        const replay: iReplay = {
+            version: REPLAY_VERSION,
+            generation: WORLD_GENERATION_VERSION,
+            seed: this.seed,
+            difficulty: this.difficulty,
+            physics: this.physics,
+            mode: this.mode,
+            inputs: this.inputs.slice(),
+        };
+
+        if (this.snapshot) {
+            replay.snapshot = this.snapshot;
+        }
+
+        return replay;
+    }
+}
+
+export class ReplayPlayer {
+    /**
+     * The replay being played back
+     */
+    private readonly replay: iReplay;
+
+    /**
+     * Index of the next input in the replay to be played
+     */
+    private nextInput: number = 0;
+
+    constructor(replay: iReplay) {
+        this.replay = replay;
+    }
+
+    /**
+     * Return the inputs that were applied on the passed in tick. Ticks must be asked for in order.
+     */
+    getInputs(tick: number): iInput[] {
+        const inputs: iInput[] = [];
+
+        while (this.nextInput < this.replay.inputs.length && this.replay.inputs[this.nextInput].tick <= tick) {
+            const input: iRecordedInput = this.replay.inputs[this.nextInput];
+
+            inputs.push({ code: input.code, pressed: input.pressed });
+            this.nextInput++;
+        }
+
+        return inputs;
+    }
+}
+
+/**
+ * Parse the contents of a replay file, throwing an error describing the problem if it isn't a valid replay.
+ */
+export function parseReplay(json: string): iReplay {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new Error('Replay file is not valid JSON');
+    }
+
+    if (!isRecord(data)) {
+        throw new Error('Replay file must contain a JSON object');
+    }
+
+    if (data.version !== REPLAY_VERSION) {
+        throw new Error(`Unsupported replay version ${data.version}, expected ${REPLAY_VERSION}`);
+    }
+
+    // A seed only generates the world a run was played on with the same version of world generation
+    if (data.generation !== WORLD_GENERATION_VERSION) {
+        throw new Error(
+            `Replay was recorded on world generation ${data.generation}, so can't be played back on generation `
+                + `${WORLD_GENERATION_VERSION}`
+        );
+    }
+
+    if (!isSeed(data.seed)) {
+        throw new Error(`Replay seed ${data.seed} must be a whole number from 0 to 4294967295`);
+    }
+
+    if (!isDifficulty(data.difficulty)) {
+        throw new Error(`Replay has unknown difficulty ${data.difficulty}`);
+    }
+
+    if (!isPhysicsMode(data.physics)) {
+        throw new Error(`Replay has unknown physics mode ${data.physics}`);
+    }
+
+    if (!isGameMode(data.mode)) {
+        throw new Error(`Replay has unknown game mode ${data.mode}`);
+    }
+
+    if (!Array.isArray(data.inputs)) {
+        throw new Error('Replay inputs must be an array');
+    }
+
+    const inputs: iRecordedInput[] = data.inputs.map((input: unknown, index: number): iRecordedInput => {
+        if (
+            !isRecord(input)
+            || typeof input.tick !== 'number'
+            || !Number.isInteger(input.tick)
+            || typeof input.code !== 'string'
+            || typeof input.pressed !== 'boolean'
+        ) {
+            throw new Error(`Replay input ${index} must have an integer tick, a string code and a boolean pressed`);
+        }
+
+        return { tick: input.tick, code: input.code, pressed: input.pressed };
+    });
+
+    inputs.forEach((input: iRecordedInput, index: number) => {
+        if (index > 0 && input.tick < inputs[index - 1].tick) {
+            throw new Error(`Replay input ${index} is out of tick order`);
+        }
+    });
+
+    const replay: iReplay = {
+        version: REPLAY_VERSION,
+        generation: WORLD_GENERATION_VERSION,
+        seed: data.seed,
+        difficulty: data.difficulty,
+        physics: data.physics,
+        mode: data.mode,
+        inputs,
+    };
+
+    if (data.snapshot !== undefined) {
+        replay.snapshot = parseSnapshot(data.snapshot);
+
+        if (replay.snapshot.seed !== replay.seed) {
+            throw new Error(
+                `Replay snapshot was taken on seed ${replay.snapshot.seed}, not the replay's seed ${replay.seed}`
+            );
+        }
+
+        if (
+            replay.snapshot.difficulty !== replay.difficulty
+            || replay.snapshot.physics !== replay.physics
+            || replay.snapshot.mode !== replay.mode
+        ) {
+            throw new Error('Replay snapshot was taken on a different difficulty, physics or game mode to the replay');
+        }
+    }
+
+    return replay;
+}
@@ -0,0 +1,46 @@
+import { GAME_EVENTS, OBSTACLE_TYPES } from "../Constants";
+import { EventBus } from "./EventBus";
+import { Scoring } from "./Scoring";
+import { Position } from "./Utils";
+import { GameEventBus, iGameEvents } from "../Interfaces/iGameEvents";
+
+describe('Scoring', () => {
+    let gameTime: number;
+    let eventBus: GameEventBus;
+    let scoring: Scoring;
+
+    beforeEach(() => {
+        gameTime = 0;
+        eventBus = new EventBus<iGameEvents>(() => gameTime);
+        scoring = new Scoring(eventBus, 0);
+    });
+
+    /**
+     * Jump off the passed in obstacle, or hop if there isn't one, and land after the passed in time in ms.
+     */
+    function jump(obstacleType: OBSTACLE_TYPES | null, airtime: number) {
+        eventBus.emit(GAME_EVENTS.SKIER_JUMPED, { position: new Position(0, 0), obstacleType });
+        gameTime += airtime;
+        eventBus.emit(GAME_EVENTS.SKIER_LANDED, { position: new Position(0, 0) });
+    }
+
+    test('awards points for launching off a ramp and the time in the air after it', () => {
+        jump(OBSTACLE_TYPES.JUMP_RAMP, 1000);
+
+        // 100 for the ramp, then a second in the air at the combo's x2 multiplier
+        expect(scoring.getScore().points).toBe(300);
+    });
+
+    test('awards nothing for hopping on open snow', () => {
+        jump(null, 1000);
+
+        expect(scoring.getScore().points).toBe(0);
+    });
+
+    test('scores distance down the slope', () => {
+        scoring.update(0, new Position(0, 500));
+
+        expect(scoring.getScore().distance).toBeGreaterThan(0);
+        expect(scoring.getScore().points).toBe(Math.floor(scoring.getScore().distance));
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * Keeps the player's score. Points come from distance travelled down the slope plus style points for ramp jumps,
+ * airtime, tricks, rocks cleared mid-jump, near misses with trees and picking up collectibles. Style moves made in
+ * quick succession build a combo that multiplies the style points they're worth. Crashing costs points and breaks the
+ * combo.
+ *
+ * Scoring only listens to the game's event bus and looks at where the skier is, so the entities don't need to know it
+ * exists.
+ */
+
+import { GAME_EVENTS, PIXELS_PER_METRE } from "../Constants";
+import { Position } from "./Utils";
+import { GameEventBus } from "../Interfaces/iGameEvents";
+import { iScore } from "../Interfaces/iScore";
+import { iScoringSnapshot } from "../Interfaces/iSnapshot";
+
+const DISTANCE_POINTS_PER_METRE: number = 1;
+const RAMP_JUMP_POINTS: number = 100;
+const AIRTIME_POINTS_PER_SECOND: number = 100;
+const OBSTACLE_CLEARED_POINTS: number = 150;
+const NEAR_MISS_POINTS: number = 50;
+const COLLECTIBLE_POINTS: number = 100;
+
+/**
+ * Tricks score this much for each point of difficulty
+ */
+const TRICK_POINTS_PER_DIFFICULTY: number = 100;
+
+/**
+ * Style points lost for crashing
+ */
+const CRASH_PENALTY: number = 200;
+
+/**
+ * The combo is lost if this long passes without a style move
+ */
+const COMBO_TIMEOUT_MS: number = 5000;
+
+/**
+ * Each style move in a combo adds one to the multiplier, up to this
+ */
+const MAX_COMBO_MULTIPLIER: number = 5;
+
+export class Scoring {
+    /**
+     * Where the skier started down the slope, distance is measured from here
+     */
+    private startY: number;
+
+    /**
+     * Furthest distance reached down the slope, in metres
+     */
+    private distance: number = 0;
+
+    private stylePoints: number = 0;
+
+    /**
+     * Number of style moves in the current combo
+     */
+    private combo: number = 0;
+
+    /**
+     * Game time of the last style move
+     */
+    private lastStyleTime: number = 0;
+
+    /**
+     * Game time the skier was launched into the air, null while they're on the ground or only hopping
+     */
+    private jumpStartTime: number | null = null;
+
+    /**
+     * Start keeping score for a skier starting at the passed in height on the slope.
+     */
+    constructor(eventBus: GameEventBus, startY: number) {
+        this.startY = startY;
+
+        eventBus.on(GAME_EVENTS.SKIER_JUMPED, (event) => {
+            // Only being launched off something like a ramp scores, rather than the player hopping on open snow
+            if (event.obstacleType !== null) {
+                this.jumpStartTime = event.gameTime;
+                this.awardStylePoints(RAMP_JUMP_POINTS, event.gameTime);
+            }
+        });
+        eventBus.on(GAME_EVENTS.SKIER_LANDED, (event) => this.landed(event.gameTime));
+        eventBus.on(GAME_EVENTS.SKIER_TRICK_COMPLETED, (event) => {
+            this.awardStylePoints(event.difficulty * TRICK_POINTS_PER_DIFFICULTY, event.gameTime);
+        });
+        eventBus.on(GAME_EVENTS.SKIER_CLEARED_OBSTACLE, (event) => {
+            this.awardStylePoints(OBSTACLE_CLEARED_POINTS, event.gameTime);
+        });
+        eventBus.on(GAME_EVENTS.SKIER_NEAR_MISS, (event) => {
+            this.awardStylePoints(NEAR_MISS_POINTS, event.gameTime);
+        });
+        eventBus.on(GAME_EVENTS.SKIER_COLLECTED, (event) => {
+            this.awardStylePoints(COLLECTIBLE_POINTS, event.gameTime);
+        });
+        eventBus.on(GAME_EVENTS.SKIER_CRASHED, () => this.crashed());
+    }
+
+    /**
+     * Track how far the skier has made it down the slope and drop the combo if it has gone stale.
+     */
+    update(gameTime: number, skierPosition: Position) {
+        this.distance = Math.max(this.distance, (skierPosition.y - this.startY) / PIXELS_PER_METRE);
+
+        if (this.combo && gameTime - this.lastStyleTime > COMBO_TIMEOUT_MS) {
+            this.combo = 0;
+        }
+    }
+
+    /**
+     * Return the current score.
+     */
+    getScore(): iScore {
+        return {
+            points: Math.floor(this.distance * DISTANCE_POINTS_PER_METRE + this.stylePoints),
+            distance: this.distance,
+            multiplier: this.getMultiplier(),
+        };
+    }
+
+    /**
+     * Style points are multiplied by one more than the number of moves in the current combo.
+     */
+    getMultiplier(): number {
+        return Math.min(1 + this.combo, MAX_COMBO_MULTIPLIER);
+    }
+
+    /**
+     * Award points for a style move at the current multiplier, and add the move to the combo.
+     */
+    awardStylePoints(points: number, gameTime: number) {
+        this.stylePoints += points * this.getMultiplier();
+        this.combo++;
+        this.lastStyleTime = gameTime;
+    }
+
+    /**
+     * The skier is back on the ground, so award points for the time they spent in the air after a launch. Airtime
+     * counts towards the combo multiplier but doesn't add to it.
+     */
+    landed(gameTime: number) {
+        if (this.jumpStartTime === null) {
+            return;
+        }
+
+        const airtime: number = (gameTime - this.jumpStartTime) / 1000;
+        this.stylePoints += airtime * AIRTIME_POINTS_PER_SECOND * this.getMultiplier();
+        this.jumpStartTime = null;
+    }
+
+    /**
+     * Crashing costs style points and breaks the combo.
+     */
+    crashed() {
+        this.stylePoints = Math.max(0, this.stylePoints - CRASH_PENALTY);
+        this.combo = 0;
+        this.jumpStartTime = null;
+    }
+
+    createSnapshot(): iScoringSnapshot {
+        return {
+            startY: this.startY,
+            distance: this.distance,
+            stylePoints: this.stylePoints,
+            combo: this.combo,
+            lastStyleTime: this.lastStyleTime,
+            jumpStartTime: this.jumpStartTime,
+        };
+    }
+
+    restoreSnapshot(snapshot: iScoringSnapshot) {
+        this.startY = snapshot.startY;
+        this.distance = snapshot.distance;
+        this.stylePoints = snapshot.stylePoints;
+        this.combo = snapshot.combo;
+        this.lastStyleTime = snapshot.lastStyleTime;
+        this.jumpStartTime = snapshot.jumpStartTime;
+    }
+}
@@ -0,0 +1,66 @@
+/**
+ * Loads and saves the player's settings to localStorage so they're kept between visits.
+ */
+
+import { DIFFICULTIES, GAME_MODES, PHYSICS_MODES } from "../Constants";
+import { isDifficulty } from "./Difficulty";
+import { isGameMode } from "./Snapshot";
+import { isPhysicsMode } from "../Entities/Skier";
+import { iSettings } from "../Interfaces/iSettings";
+
+/**
+ * The localStorage key settings are saved under
+ */
+const SETTINGS_STORAGE_KEY: string = 'skiFree.settings';
+
+export const DEFAULT_SETTINGS: iSettings = {
+    showSeed: true,
+    pauseOnBlur: true,
+    difficulty: DIFFICULTIES.NORMAL,
+    physics: PHYSICS_MODES.MOMENTUM,
+    mode: GAME_MODES.ENDLESS,
+};
+
+/**
+ * Load the saved settings. Anything missing or unreadable falls back to its default.
+ */
+export function loadSettings(): iSettings {
+    const settings: iSettings = { ...DEFAULT_SETTINGS };
+
+    try {
+        const saved = JSON.parse(window.localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+
+        (Object.keys(settings) as (keyof iSettings)[]).forEach((key: keyof iSettings) => {
+            if (typeof saved[key] === typeof settings[key]) {
+                (settings as Record<keyof iSettings, unknown>)[key] = saved[key];
+            }
+        });
+    } catch (error) {
+        // Corrupt or inaccessible storage just means playing with the defaults
+    }
+
+    if (!isDifficulty(settings.difficulty)) {
+        settings.difficulty = DEFAULT_SETTINGS.difficulty;
+    }
+
+    if (!isPhysicsMode(settings.physics)) {
+        settings.physics = DEFAULT_SETTINGS.physics;
+    }
+
+    if (!isGameMode(settings.mode)) {
+        settings.mode = DEFAULT_SETTINGS.mode;
+    }
+
+    return settings;
+}
+
+/**
+ * Save the settings for next time.
+ */
+export function saveSettings(settings: iSettings) {
+    try {
+        window.localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        // Storage can be full or disabled, in which case settings only last until the page is closed
+    }
+}
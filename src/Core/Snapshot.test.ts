@@ -0,0 +1,56 @@
+import { KEYS, TICKS_PER_SECOND } from "../Constants";
+import { Game } from "./Game";
+import { parseSnapshot } from "./Snapshot";
+import { createGame } from "./TestHelpers";
+import { iGameSnapshot } from "../Interfaces/iSnapshot";
+
+/**
+ * Ski a game down the mountain for a few seconds, turning part of the way.
+ */
+function play(game: Game) {
+    game.receiveInput(KEYS.DOWN);
+    game.simulate(2 * TICKS_PER_SECOND);
+    game.receiveInput(KEYS.RIGHT);
+    game.simulate(TICKS_PER_SECOND / 2);
+    game.receiveInput(KEYS.RIGHT, false);
+    game.simulate(TICKS_PER_SECOND);
+}
+
+describe('Snapshot', () => {
+    test('round trips through JSON', () => {
+        const game: Game = createGame(7);
+        play(game);
+
+        const snapshot: iGameSnapshot = game.createSnapshot();
+
+        expect(parseSnapshot(JSON.parse(JSON.stringify(snapshot)))).toEqual(snapshot);
+    });
+
+    test('carries on exactly where it was taken', () => {
+        const game: Game = createGame(7);
+        play(game);
+        const snapshot: iGameSnapshot = parseSnapshot(JSON.parse(JSON.stringify(game.createSnapshot())));
+
+        const restored: Game = createGame(7);
+        restored.restoreSnapshot(snapshot);
+        expect(restored.createSnapshot()).toEqual(snapshot);
+
+        game.simulate(5 * TICKS_PER_SECOND);
+        restored.simulate(5 * TICKS_PER_SECOND);
+        expect(restored.createSnapshot()).toEqual(game.createSnapshot());
+    });
+
+    test('rejects a snapshot with a bad field', () => {
+        const snapshot: iGameSnapshot = JSON.parse(JSON.stringify(createGame(7).createSnapshot()));
+        Object.assign(snapshot.chunks[0].obstacles[0], { type: 'snowman' });
+
+        expect(() => parseSnapshot(snapshot)).toThrow('Snapshot field chunks[0].obstacles[0].type');
+    });
+
+    test('rejects a snapshot from another version', () => {
+        const snapshot: iGameSnapshot = JSON.parse(JSON.stringify(createGame(7).createSnapshot()));
+        snapshot.version = 0;
+
+        expect(() => parseSnapshot(snapshot)).toThrow('Unsupported snapshot version');
+    });
+});
@@ -0,0 +1,336 @@
+/**
+ * Saving, loading and validating snapshots of the whole game world. Snapshots are plain JSON, so they can be kept in
+ * localStorage to continue a run later, or written by hand to start a test from a specific situation.
+ */
+
+import { GAME_MODES, IMAGE_NAMES, STATES } from "../Constants";
+import { isAnimation } from "./Animation";
+import { isDifficulty } from "./Difficulty";
+import { isPhysicsMode } from "../Entities/Skier";
+import { isTrick } from "../Entities/Tricks";
+import { isObstacleType } from "../Entities/Obstacles/ObstacleTypes";
+import { isRecord } from "./Utils";
+import {
+    iChunkSnapshot,
+    iCourseSnapshot,
+    iEntitySnapshot,
+    iGameSnapshot,
+    iObstacleSnapshot,
+    iRhinoSnapshot,
+    iScoringSnapshot,
+    iSkierSnapshot,
+} from "../Interfaces/iSnapshot";
+
+/**
+ * The version of the snapshot format. Bump it whenever the format changes, and migrate snapshots from the previous
+ * version in parseSnapshot().
+ */
+export const SNAPSHOT_VERSION: number = 1;
+
+/**
+ * The localStorage key the saved game is kept under
+ */
+const SNAPSHOT_STORAGE_KEY: string = 'skiFree.snapshot';
+
+const IMAGE_NAME_VALUES: IMAGE_NAMES[] = Object.values(IMAGE_NAMES);
+const STATE_VALUES: STATES[] = Object.values(STATES);
+const GAME_MODE_VALUES: GAME_MODES[] = Object.values(GAME_MODES);
+
+/**
+ * Is the passed in value the name of a game mode.
+ */
+export function isGameMode(value: unknown): value is GAME_MODES {
+    return GAME_MODE_VALUES.indexOf(value as GAME_MODES) !== -1;
+}
+
+/**
+ * Save a snapshot to localStorage, replacing any saved before. Return whether it could be saved.
+ */
+export function saveSnapshot(snapshot: iGameSnapshot): boolean {
+    try {
+        window.localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshot));
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Load the snapshot saved in localStorage. Return null if there isn't one, or it can't be read.
+ */
+export function loadSnapshot(): iGameSnapshot | null {
+    try {
+        const saved: string | null = window.localStorage.getItem(SNAPSHOT_STORAGE_KEY);
+
+        return saved ? parseSnapshot(JSON.parse(saved)) : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+/**
+ * Check that data parsed from JSON is a valid snapshot, throwing an error naming the first bad field if it isn't.
+ */
+export function parseSnapshot(data: unknown): iGameSnapshot {
+    if (!isRecord(data)) {
+        throw new Error('Snapshot must be a JSON object');
+    }
+
+    if (data.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version ${data.version}, expected ${SNAPSHOT_VERSION}`);
+    }
+
+    checkNumber(data.seed, 'seed');
+    checkNumber(data.randomState, 'randomState');
+    checkNumber(data.tick, 'tick');
+    checkNumber(data.gameTime, 'gameTime');
+
+    if (!isDifficulty(data.difficulty)) {
+        throw new Error(`Snapshot field difficulty has unknown difficulty ${data.difficulty}`);
+    }
+
+    if (!isPhysicsMode(data.physics)) {
+        throw new Error(`Snapshot field physics has unknown physics mode ${data.physics}`);
+    }
+
+    if (!isGameMode(data.mode)) {
+        throw new Error(`Snapshot field mode has unknown game mode ${data.mode}`);
+    }
+
+    checkArray(data.chunks, 'chunks');
+    checkArray(data.removedObstacles, 'removedObstacles');
+
+    return {
+        version: SNAPSHOT_VERSION,
+        seed: data.seed,
+        difficulty: data.difficulty,
+        physics: data.physics,
+        mode: data.mode,
+        randomState: data.randomState,
+        tick: data.tick,
+        gameTime: data.gameTime,
+        skier: parseSkier(data.skier),
+        rhino: parseRhino(data.rhino),
+        chunks: data.chunks.map((chunk: unknown, index: number) => parseChunk(chunk, `chunks[${index}]`)),
+        removedObstacles: data.removedObstacles.map((obstacle: unknown, index: number) => {
+            return parseObstacle(obstacle, `removedObstacles[${index}]`);
+        }),
+        course: parseCourse(data.course, data.mode),
+        scoring: parseScoring(data.scoring),
+    };
+}
+
+/**
+ * Check the fields every entity snapshot has.
+ */
+function parseEntity(entity: unknown, path: string): iEntitySnapshot & Record<string, unknown> {
+    checkObject(entity, path);
+    checkNumber(entity.x, `${path}.x`);
+    checkNumber(entity.y, `${path}.y`);
+    checkImageName(entity.imageName, `${path}.imageName`);
+    checkNumber(entity.animationFrame, `${path}.animationFrame`);
+    checkNumber(entity.animationFrameTime, `${path}.animationFrameTime`);
+
+    if (entity.state !== null && !isState(entity.state)) {
+        throw new Error(`Snapshot field ${path}.state has unknown state ${entity.state}`);
+    }
+
+    if (entity.animation !== null && !isAnimation(entity.animation)) {
+        throw new Error(`Snapshot field ${path}.animation has unknown animation ${entity.animation}`);
+    }
+
+    return {
+        ...entity,
+        x: entity.x,
+        y: entity.y,
+        state: entity.state,
+        imageName: entity.imageName,
+        animation: entity.animation,
+        animationFrame: entity.animationFrame,
+        animationFrameTime: entity.animationFrameTime,
+    };
+}
+
+function parseSkier(value: unknown): iSkierSnapshot {
+    const skier = parseEntity(value, 'skier');
+    checkNumber(skier.direction, 'skier.direction');
+    checkNumber(skier.speed, 'skier.speed');
+    checkNumber(skier.angle, 'skier.angle');
+    checkNumber(skier.jumpDuration, 'skier.jumpDuration');
+    checkNumber(skier.jumpTime, 'skier.jumpTime');
+    checkNumber(skier.trickTime, 'skier.trickTime');
+
+    const heldInputs: unknown = skier.heldInputs;
+    if (!Array.isArray(heldInputs) || heldInputs.some((input: unknown) => typeof input !== 'string')) {
+        throw new Error('Snapshot field skier.heldInputs must be an array of strings');
+    }
+
+    if (typeof skier.launched !== 'boolean') {
+        throw new Error('Snapshot field skier.launched must be a boolean');
+    }
+
+    if (skier.trick !== null && !isTrick(skier.trick)) {
+        throw new Error(`Snapshot field skier.trick has unknown trick ${skier.trick}`);
+    }
+
+    return {
+        x: skier.x,
+        y: skier.y,
+        state: skier.state,
+        imageName: skier.imageName,
+        animation: skier.animation,
+        animationFrame: skier.animationFrame,
+        animationFrameTime: skier.animationFrameTime,
+        direction: skier.direction,
+        speed: skier.speed,
+        angle: skier.angle,
+        heldInputs: heldInputs as string[],
+        jumpDuration: skier.jumpDuration,
+        jumpTime: skier.jumpTime,
+        launched: skier.launched,
+        trick: skier.trick,
+        trickTime: skier.trickTime,
+    };
+}
+
+function parseRhino(value: unknown): iRhinoSnapshot {
+    const rhino = parseEntity(value, 'rhino');
+    checkNumber(rhino.speed, 'rhino.speed');
+    checkNumber(rhino.stamina, 'rhino.stamina');
+    checkNumber(rhino.lungeEndTime, 'rhino.lungeEndTime');
+    checkNumber(rhino.nextLungeTime, 'rhino.nextLungeTime');
+
+    if (typeof rhino.tired !== 'boolean') {
+        throw new Error('Snapshot field rhino.tired must be a boolean');
+    }
+
+    return {
+        x: rhino.x,
+        y: rhino.y,
+        state: rhino.state,
+        imageName: rhino.imageName,
+        animation: rhino.animation,
+        animationFrame: rhino.animationFrame,
+        animationFrameTime: rhino.animationFrameTime,
+        speed: rhino.speed,
+        stamina: rhino.stamina,
+        tired: rhino.tired,
+        lungeEndTime: rhino.lungeEndTime,
+        nextLungeTime: rhino.nextLungeTime,
+    };
+}
+
+function parseChunk(chunk: unknown, path: string): iChunkSnapshot {
+    checkObject(chunk, path);
+    checkInteger(chunk.x, `${path}.x`);
+    checkInteger(chunk.y, `${path}.y`);
+    checkArray(chunk.obstacles, `${path}.obstacles`);
+
+    return {
+        x: chunk.x,
+        y: chunk.y,
+        obstacles: chunk.obstacles.map((obstacle: unknown, index: number) => {
+            return parseObstacle(obstacle, `${path}.obstacles[${index}]`);
+        }),
+    };
+}
+
+/**
+ * Check an obstacle snapshot, either on the mountain or taken off it.
+ */
+function parseObstacle(obstacle: unknown, path: string): iObstacleSnapshot {
+    checkObject(obstacle, path);
+    checkNumber(obstacle.x, `${path}.x`);
+    checkNumber(obstacle.y, `${path}.y`);
+
+    if (!isObstacleType(obstacle.type)) {
+        throw new Error(`Snapshot field ${path}.type has unknown obstacle type ${obstacle.type}`);
+    }
+
+    return { x: obstacle.x, y: obstacle.y, type: obstacle.type };
+}
+
+/**
+ * Check the slalom course, which only a slalom race has.
+ */
+function parseCourse(course: unknown, mode: GAME_MODES): iCourseSnapshot | null {
+    if (mode !== GAME_MODES.SLALOM) {
+        if (course !== null) {
+            throw new Error('Snapshot field course must be null outside of a slalom race');
+        }
+
+        return null;
+    }
+
+    checkObject(course, 'course');
+    checkArray(course.gateStates, 'course.gateStates');
+    const gateStates: (STATES | null)[] = course.gateStates.map((state: unknown, index: number) => {
+        if (state !== null && state !== STATES.STATE_PASSED && state !== STATES.STATE_MISSED) {
+            throw new Error(`Snapshot field course.gateStates[${index}] has unknown gate state ${state}`);
+        }
+
+        return state;
+    });
+
+    if (course.finishTime !== null) {
+        checkNumber(course.finishTime, 'course.finishTime');
+    }
+
+    return { gateStates, finishTime: course.finishTime };
+}
+
+function parseScoring(scoring: unknown): iScoringSnapshot {
+    checkObject(scoring, 'scoring');
+    checkNumber(scoring.startY, 'scoring.startY');
+    checkNumber(scoring.distance, 'scoring.distance');
+    checkNumber(scoring.stylePoints, 'scoring.stylePoints');
+    checkNumber(scoring.combo, 'scoring.combo');
+    checkNumber(scoring.lastStyleTime, 'scoring.lastStyleTime');
+
+    if (scoring.jumpStartTime !== null) {
+        checkNumber(scoring.jumpStartTime, 'scoring.jumpStartTime');
+    }
+
+    return {
+        startY: scoring.startY,
+        distance: scoring.distance,
+        stylePoints: scoring.stylePoints,
+        combo: scoring.combo,
+        lastStyleTime: scoring.lastStyleTime,
+        jumpStartTime: scoring.jumpStartTime,
+    };
+}
+
+function isState(value: unknown): value is STATES {
+    return STATE_VALUES.indexOf(value as STATES) !== -1;
+}
+
+function checkObject(value: unknown, path: string): asserts value is Record<string, unknown> {
+    if (!isRecord(value)) {
+        throw new Error(`Snapshot field ${path} must be an object`);
+    }
+}
+
+function checkArray(value: unknown, path: string): asserts value is unknown[] {
+    if (!Array.isArray(value)) {
+        throw new Error(`Snapshot field ${path} must be an array`);
+    }
+}
+
+function checkInteger(value: unknown, path: string): asserts value is number {
+    if (!Number.isInteger(value)) {
+        throw new Error(`Snapshot field ${path} must be a whole number`);
+    }
+}
+
+function checkNumber(value: unknown, path: string): asserts value is number {
+    if (typeof value !== 'number' || !isFinite(value)) {
+        throw new Error(`Snapshot field ${path} must be a number`);
+    }
+}
+
+function checkImageName(value: unknown, path: string): asserts value is IMAGE_NAMES {
+    if (IMAGE_NAME_VALUES.indexOf(value as IMAGE_NAMES) === -1) {
+        throw new Error(`Snapshot field ${path} has unknown image ${value}`);
+    }
+}
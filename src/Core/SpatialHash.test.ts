@@ -0,0 +1,43 @@
+import { SpatialHash } from "./SpatialHash";
+import { Position, Rect } from "./Utils";
+
+describe('SpatialHash', () => {
+    let hash: SpatialHash<string>;
+
+    beforeEach(() => {
+        hash = new SpatialHash<string>(100);
+        hash.insert('near', new Position(50, 50));
+        hash.insert('next door', new Position(150, 50));
+        hash.insert('far', new Position(1050, 1050));
+        hash.insert('behind', new Position(-50, -50));
+    });
+
+    test('returns the items in the cells an area covers', () => {
+        expect(hash.query(new Rect(0, 0, 99, 99))).toEqual(['near']);
+        expect(hash.query(new Rect(0, 0, 199, 99))).toEqual(['near', 'next door']);
+        expect(hash.query(new Rect(-100, -100, 99, 99))).toEqual(['behind', 'near']);
+    });
+
+    test('returns nothing for an empty area', () => {
+        expect(hash.query(new Rect(300, 300, 900, 900))).toEqual([]);
+    });
+
+    test('returns items a row of cells at a time, in the order they were inserted', () => {
+        hash.insert('also near', new Position(60, 60));
+
+        expect(hash.query(new Rect(-100, -100, 1100, 1100)))
+            .toEqual(['behind', 'near', 'also near', 'next door', 'far']);
+    });
+
+    test('stops returning an item once it is removed', () => {
+        hash.remove('near', new Position(50, 50));
+
+        expect(hash.query(new Rect(0, 0, 199, 99))).toEqual(['next door']);
+    });
+
+    test('is empty once cleared', () => {
+        hash.clear();
+
+        expect(hash.query(new Rect(-100, -100, 1100, 1100))).toEqual([]);
+    });
+});
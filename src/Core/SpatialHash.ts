@@ -0,0 +1,98 @@
+/**
+ * A spatial hash for finding the things near a point or area of the world without looking at everything in it. The
+ * world is split into a grid of square cells and each item is filed under the cell its position falls in, so a query
+ * only has to look at the cells the area covers.
+ */
+
+import { Position, Rect } from "./Utils";
+
+export class SpatialHash<T> {
+    /**
+     * The width and height of each cell, in pixels
+     */
+    private readonly cellSize: number;
+
+    /**
+     * The items filed under each cell, keyed by the cell's column and row. Cells are dropped once they're empty.
+     */
+    private cells: Record<string, T[]> = {};
+
+    constructor(cellSize: number) {
+        this.cellSize = cellSize;
+    }
+
+    /**
+     * File an item under the cell its position falls in.
+     */
+    insert(item: T, position: Position) {
+        const key: string = this.getKey(this.getCell(position.x), this.getCell(position.y));
+
+        if (!this.cells[key]) {
+            this.cells[key] = [];
+        }
+
+        this.cells[key].push(item);
+    }
+
+    /**
+     * Take an item out again. The position must be the one it was inserted with.
+     */
+    remove(item: T, position: Position) {
+        const key: string = this.getKey(this.getCell(position.x), this.getCell(position.y));
+        const cell: T[] | undefined = this.cells[key];
+        if (!cell) {
+            return;
+        }
+
+        const index: number = cell.indexOf(item);
+        if (index !== -1) {
+            cell.splice(index, 1);
+        }
+
+        if (!cell.length) {
+            delete this.cells[key];
+        }
+    }
+
+    /**
+     * Return every item in the cells the area covers. Items near the edge of the area may be just outside it, so
+     * anything that needs an exact answer should still check the items it gets back. Items come back a row of cells at
+     * a time, in the order they were inserted, so the same contents always give the same order.
+     */
+    query(area: Rect): T[] {
+        const items: T[] = [];
+        const left: number = this.getCell(area.left);
+        const right: number = this.getCell(area.right);
+        const top: number = this.getCell(area.top);
+        const bottom: number = this.getCell(area.bottom);
+
+        for (let row = top; row <= bottom; row++) {
+            for (let column = left; column <= right; column++) {
+                const cell: T[] | undefined = this.cells[this.getKey(column, row)];
+                if (cell) {
+                    items.push(...cell);
+                }
+            }
+        }
+
+        return items;
+    }
+
+    /**
+     * Empty the hash.
+     */
+    clear() {
+        this.cells = {};
+    }
+
+    /**
+     * Return the column or row a coordinate falls in.
+     */
+    private getCell(coordinate: number): number {
+        return Math.floor(coordinate / this.cellSize);
+    }
+
+    private getKey(column: number, row: number): string {
+        return `${column},${row}`;
+    }
+}
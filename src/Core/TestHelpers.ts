@@ -0,0 +1,32 @@
+/**
+ * Shared fixtures for the tests, which run the game headless: nothing is drawn and no images are loaded, so it plays
+ * the same in Node as in the browser.
+ */
+
+import { IMAGES } from "../Constants";
+import { Game } from "./Game";
+import { HeadlessRenderer } from "./HeadlessRenderer";
+import { ImageManager } from "./ImageManager";
+import { iReplay } from "../Interfaces/iReplay";
+
+/**
+ * The viewport the tests play at
+ */
+export const TEST_VIEWPORT_WIDTH: number = 1280;
+export const TEST_VIEWPORT_HEIGHT: number = 720;
+
+/**
+ * Create a game that runs headless from the passed in seed, playing back any replay passed in with the difficulty,
+ * physics and game mode it was recorded with.
+ */
+export function createGame(seed: number, replay?: iReplay): Game {
+    return new Game(
+        new HeadlessRenderer(TEST_VIEWPORT_WIDTH, TEST_VIEWPORT_HEIGHT),
+        new ImageManager(IMAGES),
+        seed,
+        replay && replay.difficulty,
+        replay && replay.physics,
+        replay && replay.mode,
+        replay
+    );
+}
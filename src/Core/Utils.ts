@@ -3,12 +3,18 @@
  */
 
 /**
- * Return a random integer between min and max, inclusive of both.
+ * Linearly interpolate between start and end. An amount of 0 returns start and an amount of 1 returns end.
  */
-export function randomInt(min: number, max: number): number {
-    min = Math.ceil(min);
-    max = Math.floor(max);
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+export function lerp(start: number, end: number, amount: number): number {
+    return start + (end - start) * amount;
+}
+
+/**
+ * Is the passed in value a plain object, such as one parsed from JSON, whose fields can be looked at one by one to
+ * check they're what they should be.
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
 }
 
 /**
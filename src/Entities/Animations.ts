@@ -0,0 +1,10 @@
+/**
+ * The animations entities can play, loaded from the animation manifest in Animations.json. The manifest is checked
+ * as the game loads, so a mistake in it shows up straight away rather than when the animation is first played.
+ */
+
+import { ANIMATIONS } from "../Constants";
+import { Animation, parseAnimationManifest } from "../Core/Animation";
+import manifest from "./Animations.json";
+
+export const ANIMATION_DEFINITIONS: Record<ANIMATIONS, Animation> = parseAnimationManifest(manifest);
@@ -0,0 +1,113 @@
+/**
+ * The collision shape manifest: the shapes each image collides as, relative to the center of the image. They follow
+ * the solid parts of the sprites rather than the whole image, so clipping the empty corner of a tree cluster's image
+ * doesn't count as hitting it. Images can be made up of more than one shape, and any not listed here collide as their
+ * whole image.
+ *
+ * The skier's shapes differ with the way they're facing, covering their skis, so they're long and thin pointing down
+ * the slope and wide and low across it.
+ */
+
+import { IMAGE_NAMES, SHAPE_TYPES } from "../Constants";
+import { mirrorShape } from "../Core/Collision";
+import { Position } from "../Core/Utils";
+import { iCollisionShape } from "../Interfaces/iCollisionShape";
+
+const SKIER_DOWN_SHAPE: iCollisionShape = { type: SHAPE_TYPES.RECT, left: -10, top: -8, right: 12, bottom: 28 };
+
+const SKIER_LEFT_DOWN_SHAPE: iCollisionShape = {
+    type: SHAPE_TYPES.POLYGON,
+    points: [
+        new Position(-12, -4),
+        new Position(12, -4),
+        new Position(22, 8),
+        new Position(-4, 28),
+        new Position(-22, 28),
+    ],
+};
+
+const SKIER_LEFT_SHAPE: iCollisionShape = { type: SHAPE_TYPES.RECT, left: -27, top: 8, right: 21, bottom: 23 };
+
+/**
+ * The skier's body while they're in the air, whichever frame of the jump or trick they're on
+ */
+const SKIER_AIRBORNE_SHAPE: iCollisionShape = { type: SHAPE_TYPES.CIRCLE, x: 0, y: -4, radius: 16 };
+
+/**
+ * The rhino's body, which is much the same size in all its frames
+ */
+const RHINO_SHAPE: iCollisionShape = { type: SHAPE_TYPES.CIRCLE, x: 0, y: 2, radius: 24 };
+
+export const COLLISION_SHAPES: Partial<Record<IMAGE_NAMES, iCollisionShape[]>> = {
+    [IMAGE_NAMES.SKIER_LEFT]: [SKIER_LEFT_SHAPE],
+    [IMAGE_NAMES.SKIER_LEFTDOWN]: [SKIER_LEFT_DOWN_SHAPE],
+    [IMAGE_NAMES.SKIER_DOWN]: [SKIER_DOWN_SHAPE],
+    [IMAGE_NAMES.SKIER_RIGHTDOWN]: [mirrorShape(SKIER_LEFT_DOWN_SHAPE)],
+    [IMAGE_NAMES.SKIER_RIGHT]: [mirrorShape(SKIER_LEFT_SHAPE)],
+    [IMAGE_NAMES.SKIER_CRASH]: [{ type: SHAPE_TYPES.CIRCLE, x: -10, y: 10, radius: 16 }],
+    [IMAGE_NAMES.SKIER_JUMP1]: [SKIER_AIRBORNE_SHAPE],
+    [IMAGE_NAMES.SKIER_JUMP2]: [SKIER_AIRBORNE_SHAPE],
+    [IMAGE_NAMES.SKIER_JUMP3]: [SKIER_AIRBORNE_SHAPE],
+    [IMAGE_NAMES.SKIER_JUMP4]: [SKIER_AIRBORNE_SHAPE],
+    [IMAGE_NAMES.SKIER_JUMP5]: [SKIER_AIRBORNE_SHAPE],
+
+    [IMAGE_NAMES.RHINO]: [RHINO_SHAPE],
+    [IMAGE_NAMES.RHINO_RUN1]: [RHINO_SHAPE],
+    [IMAGE_NAMES.RHINO_RUN2]: [RHINO_SHAPE],
+    [IMAGE_NAMES.RHINO_EAT1]: [RHINO_SHAPE],
+    [IMAGE_NAMES.RHINO_EAT2]: [RHINO_SHAPE],
+    [IMAGE_NAMES.RHINO_EAT3]: [RHINO_SHAPE],
+    [IMAGE_NAMES.RHINO_EAT4]: [RHINO_SHAPE],
+    [IMAGE_NAMES.RHINO_CELEBRATE1]: [RHINO_SHAPE],
+    [IMAGE_NAMES.RHINO_CELEBRATE2]: [RHINO_SHAPE],
+
+    // The canopy down to the bottom branches
+    [IMAGE_NAMES.TREE]: [{
+        type: SHAPE_TYPES.POLYGON,
+        points: [
+            new Position(-3, -26),
+            new Position(21, 16),
+            new Position(21, 21),
+            new Position(-21, 21),
+            new Position(-21, 16),
+        ],
+    }],
+
+    // Three trees, with gaps between them that can be skied through the corners of
+    [IMAGE_NAMES.TREE_CLUSTER]: [
+        {
+            type: SHAPE_TYPES.POLYGON,
+            points: [new Position(-24, -43), new Position(-4, -7), new Position(-43, -7)],
+        },
+        {
+            type: SHAPE_TYPES.POLYGON,
+            points: [new Position(27, -31), new Position(43, -1), new Position(11, -1)],
+        },
+        {
+            type: SHAPE_TYPES.POLYGON,
+            points: [new Position(-4, -1), new Position(14, 32), new Position(-22, 32)],
+        },
+    ],
+
+    // Each rock image is a few boulders
+    [IMAGE_NAMES.ROCK1]: [
+        { type: SHAPE_TYPES.CIRCLE, x: -9.5, y: -7.5, radius: 10 },
+        { type: SHAPE_TYPES.CIRCLE, x: 14, y: -7.5, radius: 4.5 },
+        { type: SHAPE_TYPES.CIRCLE, x: 9, y: 6, radius: 10 },
+    ],
+    [IMAGE_NAMES.ROCK2]: [
+        { type: SHAPE_TYPES.CIRCLE, x: -9.5, y: -3, radius: 12 },
+        { type: SHAPE_TYPES.CIRCLE, x: 19.5, y: 4.5, radius: 5 },
+        { type: SHAPE_TYPES.CIRCLE, x: 9.5, y: 10.5, radius: 4.5 },
+    ],
+
+    [IMAGE_NAMES.JUMP_RAMP]: [{
+        type: SHAPE_TYPES.POLYGON,
+        points: [
+            new Position(-14.5, -4.5),
+            new Position(14.5, -4.5),
+            new Position(20.5, 3.5),
+            new Position(-20.5, 3.5),
+        ],
+    }],
+};
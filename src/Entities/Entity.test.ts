@@ -0,0 +1,53 @@
+import { ANIMATIONS, IMAGE_NAMES, IMAGES, STATES } from "../Constants";
+import { HeadlessRenderer } from "../Core/HeadlessRenderer";
+import { ImageManager } from "../Core/ImageManager";
+import { Entity } from "./Entity";
+
+/**
+ * An entity that does nothing but play animations
+ */
+class AnimatedEntity extends Entity {
+    state: STATES | null = null;
+    imageName: IMAGE_NAMES = IMAGE_NAMES.RHINO;
+    finished: ANIMATIONS[] = [];
+
+    onAnimationFinished(animation: ANIMATIONS) {
+        this.finished.push(animation);
+    }
+
+    die() {
+
+    }
+}
+
+/**
+ * Create an entity to play animations on, showing the rhino until one starts.
+ */
+function createEntity(): AnimatedEntity {
+    return new AnimatedEntity(0, 0, new ImageManager(IMAGES), new HeadlessRenderer(1280, 720));
+}
+
+describe('Entity animations', () => {
+    test('shows the first frame of an animation for its full duration, however long after the last frame', () => {
+        const entity: AnimatedEntity = createEntity();
+        entity.playAnimation(ANIMATIONS.RHINO_RUN, 0);
+        entity.animate(250);
+
+        entity.playAnimation(ANIMATIONS.RHINO_EAT, 10000);
+        entity.animate(10200);
+        expect(entity.imageName).toBe(IMAGE_NAMES.RHINO_EAT1);
+
+        entity.animate(10250);
+        expect(entity.imageName).toBe(IMAGE_NAMES.RHINO_EAT2);
+    });
+
+    test('finishes an animation that plays a set number of times, staying on its last frame', () => {
+        const entity: AnimatedEntity = createEntity();
+        entity.playAnimation(ANIMATIONS.RHINO_EAT, 0);
+
+        [250, 500, 750, 1000].forEach((gameTime: number) => entity.animate(gameTime));
+
+        expect(entity.finished).toEqual([ANIMATIONS.RHINO_EAT]);
+        expect(entity.imageName).toBe(IMAGE_NAMES.RHINO_EAT4);
+    });
+});
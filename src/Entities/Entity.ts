@@ -1,12 +1,21 @@
 /**
- * A basic game entity with a position and image to be displayed in the game, as well as animations.
+ * A basic game entity with a position and image to be displayed in the game, as well as animations. Animations are
+ * played by name from the animation manifest. Entities react to them finishing and to the events on their frames by
+ * overriding onAnimationFinished() and onAnimationEvent(), rather than passing callbacks, so an animation restored
+ * from a snapshot carries on exactly as it would have.
  */
 
 import { Animation } from "../Core/Animation";
-import { Canvas } from "../Core/Canvas";
+import { ANIMATION_DEFINITIONS } from "./Animations";
+import { iAnimationFrame } from "../Interfaces/iAnimation";
+import { iRenderer } from "../Interfaces/iRenderer";
 import { ImageManager } from "../Core/ImageManager";
-import { Position, Rect } from "../Core/Utils";
-import { IMAGE_NAMES, STATES } from "../Constants";
+import { lerp, Position, Rect } from "../Core/Utils";
+import { ANIMATION_EVENTS, ANIMATIONS, IMAGE_NAMES, RENDER_LAYERS, SHAPE_TYPES, STATES } from "../Constants";
+import { getShapeBounds, intersectShapeLists, moveShape } from "../Core/Collision";
+import { COLLISION_SHAPES } from "./CollisionShapes";
+import { iCollisionShape } from "../Interfaces/iCollisionShape";
+import { iEntitySnapshot } from "../Interfaces/iSnapshot";
 
 export abstract class Entity {
     /**
@@ -15,32 +24,33 @@ export abstract class Entity {
     position: Position;
 
     /**
-     * Stored reference to the ImageManager
+     * The position of the entity at the start of the current simulation tick. Rendering blends between this and the
+     * current position so movement stays smooth when the display refreshes faster or slower than the simulation.
      */
-    imageManager: ImageManager;
+    previousPosition: Position;
 
     /**
-     * Stored reference to the Canvas entity is drawn to
+     * Stored reference to the ImageManager
      */
-    canvas: Canvas;
+    imageManager: ImageManager;
 
     /**
-     * Stores all of the animations available for the different states of the entity.
+     * Stored reference to the renderer the entity is drawn to
      */
-    animations: { [key: string]: Animation };
+    renderer: iRenderer;
 
     /**
-     * The animation that the entity is currently using. Typically matches the state the rhino is in.
+     * The name of the animation that the entity is currently playing. Typically matches the state the rhino is in.
      */
-    curAnimation: Animation | null;
+    curAnimation: ANIMATIONS | null;
     
     /**
-     * The current frame of the current animation the rhino is on.
+     * How many steps from one frame to the next the entity has taken through the current animation.
      */
     curAnimationFrame: number;
         
     /**
-     * The time in ms of the last frame change. Used to provide a consistent framerate.
+     * The game time in ms of the last frame change. Used to provide a consistent framerate.
      */
     curAnimationFrameTime: number;
 
@@ -57,11 +67,11 @@ export abstract class Entity {
     /**
      * Initialize the entities position.
      */
-    constructor(x: number, y: number, imageManager: ImageManager, canvas: Canvas) {
+    constructor(x: number, y: number, imageManager: ImageManager, renderer: iRenderer) {
         this.position = new Position(x, y);
+        this.previousPosition = new Position(x, y);
         this.imageManager = imageManager;
-        this.canvas = canvas;
-        this.animations = {};
+        this.renderer = renderer;
         this.curAnimation = null;
         this.curAnimationFrame = 0;
         this.curAnimationFrameTime = 0;
@@ -75,111 +85,239 @@ export abstract class Entity {
     }
 
     /**
-     * Draw the entity to the canvas centered on the X,Y position.
+     * Return a snapshot of the entity's position, state and how far through its animation it is.
+     */
+    createSnapshot(): iEntitySnapshot {
+        return {
+            x: this.position.x,
+            y: this.position.y,
+            state: this.state,
+            imageName: this.imageName,
+            animation: this.curAnimation,
+            animationFrame: this.curAnimationFrame,
+            animationFrameTime: this.curAnimationFrameTime,
+        };
+    }
+
+    /**
+     * Put the entity back exactly as it was when the snapshot was taken, including part way through an animation.
+     */
+    restoreSnapshot(snapshot: iEntitySnapshot) {
+        this.position = new Position(snapshot.x, snapshot.y);
+        this.previousPosition = new Position(snapshot.x, snapshot.y);
+        this.state = snapshot.state;
+        this.imageName = snapshot.imageName;
+
+        this.curAnimation = snapshot.animation;
+        this.curAnimationFrame = snapshot.animationFrame;
+        this.curAnimationFrameTime = snapshot.animationFrameTime;
+    }
+
+    /**
+     * Remember where the entity is before a simulation tick moves it, so that drawing can interpolate from there.
+     */
+    storePreviousPosition() {
+        this.previousPosition.x = this.position.x;
+        this.previousPosition.y = this.position.y;
+    }
+
+    /**
+     * Return the position to draw the entity at, blended between its previous and current positions. Alpha is how far
+     * the renderer is between the previous simulation tick and the current one.
+     */
+    getInterpolatedPosition(alpha: number): Position {
+        return new Position(
+            lerp(this.previousPosition.x, this.position.x, alpha),
+            lerp(this.previousPosition.y, this.position.y, alpha)
+        );
+    }
+
+    /**
+     * How far above the ground to draw the entity, in pixels. Most entities stay on the ground.
+     */
+    getDrawHeight(): number {
+        return 0;
+    }
+
+    /**
+     * Return the layer the entity is drawn in. Most entities stand on the ground.
+     */
+    getRenderLayer(): RENDER_LAYERS {
+        return RENDER_LAYERS.ENTITIES;
+    }
+
+    /**
+     * Return where the entity meets the ground, the bottom of its image at its interpolated position, however far off
+     * the ground it's drawn. Entities are drawn in front of those with their feet further up the mountain.
      */
-    draw() {
+    getFootY(alpha: number): number {
+        const image = this.imageManager.getImageSize(this.imageName);
+        const drawPosition: Position = this.getInterpolatedPosition(alpha);
+
+        return image ? drawPosition.y + image.height / 2 : drawPosition.y;
+    }
+
+    /**
+     * Draw the entity to the renderer centered on its interpolated X,Y position, raised by its height off the ground.
+     */
+    draw(alpha: number = 1) {
         const image = this.imageManager.getImage(this.imageName);
 
         if (!image) {
             return;
         }
 
-        const drawX = this.position.x - image.width / 2;
-        const drawY = this.position.y - image.height / 2;
+        const drawPosition = this.getInterpolatedPosition(alpha);
+        const drawX = drawPosition.x - image.width / 2;
+        const drawY = drawPosition.y - image.height / 2 - this.getDrawHeight();
 
-        this.canvas.drawImage(image, drawX, drawY, image.width, image.height);
+        this.renderer.drawImage(image, drawX, drawY, image.width, image.height);
     }
 
     /**
-     * Return a bounding box in world space coordinates for the entity based upon the current image displayed.
+     * Return the shapes the entity collides as in world space coordinates, from the collision shape manifest entry for
+     * the current image displayed. Images without an entry collide as the whole image.
      */
-    getBounds(): Rect | null {
-        const image = this.imageManager.getImage(this.imageName);
+    getCollisionShapes(): iCollisionShape[] | null {
+        const shapes: iCollisionShape[] | undefined = COLLISION_SHAPES[this.imageName];
+
+        if (shapes) {
+            return shapes.map((shape: iCollisionShape) => moveShape(shape, this.position));
+        }
+
+        const image = this.imageManager.getImageSize(this.imageName);
 
         if (!image) {
             return null;
         }
 
-        return new Rect(
-            this.position.x - image.width / 2,
-            this.position.y - image.height / 2,
-            this.position.x + image.width / 2,
-            this.position.y
-        );
+        return [{
+            type: SHAPE_TYPES.RECT,
+            left: this.position.x - image.width / 2,
+            top: this.position.y - image.height / 2,
+            right: this.position.x + image.width / 2,
+            bottom: this.position.y + image.height / 2,
+        }];
     }
 
     /**
-     * Set the current animation, reset to the beginning of the animation and set the proper image to display.
+     * Return a bounding box in world space coordinates around the shapes the entity collides as.
      */
-    setAnimation() {
-        this.curAnimation = this.animations[this.state as STATES];
-    
-        if (!this.curAnimation) {
-            return;
+    getBounds(): Rect | null {
+        const shapes: iCollisionShape[] | null = this.getCollisionShapes();
+
+        if (!shapes) {
+            return null;
         }
-        
+
+        return shapes.map(getShapeBounds).reduce((bounds: Rect, shapeBounds: Rect) => new Rect(
+            Math.min(bounds.left, shapeBounds.left),
+            Math.min(bounds.top, shapeBounds.top),
+            Math.max(bounds.right, shapeBounds.right),
+            Math.max(bounds.bottom, shapeBounds.bottom)
+        ));
+    }
+
+    /**
+     * Does the entity collide with another.
+     */
+    collidesWith(other: Entity): boolean {
+        const shapes: iCollisionShape[] | null = this.getCollisionShapes();
+        const otherShapes: iCollisionShape[] | null = other.getCollisionShapes();
+
+        return !!shapes && !!otherShapes && intersectShapeLists(shapes, otherShapes);
+    }
+
+    /**
+     * Start playing an animation from the beginning, showing its first frame from the passed in game time.
+     */
+    playAnimation(animation: ANIMATIONS, gameTime: number) {
+        this.curAnimation = animation;
         this.curAnimationFrame = 0;
-        
-        const animateImages = this.curAnimation.getImages();
+        this.curAnimationFrameTime = gameTime;
 
-        this.imageName = animateImages[this.curAnimationFrame];
+        this.showAnimationFrame(ANIMATION_DEFINITIONS[animation].getFrame(this.curAnimationFrame));
     }
-    
+
     /**
-     * Advance to the next frame in the current animation if enough time has elapsed since the previous frame.
+     * Advance to the next frame in the current animation once the current frame has been shown for long enough. Speed
+     * plays the animation faster or slower than the manifest says.
      */
-    animate(gameTime: number, animationFrameSpeed: number) {
+    animate(gameTime: number, speed: number = 1) {
         if (!this.curAnimation) {
             return;
         }
-        
-        if (gameTime - this.curAnimationFrameTime > animationFrameSpeed) {
+
+        const frame: iAnimationFrame = ANIMATION_DEFINITIONS[this.curAnimation].getFrame(this.curAnimationFrame);
+
+        if (gameTime - this.curAnimationFrameTime >= frame.duration / speed) {
             this.nextAnimationFrame(gameTime);
         }
     }
 
     /**
-     * Increase the current animation frame and update the image based upon the sequence of images for the animation.
-     * If the animation isn't looping, then finish the animation instead.
+     * Step on to the next frame in the current animation and display it, or finish the animation if it has played
+     * through as many times as it should.
      */
     nextAnimationFrame(gameTime: number) {
         if (!this.curAnimation) {
             return;
         }
-        
-        const animationImages = this.curAnimation.getImages();
-        
+
+        const animation: Animation = ANIMATION_DEFINITIONS[this.curAnimation];
+
         this.curAnimationFrameTime = gameTime;
         this.curAnimationFrame++;
-    
-        if (this.curAnimationFrame >= animationImages.length) {
-            if (!this.curAnimation.getLooping()) {
-                this.finishAnimation();
 
-                return;
-            }
-        
-            this.curAnimationFrame = 0;
+        if (animation.isFinished(this.curAnimationFrame)) {
+            this.finishAnimation(gameTime);
+
+            return;
+        }
+
+        this.showAnimationFrame(animation.getFrame(this.curAnimationFrame));
+    }
+
+    /**
+     * Display a frame of the current animation, and react to its event if it has one.
+     */
+    showAnimationFrame(frame: iAnimationFrame) {
+        this.imageName = frame.image;
+
+        if (frame.event) {
+            this.onAnimationEvent(frame.event);
         }
-        
-        this.imageName = animationImages[this.curAnimationFrame];
     }
 
     /**
-     * The current animation wasn't looping, so finish it by clearing out the current animation and firing the callback.
+     * The current animation has played through, so finish it by clearing out the current animation and letting the
+     * entity react. The entity stays on the animation's last frame until it does something else.
      */
-    finishAnimation() {
+    finishAnimation(gameTime: number) {
         if (!this.curAnimation) {
             return;
         }
-        
-        const animationCallback = this.curAnimation.getCallback();
+
+        const finishedAnimation: ANIMATIONS = this.curAnimation;
 
         this.curAnimation = null;
-        
-        if (animationCallback) {
-            animationCallback.apply(null);
-        }
+
+        this.onAnimationFinished(finishedAnimation, gameTime);
+    }
+
+    /**
+     * Called when an animation that doesn't play forever has finished, at the passed in game time. Entities override
+     * it to react.
+     */
+    onAnimationFinished(animation: ANIMATIONS, gameTime: number) {
+
+    }
+
+    /**
+     * Called when a frame tagged with an event in the animation manifest is shown. Entities override it to react.
+     */
+    onAnimationEvent(event: ANIMATION_EVENTS) {
+
     }
 
     /**
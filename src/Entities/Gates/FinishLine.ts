@@ -0,0 +1,72 @@
+/**
+ * The finish line at the bottom of a slalom course. It stretches right across the course, so the skier finishes
+ * wherever they cross it.
+ */
+
+import { IMAGE_NAMES, RENDER_LAYERS, STATES } from "../../Constants";
+import { iRenderer } from "../../Interfaces/iRenderer";
+import { ImageManager } from "../../Core/ImageManager";
+import { Entity } from "../Entity";
+
+export class FinishLine extends Entity {
+    /**
+     * The finish line doesn't change, so has no state
+     */
+    state: STATES | null = null;
+
+    /**
+     * The image the line is tiled from
+     */
+    imageName: IMAGE_NAMES = IMAGE_NAMES.FINISH_LINE;
+
+    /**
+     * How wide the line is drawn, in pixels. The line's position is in the middle of it.
+     */
+    width: number;
+
+    /**
+     * Initialize a finish line centered on the passed in position.
+     */
+    constructor(x: number, y: number, width: number, imageManager: ImageManager, renderer: iRenderer) {
+        super(x, y, imageManager, renderer);
+
+        this.width = width;
+    }
+
+    /**
+     * Has the skier crossed the line moving from one height to another
+     */
+    isCrossed(fromY: number, toY: number): boolean {
+        return fromY < this.position.y && toY >= this.position.y;
+    }
+
+    /**
+     * The line is painted on the snow, so everything passes over it.
+     */
+    getRenderLayer(): RENDER_LAYERS {
+        return RENDER_LAYERS.GROUND;
+    }
+
+    /**
+     * Draw the line by tiling its image across its width.
+     */
+    draw() {
+        const image = this.imageManager.getImage(this.imageName);
+
+        if (!image) {
+            return;
+        }
+
+        const left: number = this.position.x - this.width / 2;
+        for (let x = left; x < left + this.width; x += image.width) {
+            this.renderer.drawImage(image, x, this.position.y - image.height / 2, image.width, image.height);
+        }
+    }
+
+    /**
+     * The finish line can't be destroyed
+     */
+    die() {
+
+    }
+}
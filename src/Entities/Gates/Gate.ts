@@ -0,0 +1,118 @@
+/**
+ * A slalom gate: a pair of poles the skier has to pass between. Gates don't block the skier, they only keep track of
+ * whether the skier made it through.
+ */
+
+import { IMAGE_NAMES, STATES } from "../../Constants";
+import { iRenderer } from "../../Interfaces/iRenderer";
+import { ImageManager } from "../../Core/ImageManager";
+import { Rect } from "../../Core/Utils";
+import { Entity } from "../Entity";
+
+export class Gate extends Entity {
+    /**
+     * Null until the skier has gone past the gate, then whether they passed it or missed it
+     */
+    state: STATES | null = null;
+
+    /**
+     * The image drawn for each of the gate's poles
+     */
+    imageName: IMAGE_NAMES;
+
+    /**
+     * The distance between the two poles, in pixels. The gate's position is halfway between them.
+     */
+    width: number;
+
+    /**
+     * Initialize a gate centered on the passed in position, with poles of the passed in colour.
+     */
+    constructor(
+        x: number,
+        y: number,
+        width: number,
+        imageManager: ImageManager,
+        renderer: iRenderer,
+        imageName: IMAGE_NAMES
+    ) {
+        super(x, y, imageManager, renderer);
+
+        this.width = width;
+        this.imageName = imageName;
+    }
+
+    /**
+     * Has the skier not gone past the gate yet
+     */
+    isPending(): boolean {
+        return this.state === null;
+    }
+
+    /**
+     * Is the passed in x position between the two poles
+     */
+    isBetweenPoles(x: number): boolean {
+        return Math.abs(x - this.position.x) < this.width / 2;
+    }
+
+    /**
+     * Return a bounding box in world space coordinates that covers both poles
+     */
+    getBounds(): Rect | null {
+        const image = this.imageManager.getImageSize(this.imageName);
+
+        if (!image) {
+            return null;
+        }
+
+        return new Rect(
+            this.position.x - this.width / 2 - image.width / 2,
+            this.position.y - image.height / 2,
+            this.position.x + this.width / 2 + image.width / 2,
+            this.position.y + image.height / 2
+        );
+    }
+
+    /**
+     * The skier went between the poles
+     */
+    pass() {
+        this.state = STATES.STATE_PASSED;
+    }
+
+    /**
+     * The skier went past the gate on the wrong side
+     */
+    miss() {
+        this.state = STATES.STATE_MISSED;
+    }
+
+    /**
+     * Draw both poles. Gates never move, so there's nothing to interpolate.
+     */
+    draw() {
+        const image = this.imageManager.getImage(this.imageName);
+
+        if (!image) {
+            return;
+        }
+
+        [this.position.x - this.width / 2, this.position.x + this.width / 2].forEach((poleX: number) => {
+            this.renderer.drawImage(
+                image,
+                poleX - image.width / 2,
+                this.position.y - image.height / 2,
+                image.width,
+                image.height
+            );
+        });
+    }
+
+    /**
+     * Gates can't be destroyed
+     */
+    die() {
+
+    }
+}
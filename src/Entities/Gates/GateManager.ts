@@ -0,0 +1,219 @@
+/**
+ * Manages the slalom course: the gates down it, the finish line at the bottom and the race against the clock. On
+ * generated terrain the course follows a route the terrain is kept clear along, so every gate can be reached, while a
+ * course from the course editor brings its own. The skier works out which gates they passed and missed as they go by,
+ * and the manager listens for the skier finishing to stop the clock.
+ */
+
+import { GAME_EVENTS, IMAGE_NAMES, PIXELS_PER_METRE, STATES } from "../../Constants";
+import { ImageManager } from "../../Core/ImageManager";
+import { RenderQueue } from "../../Core/RenderQueue";
+import { intersectTwoRects, Rect } from "../../Core/Utils";
+import { iCoursePoint } from "../../Interfaces/iCourse";
+import { GameEventBus } from "../../Interfaces/iGameEvents";
+import { iRaceResult } from "../../Interfaces/iRaceResult";
+import { iRenderer } from "../../Interfaces/iRenderer";
+import { iCourseSnapshot } from "../../Interfaces/iSnapshot";
+import { FinishLine } from "./FinishLine";
+import { Gate } from "./Gate";
+
+/**
+ * How long the course is, from the start to the finish line, in metres
+ */
+export const COURSE_LENGTH: number = 1000;
+
+/**
+ * How far down the first gate is, in pixels, giving the skier room to get going
+ */
+const FIRST_GATE_Y: number = 800;
+
+/**
+ * Distance between one gate and the next, in pixels
+ */
+const GATE_SPACING: number = 600;
+
+/**
+ * The distance between the poles of each gate, in pixels
+ */
+export const GATE_WIDTH: number = 100;
+
+/**
+ * Gates are set this far to alternate sides of the course, in pixels, so the skier has to keep turning
+ */
+const GATE_OFFSET: number = 30;
+
+/**
+ * Time added for each gate missed, in ms
+ */
+const GATE_MISS_PENALTY_MS: number = 5000;
+
+/**
+ * How wide the finish line is drawn, in pixels. Crossing it anywhere counts.
+ */
+export const FINISH_LINE_WIDTH: number = 1280;
+
+/**
+ * Lay a slalom course out down the mountain: a gate every GATE_SPACING to alternate sides of the middle of the
+ * course, and the finish line COURSE_LENGTH down. Course X returns where across the world the middle of the course is
+ * at a height.
+ */
+export function layOutSlalomCourse(
+    getCourseX: (y: number) => number
+): { gates: iCoursePoint[], finishLine: iCoursePoint } {
+    const gates: iCoursePoint[] = [];
+    const finishY: number = COURSE_LENGTH * PIXELS_PER_METRE;
+
+    for (let y = FIRST_GATE_Y, index = 0; y < finishY; y += GATE_SPACING, index++) {
+        const side: number = index % 2 ? 1 : -1;
+
+        gates.push({ x: getCourseX(y) + side * GATE_OFFSET, y });
+    }
+
+    return { gates, finishLine: { x: getCourseX(finishY), y: finishY } };
+}
+
+/**
+ * Return the gate at a place in the course, alternating between red and blue.
+ */
+export function createGate(
+    index: number,
+    position: iCoursePoint,
+    imageManager: ImageManager,
+    renderer: iRenderer
+): Gate {
+    const imageName: IMAGE_NAMES = index % 2 ? IMAGE_NAMES.GATE_BLUE : IMAGE_NAMES.GATE_RED;
+
+    return new Gate(position.x, position.y, GATE_WIDTH, imageManager, renderer, imageName);
+}
+
+export class GateManager {
+    /**
+     * Every gate on the course, in order down the course
+     */
+    gates: Gate[] = [];
+
+    /**
+     * The line across the bottom of the course that stops the clock
+     */
+    finishLine: FinishLine;
+
+    /**
+     * The game time the skier crossed the finish line, or null if they haven't yet
+     */
+    finishTime: number | null = null;
+
+    /**
+     * The time to beat in ms, including penalties, or null if there isn't one
+     */
+    parTime: number | null;
+
+    /**
+     * Set the course up with a gate centered on each of the passed in positions, in order down the course, and the
+     * finish line centered on its position.
+     */
+    constructor(
+        imageManager: ImageManager,
+        renderer: iRenderer,
+        eventBus: GameEventBus,
+        gates: iCoursePoint[],
+        finishLine: iCoursePoint,
+        parTime: number | null = null
+    ) {
+        this.gates = gates.map((gate: iCoursePoint, index: number) => createGate(index, gate, imageManager, renderer));
+        this.finishLine = new FinishLine(finishLine.x, finishLine.y, FINISH_LINE_WIDTH, imageManager, renderer);
+        this.parTime = parTime;
+
+        eventBus.on(GAME_EVENTS.SKIER_FINISHED, (event) => {
+            if (this.finishTime === null) {
+                this.finishTime = event.gameTime;
+            }
+        });
+    }
+
+    /**
+     * Return the gates the skier hasn't gone past yet that lie between two heights, as the skier moves from the first
+     * to the second.
+     */
+    getGatesCrossed(fromY: number, toY: number): Gate[] {
+        return this.gates.filter((gate: Gate) => {
+            return gate.isPending() && gate.getPosition().y > fromY && gate.getPosition().y <= toY;
+        });
+    }
+
+    /**
+     * Return the finish line
+     */
+    getFinishLine(): FinishLine {
+        return this.finishLine;
+    }
+
+    /**
+     * Has the skier crossed the finish line
+     */
+    isFinished(): boolean {
+        return this.finishTime !== null;
+    }
+
+    /**
+     * Return how the race is going at the passed in game time, or how it went if the skier has finished.
+     */
+    getRaceResult(gameTime: number): iRaceResult {
+        const gatesPassed: number = this.countGates(STATES.STATE_PASSED);
+        const gatesMissed: number = this.countGates(STATES.STATE_MISSED);
+        const time: number = this.finishTime === null ? gameTime : this.finishTime;
+        const penalty: number = gatesMissed * GATE_MISS_PENALTY_MS;
+
+        return {
+            time,
+            penalty,
+            totalTime: time + penalty,
+            gatesPassed,
+            gatesMissed,
+            gateCount: this.gates.length,
+            finished: this.isFinished(),
+            parTime: this.parTime,
+        };
+    }
+
+    /**
+     * Return how many gates are in the passed in state
+     */
+    countGates(state: STATES): number {
+        return this.gates.filter((gate: Gate) => gate.state === state).length;
+    }
+
+    /**
+     * Queue the gates and finish line that can be seen in the area of the world on screen to be drawn.
+     */
+    draw(renderQueue: RenderQueue, drawWindow: Rect) {
+        this.gates.forEach((gate: Gate) => {
+            const gateBounds: Rect | null = gate.getBounds();
+
+            if (gateBounds && intersectTwoRects(gateBounds, drawWindow)) {
+                renderQueue.addEntity(gate, 1);
+            }
+        });
+
+        renderQueue.addEntity(this.finishLine, 1);
+    }
+
+    /**
+     * Gates are laid out the same every time, so only how each went and when the skier finished need saving.
+     */
+    createSnapshot(): iCourseSnapshot {
+        return {
+            gateStates: this.gates.map((gate: Gate) => gate.state),
+            finishTime: this.finishTime,
+        };
+    }
+
+    /**
+     * Put each gate and the clock back as they were when the snapshot was taken.
+     */
+    restoreSnapshot(snapshot: iCourseSnapshot) {
+        this.gates.forEach((gate: Gate, index: number) => {
+            gate.state = snapshot.gateStates[index] || null;
+        });
+        this.finishTime = snapshot.finishTime;
+    }
+}
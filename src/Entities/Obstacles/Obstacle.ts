@@ -1,40 +1,61 @@
 /**
- * An obstacle that appears on the mountain. Randomly created as one of the types defined in the OBSTACLE_TYPES array.
+ * An obstacle that appears on the mountain. One of the types in the obstacle type registry, which says what it looks
+ * like and what happens when the skier runs into it.
  */
 
-import { IMAGE_NAMES, STATES } from "../../Constants";
-import { Canvas } from "../../Core/Canvas";
+import { COLLISION_BEHAVIORS, IMAGE_NAMES, OBSTACLE_TYPES, RENDER_LAYERS, STATES } from "../../Constants";
+import { iRenderer } from "../../Interfaces/iRenderer";
 import { ImageManager } from "../../Core/ImageManager";
-import { randomInt } from "../../Core/Utils";
 import { Entity } from "../Entity";
-
-/**
- * The different types of obstacles that can be placed in the game.
- */
-const OBSTACLE_TYPES: IMAGE_NAMES[] = [
-    IMAGE_NAMES.JUMP_RAMP,
-    IMAGE_NAMES.TREE,
-    IMAGE_NAMES.TREE_CLUSTER,
-    IMAGE_NAMES.ROCK1,
-    IMAGE_NAMES.ROCK2
-];
+import { iObstacleSnapshot } from "../../Interfaces/iSnapshot";
+import { OBSTACLE_TYPE_DEFINITIONS } from "./ObstacleTypes";
 
 export class Obstacle extends Entity {
     state: STATES | null = null;
 
+    /**
+     * What type of obstacle this is
+     */
+    type: OBSTACLE_TYPES;
+
     /**
      * The name of the current image being displayed for the obstacle.
      */
     imageName: IMAGE_NAMES;
 
     /**
-     * Initialize an obstacle and make it a random type.
+     * Initialize an obstacle of the passed in type.
+     */
+    constructor(x: number, y: number, imageManager: ImageManager, renderer: iRenderer, type: OBSTACLE_TYPES) {
+        super(x, y, imageManager, renderer);
+
+        this.type = type;
+        this.imageName = OBSTACLE_TYPE_DEFINITIONS[type].image;
+    }
+
+    /**
+     * Return what happens when the skier runs into the obstacle
      */
-    constructor(x: number, y: number, imageManager: ImageManager, canvas: Canvas) {
-        super(x, y, imageManager, canvas);
+    getBehavior(): COLLISION_BEHAVIORS {
+        return OBSTACLE_TYPE_DEFINITIONS[this.type].behavior;
+    }
 
-        const typeIdx = randomInt(0, OBSTACLE_TYPES.length - 1);
-        this.imageName = OBSTACLE_TYPES[typeIdx];
+    /**
+     * Return the layer the obstacle's type is drawn in
+     */
+    getRenderLayer(): RENDER_LAYERS {
+        return OBSTACLE_TYPE_DEFINITIONS[this.type].layer;
+    }
+
+    /**
+     * Obstacles never move or animate, so their position and type are all there is to save.
+     */
+    createObstacleSnapshot(): iObstacleSnapshot {
+        return {
+            x: this.position.x,
+            y: this.position.y,
+            type: this.type,
+        };
     }
 
     /**
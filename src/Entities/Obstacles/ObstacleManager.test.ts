@@ -0,0 +1,120 @@
+import { DIFFICULTIES, IMAGES } from "../../Constants";
+import { DIFFICULTY_PRESETS } from "../../Core/Difficulty";
+import { EventBus } from "../../Core/EventBus";
+import { HeadlessRenderer } from "../../Core/HeadlessRenderer";
+import { ImageManager } from "../../Core/ImageManager";
+import { Rect } from "../../Core/Utils";
+import { Obstacle } from "./Obstacle";
+import { CHUNK_SIZE, ObstacleManager } from "./ObstacleManager";
+import { iGameEvents } from "../../Interfaces/iGameEvents";
+
+/**
+ * Create an obstacle manager generating the world from the passed in seed.
+ */
+function createObstacleManager(seed: number): ObstacleManager {
+    return new ObstacleManager(
+        new ImageManager(IMAGES),
+        new HeadlessRenderer(1280, 720),
+        seed,
+        DIFFICULTY_PRESETS[DIFFICULTIES.NORMAL].curve,
+        new EventBus<iGameEvents>(() => 0)
+    );
+}
+
+/**
+ * Return a game window the size of the viewport, with its top edge at the passed in height on the mountain.
+ */
+function getWindowAt(top: number): Rect {
+    return new Rect(-640, top, 640, top + 720);
+}
+
+/**
+ * Return the key of every chunk the manager has generated.
+ */
+function getChunkKeys(obstacleManager: ObstacleManager): string[] {
+    return Object.keys(obstacleManager.chunks);
+}
+
+describe('ObstacleManager', () => {
+    test('generates the chunks around the game window', () => {
+        const obstacleManager: ObstacleManager = createObstacleManager(1);
+        obstacleManager.update(getWindowAt(0));
+
+        // The window plus the load distance reaches into the chunks either side and above and below it
+        expect(getChunkKeys(obstacleManager).sort()).toEqual([
+            '-2,-1', '-2,0', '-2,1',
+            '-1,-1', '-1,0', '-1,1',
+            '0,-1', '0,0', '0,1',
+            '1,-1', '1,0', '1,1',
+        ].sort());
+        expect(obstacleManager.getObstacles().length).toBeGreaterThan(0);
+    });
+
+    test('drops the chunks the game window has left far behind', () => {
+        const obstacleManager: ObstacleManager = createObstacleManager(1);
+        obstacleManager.update(getWindowAt(0));
+        obstacleManager.update(getWindowAt(10 * CHUNK_SIZE));
+
+        expect(getChunkKeys(obstacleManager)).not.toContain('0,0');
+        obstacleManager.getObstacles().forEach((obstacle: Obstacle) => {
+            expect(obstacle.getPosition().y).toBeGreaterThan(5 * CHUNK_SIZE);
+        });
+    });
+
+    test('generates a dropped chunk again exactly as it was', () => {
+        const obstacleManager: ObstacleManager = createObstacleManager(1);
+        obstacleManager.update(getWindowAt(0));
+        const before = obstacleManager.createSnapshot().find((chunk) => chunk.x === 0 && chunk.y === 0);
+
+        obstacleManager.update(getWindowAt(10 * CHUNK_SIZE));
+        obstacleManager.update(getWindowAt(0));
+        const after = obstacleManager.createSnapshot().find((chunk) => chunk.x === 0 && chunk.y === 0);
+
+        expect(after).toEqual(before);
+    });
+
+    test('finds obstacles near an area through the spatial hash', () => {
+        const obstacleManager: ObstacleManager = createObstacleManager(1);
+        obstacleManager.update(getWindowAt(0));
+        const obstacle: Obstacle = obstacleManager.getObstacles()[0];
+        const position = obstacle.getPosition();
+
+        const near: Obstacle[] = obstacleManager.getObstaclesNear(
+            new Rect(position.x, position.y, position.x, position.y)
+        );
+        const far: Obstacle[] = obstacleManager.getObstaclesNear(new Rect(
+            position.x + 2000,
+            position.y + 2000,
+            position.x + 2001,
+            position.y + 2001
+        ));
+
+        expect(near).toContain(obstacle);
+        expect(far).not.toContain(obstacle);
+    });
+
+    test('leaves a removed obstacle out when its chunk is generated again, until the chunk is far away', () => {
+        const obstacleManager: ObstacleManager = createObstacleManager(1);
+        obstacleManager.update(getWindowAt(0));
+        const obstacle: Obstacle = obstacleManager.getObstacles()[0];
+        const { x, y } = obstacle.getPosition();
+        const isPlaced = () => obstacleManager.getObstacles().some((other: Obstacle) => {
+            return other.getPosition().x === x && other.getPosition().y === y;
+        });
+
+        obstacleManager.removeObstacle(obstacle);
+        expect(isPlaced()).toBe(false);
+        expect(obstacleManager.createRemovedSnapshot()).toEqual([obstacle.createObstacleSnapshot()]);
+
+        // Far enough for the chunk to be dropped, but not for the removal to be forgotten
+        obstacleManager.update(getWindowAt(y + 2000));
+        obstacleManager.update(getWindowAt(0));
+        expect(isPlaced()).toBe(false);
+
+        // Far enough for the removal to be forgotten too
+        obstacleManager.update(getWindowAt(y + 3300));
+        expect(obstacleManager.createRemovedSnapshot()).toEqual([]);
+        obstacleManager.update(getWindowAt(0));
+        expect(isPlaced()).toBe(true);
+    });
+});
@@ -1,38 +1,77 @@
 /**
- * Manages all of the obstacles that exist in the game world. It sets the initial world up with a random placement of
- * obstacles, places new obstacles as the skier moves throughout the world and displays them all to the screen.
+ * Manages all of the obstacles that exist in the game world. The world is split into square chunks, which are
+ * generated as the game window gets near them and dropped again once it's left them far behind, so only the part of
+ * the world around the skier is ever kept. The TerrainGenerator decides what goes in each chunk, and generates each
+ * one from its own seed, so a dropped chunk comes back exactly the same if the skier returns to it, less any obstacles
+ * that were taken off the mountain. Obstacles are also filed in a spatial hash, so collision checks only have to look
+ * at the obstacles nearby.
+ *
+ * When playing on a course built in the course editor, each chunk gets the course's obstacles that fall in it instead
+ * of generated ones.
  */
 
-import { GAME_WIDTH, GAME_HEIGHT } from '../../Constants';
-import { Canvas } from "../../Core/Canvas";
+import { iRenderer } from "../../Interfaces/iRenderer";
 import { ImageManager } from "../../Core/ImageManager";
-import { Position, randomInt, Rect} from '../../Core/Utils';
+import { GAME_EVENTS, PIXELS_PER_METRE } from "../../Constants";
+import { getDifficultyLevel } from "../../Core/Difficulty";
+import { RenderQueue } from "../../Core/RenderQueue";
+import { SpatialHash } from "../../Core/SpatialHash";
+import { intersectTwoRects, Position, Rect } from '../../Core/Utils';
 import { Obstacle } from "./Obstacle";
+import { iChunkSnapshot, iObstacleSnapshot } from "../../Interfaces/iSnapshot";
+import { iCourse } from "../../Interfaces/iCourse";
+import { GameEventBus } from "../../Interfaces/iGameEvents";
+import { iDifficultyCurvePoint, iDifficultyLevel } from "../../Interfaces/iDifficulty";
+import { iObstaclePlacement } from "../../Interfaces/iTerrain";
+import { TerrainGenerator } from "../../World/TerrainGenerator";
 
 /**
- * Ensures that obstacles aren't too close together
+ * The width and height of each chunk of the world, in pixels. Must be a whole number of terrain patterns across.
  */
-const DISTANCE_BETWEEN_OBSTACLES: number = 50;
+export const CHUNK_SIZE: number = 640;
 
 /**
- * Distance away from the starting position to place obstacles so the player has some initial room to move
+ * Chunks are generated once they're this close to the game window, so obstacles are placed offscreen and the player
+ * doesn't see them pop in...
  */
-const STARTING_OBSTACLE_GAP: number = 1000;
+const CHUNK_LOAD_DISTANCE: number = 320;
 
 /**
- * The number of starting obstacles is based upon game size, so that difficulty stays the same regardless of screen size.
- * This works to configure the starting number of obstacles.
+ * ...and dropped once they're this far away. Keeping chunks a little further out than they're generated means
+ * skiing back and forth over a chunk's edge doesn't keep generating and dropping it.
  */
-const STARTING_OBSTACLE_REDUCER: number = 300;
+const CHUNK_UNLOAD_DISTANCE: number = 1280;
 
 /**
- * The chance that a new obstacle will be placed as the skier is moving. A lower number increases the chances.
+ * Obstacles taken off the mountain are remembered until their chunk is this far away, well past where it's dropped, so
+ * they stay gone if the skier comes back for them without the record growing for the whole run.
  */
-const NEW_OBSTACLE_CHANCE: number = 8;
+const REMOVED_OBSTACLE_FORGET_DISTANCE: number = CHUNK_UNLOAD_DISTANCE * 2;
+
+/**
+ * The width and height of the spatial hash's cells. Chunks are split into a whole number of cells, so each cell only
+ * ever holds obstacles from one chunk.
+ */
+const SPATIAL_HASH_CELL_SIZE: number = 160;
+
+/**
+ * Obstacles are filed in the spatial hash by their position, but stretch out around it. Areas are widened by this
+ * much when looking for obstacles in them, which must be at least the size of the largest obstacle.
+ */
+const OBSTACLE_QUERY_MARGIN: number = 100;
+
+/**
+ * A chunk of the world that's been generated, and the obstacles in it
+ */
+interface iChunk {
+    x: number;
+    y: number;
+    obstacles: Obstacle[];
+}
 
 export class ObstacleManager {
     /**
-     * All obstacles that exist in the game
+     * All obstacles in the chunks that have been generated
      */
     obstacles: Obstacle[] = [];
 
@@ -42,16 +81,64 @@ export class ObstacleManager {
     imageManager: ImageManager;
 
     /**
-     * Stored reference to the Canvas obstacles are drawn to
+     * Stored reference to the renderer obstacles are drawn to. Its size is the size of the viewport.
+     */
+    renderer: iRenderer;
+
+    /**
+     * Decides what goes in each chunk, from the world's seed so a seed reproduces the same layout
+     */
+    terrainGenerator: TerrainGenerator;
+
+    /**
+     * The curve the game gets harder along. Each chunk is as hard as the curve says it should be at its distance down
+     * the mountain.
+     */
+    difficultyCurve: iDifficultyCurvePoint[];
+
+    /**
+     * The course being played on, or null when the terrain is generated
+     */
+    course: iCourse | null;
+
+    /**
+     * The event bus newly placed obstacles are announced on
+     */
+    eventBus: GameEventBus;
+
+    /**
+     * The chunks that have been generated, keyed by their column and row, in the order they were generated
      */
-    canvas: Canvas;
+    chunks: Record<string, iChunk> = {};
+
+    /**
+     * Every obstacle in the generated chunks, filed by where it is
+     */
+    spatialHash: SpatialHash<Obstacle> = new SpatialHash<Obstacle>(SPATIAL_HASH_CELL_SIZE);
+
+    /**
+     * The obstacles that have been taken off the mountain, such as collectibles that were picked up, keyed by the
+     * column and row of their chunk, so they're left out if their chunk is generated again
+     */
+    removedObstacles: Record<string, iObstacleSnapshot[]> = {};
 
     /**
      * Init the Obstacle Manager.
      */
-    constructor(imageManager: ImageManager, canvas: Canvas) {
+    constructor(
+        imageManager: ImageManager,
+        renderer: iRenderer,
+        seed: number,
+        difficultyCurve: iDifficultyCurvePoint[],
+        eventBus: GameEventBus,
+        course: iCourse | null = null
+    ) {
         this.imageManager = imageManager;
-        this.canvas = canvas;
+        this.renderer = renderer;
+        this.terrainGenerator = new TerrainGenerator(seed);
+        this.difficultyCurve = difficultyCurve;
+        this.eventBus = eventBus;
+        this.course = course;
     }
 
     getObstacles(): Obstacle[] {
@@ -59,135 +146,265 @@ export class ObstacleManager {
     }
 
     /**
-     * Loop through and draw all obstacles
+     * Return the obstacles that might overlap the area. Some may be just outside it, so check their bounds for an
+     * exact answer.
      */
-    drawObstacles() {
-        this.obstacles.forEach((obstacle: Obstacle) => {
-            obstacle.draw();
+    getObstaclesNear(area: Rect): Obstacle[] {
+        return this.spatialHash.query(new Rect(
+            area.left - OBSTACLE_QUERY_MARGIN,
+            area.top - OBSTACLE_QUERY_MARGIN,
+            area.right + OBSTACLE_QUERY_MARGIN,
+            area.bottom + OBSTACLE_QUERY_MARGIN
+        ));
+    }
+
+    /**
+     * Return where across the world a column's route is at a point down the mountain. The terrain is always kept clear
+     * along it.
+     */
+    getRouteX(column: number, y: number): number {
+        return this.terrainGenerator.getRouteX(column, y);
+    }
+
+    /**
+     * Return a snapshot of every generated chunk and the obstacles in it.
+     */
+    createSnapshot(): iChunkSnapshot[] {
+        return Object.keys(this.chunks).map((key: string): iChunkSnapshot => {
+            const chunk: iChunk = this.chunks[key];
+
+            return {
+                x: chunk.x,
+                y: chunk.y,
+                obstacles: chunk.obstacles.map((obstacle: Obstacle) => obstacle.createObstacleSnapshot()),
+            };
         });
     }
 
     /**
-     * Place initial obstacles. Mimics the original SkiFree game in that obstacles are only initially placed below the
-     * skier.
+     * Return a snapshot of every obstacle that's been taken off the mountain.
      */
-    placeInitialObstacles() {
-        const numberObstacles = Math.ceil((GAME_WIDTH / STARTING_OBSTACLE_REDUCER) * (GAME_HEIGHT / STARTING_OBSTACLE_REDUCER));
+    createRemovedSnapshot(): iObstacleSnapshot[] {
+        const removedObstacles: iObstacleSnapshot[] = [];
+        Object.keys(this.removedObstacles).forEach((key: string) => {
+            this.removedObstacles[key].forEach((obstacle: iObstacleSnapshot) => removedObstacles.push({ ...obstacle }));
+        });
 
-        const placementArea = new Rect(
-            -GAME_WIDTH / 2,
-            STARTING_OBSTACLE_GAP,
-            GAME_WIDTH / 2,
-            GAME_HEIGHT / 2
-        );
+        return removedObstacles;
+    }
 
-        for(let i = 0; i < numberObstacles; i++) {
-            this.placeRandomObstacle(placementArea);
-        }
+    /**
+     * Replace every chunk in the game with the ones from the snapshot, and the record of obstacles that have been
+     * taken off the mountain.
+     */
+    restoreSnapshot(snapshot: iChunkSnapshot[], removedObstacles: iObstacleSnapshot[]) {
+        this.chunks = {};
+        this.obstacles = [];
+        this.spatialHash.clear();
+        this.removedObstacles = {};
+        removedObstacles.forEach((obstacle: iObstacleSnapshot) => this.recordRemoved({ ...obstacle }));
+
+        snapshot.forEach((chunkSnapshot: iChunkSnapshot) => {
+            const chunk: iChunk = this.addChunk(chunkSnapshot.x, chunkSnapshot.y);
 
-        this.obstacles.sort((obstacle1: Obstacle, obstacle2: Obstacle) => {
-            return obstacle1.getPosition().y - obstacle2.getPosition().y;
+            chunkSnapshot.obstacles.forEach((obstacle: iObstacleSnapshot) => {
+                this.addObstacle(
+                    chunk,
+                    new Obstacle(obstacle.x, obstacle.y, this.imageManager, this.renderer, obstacle.type)
+                );
+            });
         });
     }
 
     /**
-     * Place a new obstacle while the game is running. If the game window has moved, we want to figure out which direction(s)
-     * it has moved in and try to place a new obstacle offscreen (so player doesn't see it pop in) in that direction(s).
+     * Queue the obstacles that can be seen in the area of the world on screen to be drawn
      */
-    placeNewObstacle(gameWindow: Rect, previousGameWindow: Rect) {
-        const shouldPlaceObstacle = randomInt(1, NEW_OBSTACLE_CHANCE);
-        if(shouldPlaceObstacle !== NEW_OBSTACLE_CHANCE) {
-            return;
-        }
+    drawObstacles(renderQueue: RenderQueue, drawWindow: Rect) {
+        this.getObstaclesNear(drawWindow).forEach((obstacle: Obstacle) => {
+            renderQueue.addEntity(obstacle, 1);
+        });
+    }
 
-        if(gameWindow.left < previousGameWindow.left) {
-            this.placeObstacleLeft(gameWindow);
-        }
-        else if(gameWindow.left > previousGameWindow.left) {
-            this.placeObstacleRight(gameWindow);
-        }
+    /**
+     * Generate the chunks the game window is getting close to, and drop the ones it's left far behind, forgetting the
+     * obstacles taken out of chunks even further behind.
+     */
+    update(gameWindow: Rect) {
+        const keepArea: Rect = expandRect(gameWindow, CHUNK_UNLOAD_DISTANCE);
+        Object.keys(this.chunks).forEach((key: string) => {
+            const chunk: iChunk = this.chunks[key];
 
-        if(gameWindow.top < previousGameWindow.top) {
-            this.placeObstacleTop(gameWindow);
-        }
-        else if(gameWindow.top > previousGameWindow.top) {
-            this.placeObstacleBottom(gameWindow);
+            if (!intersectTwoRects(getChunkArea(chunk.x, chunk.y), keepArea)) {
+                this.removeChunk(key);
+            }
+        });
+
+        const rememberArea: Rect = expandRect(gameWindow, REMOVED_OBSTACLE_FORGET_DISTANCE);
+        Object.keys(this.removedObstacles).forEach((key: string) => {
+            const obstacle: iObstacleSnapshot = this.removedObstacles[key][0];
+            const chunkArea: Rect = getChunkArea(getChunkCoordinate(obstacle.x), getChunkCoordinate(obstacle.y));
+
+            if (!intersectTwoRects(chunkArea, rememberArea)) {
+                delete this.removedObstacles[key];
+            }
+        });
+
+        const loadArea: Rect = expandRect(gameWindow, CHUNK_LOAD_DISTANCE);
+        const left: number = getChunkCoordinate(loadArea.left);
+        const right: number = getChunkCoordinate(loadArea.right);
+        const top: number = getChunkCoordinate(loadArea.top);
+        const bottom: number = getChunkCoordinate(loadArea.bottom);
+
+        for (let y = top; y <= bottom; y++) {
+            for (let x = left; x <= right; x++) {
+                if (!this.chunks[getChunkKey(x, y)]) {
+                    this.generateChunk(x, y);
+                }
+            }
         }
-    };
+    }
 
     /**
-     * Place an obstacle to the left of the game window
+     * Generate a chunk and place its obstacles.
      */
-    placeObstacleLeft(gameWindow: Rect) {
-        const placementArea = new Rect(gameWindow.left, gameWindow.top, gameWindow.left, gameWindow.bottom);
-        this.placeRandomObstacle(placementArea);
+    generateChunk(x: number, y: number) {
+        const chunk: iChunk = this.addChunk(x, y);
+
+        this.getChunkPlacements(x, y).forEach((placement: iObstaclePlacement) => {
+            if (this.wasRemoved(placement)) {
+                return;
+            }
+
+            const newObstacle = new Obstacle(
+                placement.x,
+                placement.y,
+                this.imageManager,
+                this.renderer,
+                placement.type
+            );
+
+            this.addObstacle(chunk, newObstacle);
+
+            this.eventBus.emit(GAME_EVENTS.OBSTACLE_PLACED, {
+                position: new Position(placement.x, placement.y),
+                obstacleType: newObstacle.type,
+            });
+        });
     }
 
     /**
-     * Place an obstacle to the right of the game window
+     * Return the obstacles that go in a chunk: the course's obstacles that fall in it when playing on a course,
+     * otherwise generated ones as hard as the difficulty curve says they should be at the chunk's distance down the
+     * mountain.
      */
-    placeObstacleRight(gameWindow: Rect) {
-        const placementArea = new Rect(gameWindow.right, gameWindow.top, gameWindow.right, gameWindow.bottom);
-        this.placeRandomObstacle(placementArea);
+    getChunkPlacements(x: number, y: number): iObstaclePlacement[] {
+        if (this.course) {
+            return this.course.obstacles.filter((placement: iObstaclePlacement) => {
+                return getChunkCoordinate(placement.x) === x && getChunkCoordinate(placement.y) === y;
+            });
+        }
+
+        const chunkArea: Rect = getChunkArea(x, y);
+        const level: iDifficultyLevel = getDifficultyLevel(this.difficultyCurve, chunkArea.top / PIXELS_PER_METRE);
+
+        return this.terrainGenerator.generateChunk(x, y, chunkArea, level);
     }
 
     /**
-     * Place an obstacle above the game window
+     * Start keeping a new, empty chunk.
      */
-    placeObstacleTop(gameWindow: Rect) {
-        const placementArea = new Rect(gameWindow.left, gameWindow.top, gameWindow.right, gameWindow.top);
-        this.placeRandomObstacle(placementArea);
+    addChunk(x: number, y: number): iChunk {
+        const chunk: iChunk = { x, y, obstacles: [] };
+        this.chunks[getChunkKey(x, y)] = chunk;
+
+        return chunk;
     }
 
     /**
-     * Place an obstacle below the game window
+     * Add an obstacle to a chunk and file it by where it is.
      */
-    placeObstacleBottom(gameWindow: Rect) {
-        const placementArea = new Rect(gameWindow.left, gameWindow.bottom, gameWindow.right, gameWindow.bottom);
-        this.placeRandomObstacle(placementArea);
+    addObstacle(chunk: iChunk, obstacle: Obstacle) {
+        chunk.obstacles.push(obstacle);
+        this.obstacles.push(obstacle);
+        this.spatialHash.insert(obstacle, obstacle.getPosition());
     }
 
     /**
-     * Place a random obstacle somewhere within the placement area. Obstacles are distanced from each other rather than
-     * right on top of one another, so an open space must be calculated.
+     * Take an obstacle off the mountain for good.
      */
-    placeRandomObstacle(placementArea: Rect) {
-        let position: Position | null;
-
-        do {
-            position = this.calculateOpenPosition(placementArea);
-        } while(!position);
+    removeObstacle(obstacle: Obstacle) {
+        const chunk: iChunk | undefined = this.chunks[getChunkKey(
+            getChunkCoordinate(obstacle.getPosition().x),
+            getChunkCoordinate(obstacle.getPosition().y)
+        )];
 
-        const newObstacle = new Obstacle(position.x, position.y, this.imageManager, this.canvas);
+        if (chunk) {
+            chunk.obstacles = chunk.obstacles.filter((chunkObstacle: Obstacle) => chunkObstacle !== obstacle);
+        }
+        this.obstacles = this.obstacles.filter((otherObstacle: Obstacle) => otherObstacle !== obstacle);
+        this.spatialHash.remove(obstacle, obstacle.getPosition());
 
-        this.obstacles.push(newObstacle);
+        this.recordRemoved(obstacle.createObstacleSnapshot());
     }
 
     /**
-     * Find a position within the passed in area to place an obstacle, ensuring that the obstacle is
-     * DISTANCE_BETWEEN_OBSTACLES distance away from any other obstacle. If the calculated position doesn't meet that
-     * criteria, return null.
+     * Remember that an obstacle was taken off the mountain, under its chunk.
      */
-    calculateOpenPosition(placementArea: Rect): Position | null {
-        const placementX = randomInt(placementArea.left, placementArea.right);
-        const placementY = randomInt(placementArea.top, placementArea.bottom);
+    recordRemoved(obstacle: iObstacleSnapshot) {
+        const key: string = getChunkKey(getChunkCoordinate(obstacle.x), getChunkCoordinate(obstacle.y));
 
-        const foundCollision = this.obstacles.find((obstacle: Obstacle) => {
-            const obstacleX = obstacle.getPosition().x;
-            const obstacleY = obstacle.getPosition().y;
+        if (!this.removedObstacles[key]) {
+            this.removedObstacles[key] = [];
+        }
 
-            return (
-                placementX > (obstacleX - DISTANCE_BETWEEN_OBSTACLES) &&
-                placementX < (obstacleX + DISTANCE_BETWEEN_OBSTACLES) &&
-                placementY > (obstacleY - DISTANCE_BETWEEN_OBSTACLES) &&
-                placementY < (obstacleY + DISTANCE_BETWEEN_OBSTACLES)
-            );
+        this.removedObstacles[key].push(obstacle);
+    }
+
+    /**
+     * Was an obstacle like the passed in one taken off the mountain before its chunk was last dropped.
+     */
+    wasRemoved(placement: iObstaclePlacement): boolean {
+        const key: string = getChunkKey(getChunkCoordinate(placement.x), getChunkCoordinate(placement.y));
+        const removedObstacles: iObstacleSnapshot[] = this.removedObstacles[key] || [];
+
+        return removedObstacles.some((removed: iObstacleSnapshot) => {
+            return removed.x === placement.x && removed.y === placement.y && removed.type === placement.type;
         });
+    }
 
-        if (foundCollision) {
-            return null;
-        }
-        
-        return new Position(placementX, placementY);
+    /**
+     * Drop a chunk and all of its obstacles.
+     */
+    removeChunk(key: string) {
+        const chunk: iChunk = this.chunks[key];
+        delete this.chunks[key];
+
+        chunk.obstacles.forEach((obstacle: Obstacle) => this.spatialHash.remove(obstacle, obstacle.getPosition()));
+        this.obstacles = this.obstacles.filter((obstacle: Obstacle) => chunk.obstacles.indexOf(obstacle) === -1);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Return the column or row of the chunk a world coordinate falls in.
+ */
+function getChunkCoordinate(coordinate: number): number {
+    return Math.floor(coordinate / CHUNK_SIZE);
+}
+
+function getChunkKey(x: number, y: number): string {
+    return `${x},${y}`;
+}
+
+/**
+ * Return the area of the world a chunk covers.
+ */
+function getChunkArea(x: number, y: number): Rect {
+    return new Rect(x * CHUNK_SIZE, y * CHUNK_SIZE, (x + 1) * CHUNK_SIZE, (y + 1) * CHUNK_SIZE);
+}
+
+/**
+ * Return a copy of the rectangle grown by the distance on every side.
+ */
+function expandRect(rect: Rect, distance: number): Rect {
+    return new Rect(rect.left - distance, rect.top - distance, rect.right + distance, rect.bottom + distance);
+}
@@ -0,0 +1,78 @@
+/**
+ * The obstacle type registry: every type of obstacle that can be placed on the mountain, the image it's drawn with and
+ * in which layer, how often it turns up among the random obstacles scattered around and what happens when the skier
+ * runs into it. Adding a type of obstacle only needs an entry here, an image and, if the image isn't all solid,
+ * collision shapes.
+ */
+
+import { COLLISION_BEHAVIORS, IMAGE_NAMES, OBSTACLE_TYPES, RENDER_LAYERS } from "../../Constants";
+import { Random } from "../../Core/Random";
+import { iObstacleType } from "../../Interfaces/iObstacleType";
+
+export const OBSTACLE_TYPE_DEFINITIONS: Record<OBSTACLE_TYPES, iObstacleType> = {
+    [OBSTACLE_TYPES.JUMP_RAMP]: {
+        image: IMAGE_NAMES.JUMP_RAMP,
+        spawnWeight: 1,
+        behavior: COLLISION_BEHAVIORS.LAUNCH,
+        layer: RENDER_LAYERS.GROUND,
+    },
+    [OBSTACLE_TYPES.TREE]: {
+        image: IMAGE_NAMES.TREE,
+        spawnWeight: 1,
+        behavior: COLLISION_BEHAVIORS.CRASH,
+        layer: RENDER_LAYERS.ENTITIES,
+    },
+
+    // How often tree clusters turn up also depends on the difficulty
+    [OBSTACLE_TYPES.TREE_CLUSTER]: {
+        image: IMAGE_NAMES.TREE_CLUSTER,
+        spawnWeight: 1,
+        behavior: COLLISION_BEHAVIORS.CRASH,
+        layer: RENDER_LAYERS.ENTITIES,
+    },
+    [OBSTACLE_TYPES.ROCK1]: {
+        image: IMAGE_NAMES.ROCK1,
+        spawnWeight: 1,
+        behavior: COLLISION_BEHAVIORS.JUMPABLE,
+        layer: RENDER_LAYERS.ENTITIES,
+    },
+    [OBSTACLE_TYPES.ROCK2]: {
+        image: IMAGE_NAMES.ROCK2,
+        spawnWeight: 1,
+        behavior: COLLISION_BEHAVIORS.JUMPABLE,
+        layer: RENDER_LAYERS.ENTITIES,
+    },
+};
+
+const OBSTACLE_TYPE_VALUES: OBSTACLE_TYPES[] = Object.values(OBSTACLE_TYPES);
+
+/**
+ * Is the passed in value the name of an obstacle type.
+ */
+export function isObstacleType(value: unknown): value is OBSTACLE_TYPES {
+    return OBSTACLE_TYPE_VALUES.indexOf(value as OBSTACLE_TYPES) !== -1;
+}
+
+/**
+ * Pick a random type of obstacle by its spawn weight, drawn from the world's random number generator. Tree clusters'
+ * weight is also multiplied by the passed in weight from the difficulty.
+ */
+export function randomObstacleType(random: Random, treeClusterWeight: number = 1): OBSTACLE_TYPES {
+    const getWeight = (type: OBSTACLE_TYPES): number => {
+        const weight: number = OBSTACLE_TYPE_DEFINITIONS[type].spawnWeight;
+
+        return type === OBSTACLE_TYPES.TREE_CLUSTER ? weight * treeClusterWeight : weight;
+    };
+    const types: OBSTACLE_TYPES[] = OBSTACLE_TYPE_VALUES.filter((type: OBSTACLE_TYPES) => getWeight(type) > 0);
+    const totalWeight: number = types.reduce((total: number, type: OBSTACLE_TYPES) => total + getWeight(type), 0);
+
+    let pick: number = random.next() * totalWeight;
+    for (let i = 0; i < types.length - 1; i++) {
+        pick -= getWeight(types[i]);
+        if (pick < 0) {
+            return types[i];
+        }
+    }
+
+    return types[types.length - 1];
+}
@@ -1,37 +1,68 @@
 /**
- * The rhino chases after a target and eats the target when they come in contact with one another. Also has a few
+ * The rhino waits until the skier has made it some way down the mountain, then appears from off the top of the screen
+ * and chases after them, eating them when they come in contact with one another. It steers around obstacles rather
+ * than running through them, lunges when it gets close and tires out if the chase goes on too long. Also has a few
  * different animations that it cycles between depending upon the rhino's state.
  */
 
-import { ANIMATION_FRAME_SPEED_MS_RHINO, IMAGE_NAMES, STATES } from "../Constants";
+import { ANIMATION_EVENTS, ANIMATIONS, GAME_EVENTS, IMAGE_NAMES, PIXELS_PER_METRE, STATES } from "../Constants";
 import { Entity } from "./Entity";
-import { Animation } from "../Core/Animation";
-import { Canvas } from "../Core/Canvas";
+import { Obstacle } from "./Obstacles/Obstacle";
+import { ObstacleManager } from "./Obstacles/ObstacleManager";
+import { iRenderer } from "../Interfaces/iRenderer";
 import { ImageManager } from "../Core/ImageManager";
-import { intersectTwoRects, getDirectionVector } from "../Core/Utils";
+import { Random } from "../Core/Random";
+import { getDirectionVector, Position, Rect } from "../Core/Utils";
+import { iRhinoSnapshot } from "../Interfaces/iSnapshot";
+import { GameEventBus } from "../Interfaces/iGameEvents";
+import { iRhinoConfig } from "../Interfaces/iRhinoConfig";
+import { iCollisionShape } from "../Interfaces/iCollisionShape";
 
 /**
- * The rhino starts running at this speed. Saved in case speed needs to be reset at any point.
+ * How the rhino behaves unless told otherwise. It tires out after half a minute or so of chasing.
  */
-export const STARTING_SPEED: number = 5;
+export const DEFAULT_RHINO_CONFIG: iRhinoConfig = {
+    appearDistance: 200,
+    appearTime: 20000,
+    lungeRange: 200,
+    lungeSpeedMultiplier: 1.75,
+    lungeDuration: 500,
+    lungeCooldown: 2500,
+    lungeStaminaCost: 0.15,
+    chaseStaminaDrain: 0.03,
+    staminaRecovery: 0.25,
+    tiredSpeedMultiplier: 0.6,
+    avoidanceDistance: 150,
+};
 
 /**
- * Sequences of images that comprise the animations for the different states of the rhino.
+ * How far above the top of the game window the rhino appears, in pixels, so it's never seen popping into existence
  */
-const IMAGES_RUNNING: IMAGE_NAMES[] = [
-    IMAGE_NAMES.RHINO_RUN1,
-    IMAGE_NAMES.RHINO_RUN2
-];
-const IMAGES_EATING: IMAGE_NAMES[] = [
-    IMAGE_NAMES.RHINO_EAT1,
-    IMAGE_NAMES.RHINO_EAT2,
-    IMAGE_NAMES.RHINO_EAT3,
-    IMAGE_NAMES.RHINO_EAT4
-];
-const IMAGES_CELEBRATING: IMAGE_NAMES[] = [
-    IMAGE_NAMES.RHINO_CELEBRATE1,
-    IMAGE_NAMES.RHINO_CELEBRATE2
-];
+const APPEAR_MARGIN: number = 100;
+
+/**
+ * How strongly the rhino steers away from obstacles compared to heading for its target
+ */
+const AVOIDANCE_WEIGHT: number = 4;
+
+/**
+ * Extra room, in pixels, the rhino tries to leave between itself and obstacles it passes
+ */
+const AVOIDANCE_MARGIN: number = 10;
+
+/**
+ * The running animation plays this many times faster while lunging
+ */
+const LUNGE_ANIMATION_SPEEDUP: number = 2;
+
+/**
+ * The animation the rhino plays in each of its states
+ */
+const STATE_ANIMATIONS: Partial<Record<STATES, ANIMATIONS>> = {
+    [STATES.STATE_RUNNING]: ANIMATIONS.RHINO_RUN,
+    [STATES.STATE_EATING]: ANIMATIONS.RHINO_EAT,
+    [STATES.STATE_CELEBRATING]: ANIMATIONS.RHINO_CELEBRATE,
+};
 
 export class Rhino extends Entity {
     /**
@@ -40,52 +71,127 @@ export class Rhino extends Entity {
     imageName: IMAGE_NAMES = IMAGE_NAMES.RHINO;
 
     /**
-     * What state the rhino is currently in.
+     * What state the rhino is currently in. It waits out of the game world until it's time to appear.
+     */
+    state: STATES = STATES.STATE_WAITING;
+
+    /**
+     * How fast the rhino normally moves in the game world, in pixels per second. Lunging and being tired change how
+     * fast it actually moves. Set from the difficulty as the game goes on.
+     */
+    speed: number = 0;
+
+    /**
+     * How much the rhino has left in it, from 1 when fresh down to 0 when tired out
      */
-    state: STATES = STATES.STATE_RUNNING;
+    stamina: number = 1;
 
     /**
-     * How fast the rhino is currently moving in the game world.
+     * Has the rhino tired out. It slows down until its stamina is back to full.
      */
-    speed: number = STARTING_SPEED;
+    tired: boolean = false;
 
     /**
-     * Initialize the rhino, get the animations setup and set the starting animation which will be based upon the
-     * starting state.
+     * Game time the current lunge ends. The rhino is lunging until then.
      */
-    constructor(x: number, y: number, imageManager: ImageManager, canvas: Canvas) {
-        super(x, y, imageManager, canvas);
-        this.setupAnimations();
-        this.setAnimation();
+    lungeEndTime: number = 0;
+
+    /**
+     * Game time the rhino can next lunge
+     */
+    nextLungeTime: number = 0;
+
+    /**
+     * The obstacles the rhino steers around
+     */
+    obstacleManager: ObstacleManager;
+
+    /**
+     * Decides where the rhino appears
+     */
+    random: Random;
+
+    /**
+     * The event bus the rhino's chase is announced on
+     */
+    eventBus: GameEventBus;
+
+    /**
+     * When the rhino appears and how hard it chases
+     */
+    config: iRhinoConfig;
+
+    /**
+     * Initialize the rhino. It waits without animating until it appears.
+     */
+    constructor(
+        x: number,
+        y: number,
+        imageManager: ImageManager,
+        obstacleManager: ObstacleManager,
+        renderer: iRenderer,
+        random: Random,
+        eventBus: GameEventBus,
+        config: iRhinoConfig = DEFAULT_RHINO_CONFIG
+    ) {
+        super(x, y, imageManager, renderer);
+        this.obstacleManager = obstacleManager;
+        this.random = random;
+        this.eventBus = eventBus;
+        this.config = config;
     }
 
     /**
-     * Create and store the animations.
+     * Return a snapshot of the rhino, including how fast it's going and how far through the chase it is.
      */
-    setupAnimations() {
-        this.animations[STATES.STATE_RUNNING] = new Animation(
-            IMAGES_RUNNING,
-            true
-        );
+    createSnapshot(): iRhinoSnapshot {
+        return {
+            ...super.createSnapshot(),
+            speed: this.speed,
+            stamina: this.stamina,
+            tired: this.tired,
+            lungeEndTime: this.lungeEndTime,
+            nextLungeTime: this.nextLungeTime,
+        };
+    }
 
-        this.animations[STATES.STATE_EATING] = new Animation(
-            IMAGES_EATING,
-            false,
-            this.celebrate.bind(this)
-        );
+    /**
+     * Put the rhino back exactly as it was when the snapshot was taken.
+     */
+    restoreSnapshot(snapshot: iRhinoSnapshot) {
+        super.restoreSnapshot(snapshot);
 
-        this.animations[STATES.STATE_CELEBRATING] = new Animation(
-            IMAGES_CELEBRATING,
-            true
-        );
+        this.speed = snapshot.speed;
+        this.stamina = snapshot.stamina;
+        this.tired = snapshot.tired;
+        this.lungeEndTime = snapshot.lungeEndTime;
+        this.nextLungeTime = snapshot.nextLungeTime;
     }
 
     /**
-     * Set the state and then set a new current animation based upon that state.
+     * Set how fast the rhino normally runs, in pixels per second.
      */
-    setState(newState: STATES) {
+    setSpeed(speed: number) {
+        this.speed = speed;
+    }
+
+    /**
+     * Set the state and then play the animation for that state, starting from the passed in game time.
+     */
+    setState(newState: STATES, gameTime: number) {
         this.state = newState;
-        this.setAnimation();
+
+        const animation: ANIMATIONS | undefined = STATE_ANIMATIONS[newState];
+        if (animation) {
+            this.playAnimation(animation, gameTime);
+        }
+    }
+
+    /**
+     * Is the rhino still waiting to appear.
+     */
+    isWaiting(): boolean {
+        return this.state === STATES.STATE_WAITING;
     }
 
     /**
@@ -96,63 +202,278 @@ export class Rhino extends Entity {
     }
 
     /**
-     * Update the rhino by moving it, seeing if it caught its target and then update the animation if needed. Currently
-     * it only moves if it's running.
+     * Is the rhino in the middle of a lunge.
      */
-    update(gameTime: number, target: Entity) {
+    isLunging(gameTime: number): boolean {
+        return gameTime < this.lungeEndTime;
+    }
+
+    /**
+     * Update the rhino. While waiting it only checks whether it's time to appear. While running it decides whether to
+     * lunge, moves, and sees if it caught its target. Then update the animation if needed. The delta time is the
+     * length of the simulation tick in seconds, and the game window is the area of the world the camera could show.
+     */
+    update(gameTime: number, deltaTime: number, target: Entity, gameWindow: Rect) {
+        if (this.isWaiting()) {
+            if (this.isTimeToAppear(gameTime, target)) {
+                this.appear(gameTime, target, gameWindow);
+            }
+            return;
+        }
+
         if (this.isRunning()) {
-            this.move(target);
-            this.checkIfCaughtTarget(target);
+            this.updateStamina(gameTime, deltaTime, target);
+            this.move(gameTime, deltaTime, target);
+            this.checkIfCaughtTarget(gameTime, target);
+        }
+
+        const animationSpeedup: number = this.isLunging(gameTime) ? LUNGE_ANIMATION_SPEEDUP : 1;
+        this.animate(gameTime, animationSpeedup);
+    }
+
+    /**
+     * The rhino appears once its target has made it far enough down the mountain, or enough time has passed. It waits
+     * where its target started, so the distance is from there.
+     */
+    isTimeToAppear(gameTime: number, target: Entity): boolean {
+        return target.getPosition().y - this.position.y >= this.config.appearDistance * PIXELS_PER_METRE
+            || gameTime >= this.config.appearTime;
+    }
+
+    /**
+     * Bring the rhino into the game world just off the top of the game window, somewhere above its target, and start
+     * the chase. However the camera is zoomed or looking ahead, the rhino turns up out of sight.
+     */
+    appear(gameTime: number, target: Entity, gameWindow: Rect) {
+        const targetPosition: Position = target.getPosition();
+        const halfWidth: number = this.renderer.width / 2;
+
+        this.position.x = targetPosition.x + this.random.randomInt(-halfWidth, halfWidth);
+        this.position.y = gameWindow.top - APPEAR_MARGIN;
+        this.storePreviousPosition();
+
+        this.setState(STATES.STATE_RUNNING, gameTime);
+
+        this.eventBus.emit(GAME_EVENTS.RHINO_APPEARED, {
+            position: new Position(this.position.x, this.position.y),
+        });
+    }
+
+    /**
+     * Wear the rhino out as it chases, and lunge at the target if it's close enough, the last lunge was long enough
+     * ago and the rhino has the stamina for it. Once stamina runs out the rhino is tired until it has fully
+     * recovered.
+     */
+    updateStamina(gameTime: number, deltaTime: number, target: Entity) {
+        if (this.tired) {
+            this.stamina = Math.min(1, this.stamina + this.config.staminaRecovery * deltaTime);
+            this.tired = this.stamina < 1;
+            return;
+        }
+
+        this.stamina -= this.config.chaseStaminaDrain * deltaTime;
+
+        const targetPosition: Position = target.getPosition();
+        const targetDistance: number = Math.hypot(
+            targetPosition.x - this.position.x,
+            targetPosition.y - this.position.y
+        );
+        if (
+            targetDistance <= this.config.lungeRange
+            && gameTime >= this.nextLungeTime
+            && this.stamina >= this.config.lungeStaminaCost
+        ) {
+            this.lunge(gameTime);
+        }
+
+        if (this.stamina <= 0) {
+            this.tire(gameTime);
         }
+    }
+
+    /**
+     * Put on a short burst of speed at the target.
+     */
+    lunge(gameTime: number) {
+        this.stamina -= this.config.lungeStaminaCost;
+        this.lungeEndTime = gameTime + this.config.lungeDuration;
+        this.nextLungeTime = gameTime + this.config.lungeCooldown;
 
-        this.animate(gameTime, ANIMATION_FRAME_SPEED_MS_RHINO);
+        this.eventBus.emit(GAME_EVENTS.RHINO_LUNGED, {
+            position: new Position(this.position.x, this.position.y),
+        });
     }
 
     /**
-     * Move the rhino if it's in the running state. The rhino moves by going directly towards its target, disregarding
-     * any obstacles.
+     * The rhino has run out of stamina, so cut short any lunge and slow down until it recovers.
      */
-    move(target: Entity) {
+    tire(gameTime: number) {
+        this.stamina = 0;
+        this.tired = true;
+        this.lungeEndTime = gameTime;
+
+        this.eventBus.emit(GAME_EVENTS.RHINO_TIRED, {
+            position: new Position(this.position.x, this.position.y),
+        });
+    }
+
+    /**
+     * How fast the rhino is actually moving, in pixels per second, after lunging or being tired is taken into account.
+     */
+    getCurrentSpeed(gameTime: number): number {
+        if (this.tired) {
+            return this.speed * this.config.tiredSpeedMultiplier;
+        }
+
+        return this.isLunging(gameTime) ? this.speed * this.config.lungeSpeedMultiplier : this.speed;
+    }
+
+    /**
+     * Move the rhino if it's in the running state. The rhino heads for its target, steering around any obstacles in
+     * the way.
+     */
+    move(gameTime: number, deltaTime: number, target: Entity) {
         if(!this.isRunning()) {
             return;
         }
 
         const targetPosition = target.getPosition();
-        const moveDirection = getDirectionVector(this.position.x, this.position.y, targetPosition.x, targetPosition.y);
+        const seekDirection = getDirectionVector(this.position.x, this.position.y, targetPosition.x, targetPosition.y);
+        const targetDistance = Math.hypot(targetPosition.x - this.position.x, targetPosition.y - this.position.y);
+        const avoidance = this.getAvoidance(seekDirection, targetDistance);
+        const moveDirection = getDirectionVector(0, 0, seekDirection.x + avoidance.x, seekDirection.y + avoidance.y);
 
-        this.position.x += moveDirection.x * this.speed;
-        this.position.y += moveDirection.y * this.speed;
+        const speed: number = this.getCurrentSpeed(gameTime);
+        this.position.x += moveDirection.x * speed * deltaTime;
+        this.position.y += moveDirection.y * speed * deltaTime;
     }
 
     /**
-     * Does the rhino collide with its target. If so, trigger the target as caught.
+     * Work out how to steer away from the obstacles ahead of the rhino. Each obstacle within the avoidance distance
+     * that's ahead or alongside, no further away than the target and close enough to the rhino's path to hit pushes
+     * the rhino sideways, harder the closer and more head on it is. Returns the sideways push to add to the heading.
      */
-    checkIfCaughtTarget(target: Entity) {
-        const rhinoBounds = this.getBounds();
-        const targetBounds = target.getBounds();
-        if(!rhinoBounds || !targetBounds) {
+    getAvoidance(heading: Position, targetDistance: number): Position {
+        const avoidance: Position = new Position(0, 0);
+        const rhinoBounds: Rect | null = this.getBounds();
+        if (!rhinoBounds) {
+            return avoidance;
+        }
+
+        const rhinoRadius: number = getRadius(rhinoBounds);
+        const rhinoX: number = (rhinoBounds.left + rhinoBounds.right) / 2;
+        const rhinoY: number = (rhinoBounds.top + rhinoBounds.bottom) / 2;
+        const lookAhead: number = Math.min(this.config.avoidanceDistance, targetDistance);
+
+        // At right angles to the heading. Obstacles on this side of the path push the rhino the opposite way.
+        const sideX: number = -heading.y;
+        const sideY: number = heading.x;
+
+        const reach: number = lookAhead + rhinoRadius + AVOIDANCE_MARGIN;
+        const lookArea: Rect = new Rect(rhinoX - reach, rhinoY - reach, rhinoX + reach, rhinoY + reach);
+
+        this.obstacleManager.getObstaclesNear(lookArea).forEach((obstacle: Obstacle) => {
+            const obstacleBounds: Rect | null = obstacle.getBounds();
+            if (!obstacleBounds) {
+                return;
+            }
+
+            const toObstacleX: number = (obstacleBounds.left + obstacleBounds.right) / 2 - rhinoX;
+            const toObstacleY: number = (obstacleBounds.top + obstacleBounds.bottom) / 2 - rhinoY;
+            const clearance: number = rhinoRadius + getRadius(obstacleBounds) + AVOIDANCE_MARGIN;
+
+            // Obstacles alongside still count until the rhino is past them, otherwise it cuts back into their corners
+            const ahead: number = toObstacleX * heading.x + toObstacleY * heading.y;
+            if (ahead <= -clearance || ahead > lookAhead) {
+                return;
+            }
+
+            const offPath: number = toObstacleX * sideX + toObstacleY * sideY;
+            if (Math.abs(offPath) >= clearance) {
+                return;
+            }
+
+            const strength: number = AVOIDANCE_WEIGHT
+                * (1 - Math.max(ahead, 0) / this.config.avoidanceDistance)
+                * (1 - Math.abs(offPath) / clearance);
+            const pushSide: number = offPath > 0 ? -1 : 1;
+
+            avoidance.x += sideX * pushSide * strength;
+            avoidance.y += sideY * pushSide * strength;
+        });
+
+        return avoidance;
+    }
+
+    /**
+     * The rhino can't be seen until it has appeared.
+     */
+    draw(alpha: number = 1) {
+        if (this.isWaiting()) {
             return;
         }
 
-        if (intersectTwoRects(rhinoBounds, targetBounds)) {
-            this.caughtTarget(target);
+        super.draw(alpha);
+    }
+
+    /**
+     * The rhino can't be collided with until it has appeared.
+     */
+    getCollisionShapes(): iCollisionShape[] | null {
+        return this.isWaiting() ? null : super.getCollisionShapes();
+    }
+
+    /**
+     * Does the rhino collide with its target. If so, trigger the target as caught.
+     */
+    checkIfCaughtTarget(gameTime: number, target: Entity) {
+        if (this.collidesWith(target)) {
+            this.caughtTarget(gameTime, target);
         }
     }
 
     /**
      * The target was caught, so trigger its death and set the rhino to the eating state.
      */
-    caughtTarget(target: Entity) {
+    caughtTarget(gameTime: number, target: Entity) {
         target.die();
 
-        this.setState(STATES.STATE_EATING);
+        this.setState(STATES.STATE_EATING, gameTime);
+
+        this.eventBus.emit(GAME_EVENTS.RHINO_CAUGHT_TARGET, {
+            position: new Position(this.position.x, this.position.y),
+        });
+    }
+
+    /**
+     * Once the rhino has finished eating, it celebrates.
+     */
+    onAnimationFinished(animation: ANIMATIONS, gameTime: number) {
+        if (animation === ANIMATIONS.RHINO_EAT) {
+            this.celebrate(gameTime);
+        }
+    }
+
+    /**
+     * Announce the rhino's jaws closing on its target as the eating animation gets to it.
+     */
+    onAnimationEvent(event: ANIMATION_EVENTS) {
+        if (event === ANIMATION_EVENTS.JAWS_CLOSE) {
+            this.eventBus.emit(GAME_EVENTS.RHINO_JAWS_CLOSED, {
+                position: new Position(this.position.x, this.position.y),
+            });
+        }
     }
 
     /**
      * The rhino has won, trigger the celebration state.
      */
-    celebrate() {
-        this.setState(STATES.STATE_CELEBRATING);
+    celebrate(gameTime: number) {
+        this.setState(STATES.STATE_CELEBRATING, gameTime);
+
+        this.eventBus.emit(GAME_EVENTS.RHINO_CELEBRATED, {
+            position: new Position(this.position.x, this.position.y),
+        });
     }
 
     /**
@@ -161,4 +482,11 @@ export class Rhino extends Entity {
     die() {
 
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Half the longest side of a rectangle, used as a rough radius for steering around it
+ */
+function getRadius(bounds: Rect): number {
+    return Math.max(bounds.right - bounds.left, bounds.bottom - bounds.top) / 2;
+}
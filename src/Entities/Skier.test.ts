@@ -0,0 +1,131 @@
+import { COLLISION_BEHAVIORS, DIFFICULTIES, IMAGES, KEYS, OBSTACLE_TYPES, TRICKS } from "../Constants";
+import { DIFFICULTY_PRESETS } from "../Core/Difficulty";
+import { EventBus } from "../Core/EventBus";
+import { HeadlessRenderer } from "../Core/HeadlessRenderer";
+import { ImageManager } from "../Core/ImageManager";
+import { Obstacle } from "./Obstacles/Obstacle";
+import { ObstacleManager } from "./Obstacles/ObstacleManager";
+import { OBSTACLE_TYPE_DEFINITIONS } from "./Obstacles/ObstacleTypes";
+import { Skier } from "./Skier";
+import { iGameEvents } from "../Interfaces/iGameEvents";
+import { iObstacleType } from "../Interfaces/iObstacleType";
+
+/**
+ * Create a skier on an empty mountain, with nothing on it until a test puts it there.
+ */
+function createSkier(): Skier {
+    const imageManager: ImageManager = new ImageManager(IMAGES);
+    const renderer: HeadlessRenderer = new HeadlessRenderer(1280, 720);
+    const eventBus = new EventBus<iGameEvents>(() => 0);
+    const obstacleManager: ObstacleManager = new ObstacleManager(
+        imageManager,
+        renderer,
+        1,
+        DIFFICULTY_PRESETS[DIFFICULTIES.NORMAL].curve,
+        eventBus
+    );
+
+    return new Skier(0, 0, imageManager, obstacleManager, renderer, eventBus);
+}
+
+describe('Skier tricks', () => {
+    test('starts a trick from a key pressed after a ramp launch', () => {
+        const skier: Skier = createSkier();
+
+        skier.jump(OBSTACLE_TYPES.JUMP_RAMP);
+        skier.handleInput(KEYS.UP);
+
+        expect(skier.trick).toBe(TRICKS.BACKFLIP);
+    });
+
+    test('does no tricks while hopping', () => {
+        const skier: Skier = createSkier();
+
+        skier.jump();
+        skier.handleInput(KEYS.SPACE, false);
+        skier.handleInput(KEYS.SPACE);
+        skier.handleInput(KEYS.UP);
+
+        expect(skier.trick).toBeNull();
+    });
+
+    test('crashes when landing in the middle of a trick', () => {
+        const skier: Skier = createSkier();
+
+        skier.jump(OBSTACLE_TYPES.JUMP_RAMP);
+        skier.jumpTime = skier.jumpDuration - 10;
+        skier.handleInput(KEYS.UP);
+        skier.updateJump(0.1);
+
+        expect(skier.isCrashed()).toBe(true);
+    });
+
+    test('lands cleanly once the trick is done', () => {
+        const skier: Skier = createSkier();
+
+        skier.jump(OBSTACLE_TYPES.JUMP_RAMP);
+        skier.handleInput(KEYS.LEFT);
+        skier.trickTime = 1000;
+        skier.jumpTime = skier.jumpDuration;
+        skier.updateJump(0);
+
+        expect(skier.isCrashed()).toBe(false);
+        expect(skier.isJumping()).toBe(false);
+    });
+});
+
+describe('Skier collisions', () => {
+    const rockDefinition: iObstacleType = OBSTACLE_TYPE_DEFINITIONS[OBSTACLE_TYPES.ROCK1];
+
+    afterEach(() => {
+        OBSTACLE_TYPE_DEFINITIONS[OBSTACLE_TYPES.ROCK1] = rockDefinition;
+    });
+
+    /**
+     * Put an obstacle with the passed in behavior on the mountain at the passed in position. No obstacle type in the
+     * game has some of the behaviors, so this registers a rock that has it, just for the test.
+     */
+    function placeObstacle(skier: Skier, behavior: COLLISION_BEHAVIORS, x: number, y: number): Obstacle {
+        OBSTACLE_TYPE_DEFINITIONS[OBSTACLE_TYPES.ROCK1] = { ...rockDefinition, behavior, spawnWeight: 0 };
+
+        const obstacle: Obstacle = new Obstacle(x, y, skier.imageManager, skier.renderer, OBSTACLE_TYPES.ROCK1);
+        skier.obstacleManager.addObstacle(skier.obstacleManager.addChunk(0, 0), obstacle);
+
+        return obstacle;
+    }
+
+    test('slows down while skiing through an obstacle that slows them', () => {
+        const skier: Skier = createSkier();
+        const unslowedSkier: Skier = createSkier();
+        placeObstacle(skier, COLLISION_BEHAVIORS.SLOW_DOWN, 0, 20);
+
+        skier.update(0, 0.1);
+        unslowedSkier.update(0, 0.1);
+
+        expect(skier.getPosition().y).toBeCloseTo(unslowedSkier.getPosition().y / 2);
+        expect(skier.isSkiing()).toBe(true);
+    });
+
+    test('bounces off to the side of an obstacle that bounces them, losing speed', () => {
+        const skier: Skier = createSkier();
+        const startSpeed: number = skier.speed;
+        placeObstacle(skier, COLLISION_BEHAVIORS.BOUNCE, 5, 20);
+
+        skier.update(0, 0.1);
+
+        expect(skier.getPosition().x).toBeLessThan(0);
+        expect(skier.getPosition().y).toBe(0);
+        expect(skier.speed).toBeLessThan(startSpeed);
+        expect(skier.isSkiing()).toBe(true);
+    });
+
+    test('picks up a collectible, taking it off the mountain', () => {
+        const skier: Skier = createSkier();
+        const obstacle: Obstacle = placeObstacle(skier, COLLISION_BEHAVIORS.COLLECTIBLE, 0, 20);
+
+        skier.update(0, 0.1);
+
+        expect(skier.obstacleManager.getObstacles()).not.toContain(obstacle);
+        expect(skier.isSkiing()).toBe(true);
+    });
+});
@@ -1,21 +1,164 @@
 /**
  * The skier is the entity controlled by the player in the game. The skier skis down the hill, can move at different
  * angles, and crashes into obstacles they run into. If caught by the rhino, the skier will get eaten and die.
+ *
+ * How the skier moves depends on the physics mode. In arcade mode each keypress turns the skier one of five fixed
+ * directions and they move at a constant speed. In momentum mode the skier steers smoothly for as long as a key is
+ * held, speeds up down the fall line and slows down from friction, drag and carving turns, and is drawn with the
+ * sprite for the nearest of the five directions.
+ *
+ * In the air after a launch off a ramp, the skier can pull off tricks by pressing keys, alone or together. How long
+ * they're in the air depends on how fast they took off, and they have to finish a trick before they land or they
+ * crash. Hopping with the space bar doesn't leave enough air for tricks.
  */
 
-import { IMAGE_NAMES, DIAGONAL_SPEED_REDUCER, KEYS, STATES } from "../Constants";
+import {
+    IMAGE_NAMES,
+    COLLISION_BEHAVIORS,
+    DIAGONAL_SPEED_REDUCER,
+    GAME_EVENTS,
+    KEYS,
+    OBSTACLE_TYPES,
+    PHYSICS_MODES,
+    RENDER_LAYERS,
+    SHAPE_TYPES,
+    STATES,
+    TRICKS,
+} from "../Constants";
 import { Entity } from "./Entity";
-import { Animation } from "../Core/Animation";
-import { Canvas } from "../Core/Canvas";
+import { iRenderer } from "../Interfaces/iRenderer";
 import { ImageManager } from "../Core/ImageManager";
-import { intersectTwoRects, Rect } from "../Core/Utils";
+import { lerp, Position, Rect } from "../Core/Utils";
+import { intersectShapeLists } from "../Core/Collision";
 import { ObstacleManager } from "./Obstacles/ObstacleManager";
 import { Obstacle } from "./Obstacles/Obstacle";
+import { iSkierSnapshot } from "../Interfaces/iSnapshot";
+import { GameEventBus } from "../Interfaces/iGameEvents";
+import { GateManager } from "./Gates/GateManager";
+import { Gate } from "./Gates/Gate";
+import { findTrick, TRICK_DEFINITIONS } from "./Tricks";
+import { iTrick } from "../Interfaces/iTrick";
+import { iCollisionShape } from "../Interfaces/iCollisionShape";
 
 /**
- * The skier starts running at this speed. Saved in case speed needs to be reset at any point.
+ * The skier starts running at this speed, in pixels per second. Saved in case speed needs to be reset at any point.
  */
-export const STARTING_SPEED: number = 5;
+export const STARTING_SPEED: number = 300;
+
+/**
+ * How far the skier shuffles when stepping sideways or up. Steps happen once per keypress rather than every tick, so
+ * they aren't scaled by time.
+ */
+const STEP_DISTANCE: number = 5;
+
+/**
+ * How long the skier stays in the air for every pixel per second they're going when they take off, in ms. The faster
+ * the skier, the longer and higher they jump, and ramps launch them further than jumping on the flat.
+ */
+const HOP_AIRTIME_PER_SPEED: number = 1;
+const RAMP_AIRTIME_PER_SPEED: number = 2;
+
+/**
+ * The shortest and longest the skier can be in the air for, in ms
+ */
+const MIN_AIRTIME: number = 250;
+const MAX_AIRTIME: number = 1200;
+
+/**
+ * How quickly the skier falls back to the ground, in pixels per second per second. Sets how high a jump of a given
+ * length goes.
+ */
+const AIR_GRAVITY: number = 600;
+
+/**
+ * How soon after starting a trick, in ms, pressing another key can turn it into a combo needing both
+ */
+const TRICK_COMBO_WINDOW: number = 100;
+
+/**
+ * How close in pixels the skier has to pass beside an obstacle without hitting it for it to count as a near miss.
+ */
+const NEAR_MISS_DISTANCE: number = 15;
+
+/**
+ * The obstacles that can be narrowly missed are the ones that would have crashed the skier whatever they were doing.
+ * Passing close to anything else isn't worth remarking on.
+ */
+const NEAR_MISS_BEHAVIORS: COLLISION_BEHAVIORS[] = [COLLISION_BEHAVIORS.CRASH];
+
+/**
+ * The fraction of their top speed the skier is held back to while on the ground in an obstacle that slows them down
+ */
+const SLOW_DOWN_SPEED_FRACTION: number = 0.5;
+
+/**
+ * How far sideways, in pixels, the skier is knocked when they bounce off an obstacle, and the fraction of their speed
+ * they lose
+ */
+const BOUNCE_DISTANCE: number = 10;
+const BOUNCE_SPEED_LOSS: number = 0.5;
+
+/**
+ * The inputs the skier responds to.
+ */
+export const SKIER_INPUTS: string[] = [KEYS.LEFT, KEYS.RIGHT, KEYS.UP, KEYS.DOWN, KEYS.SPACE];
+
+const PHYSICS_MODE_VALUES: PHYSICS_MODES[] = Object.values(PHYSICS_MODES);
+
+/**
+ * Is the passed in value the name of a physics mode.
+ */
+export function isPhysicsMode(value: unknown): value is PHYSICS_MODES {
+    return PHYSICS_MODE_VALUES.indexOf(value as PHYSICS_MODES) !== -1;
+}
+
+/**
+ * How far across the slope the skier can point in momentum mode, which is side on. Angles are in radians from
+ * straight down the fall line, negative to the left and positive to the right. Accelerations below are in pixels per
+ * second per second.
+ */
+const MAX_ANGLE: number = Math.PI / 2;
+
+/**
+ * How quickly the skier turns while a key is held, in radians per second
+ */
+const TURN_RATE: number = 3;
+
+/**
+ * How much the skier is sped up by the slope when pointing straight down it. Pointing across the slope, less of this
+ * pulls the skier along.
+ */
+const GRAVITY: number = 400;
+
+/**
+ * Slowing from the snow that's there whichever way the skier points...
+ */
+const BASE_FRICTION: number = 40;
+
+/**
+ * ...plus more the further across the slope they point, as their edges dig in
+ */
+const SIDEWAYS_FRICTION: number = 150;
+
+/**
+ * Extra slowing while the skier snowploughs by holding up
+ */
+const BRAKE_FRICTION: number = 400;
+
+/**
+ * Air resistance, which grows with the square of speed. It's doubled when side on, as the skier can't tuck.
+ */
+const DRAG: number = 0.00144;
+
+/**
+ * The fraction of the skier's speed lost for every radian they turn through
+ */
+const CARVE_SPEED_LOSS: number = 0.3;
+
+/**
+ * The speed, in pixels per second, the skier shuffles along at when side on and pushing further that way
+ */
+const SKATE_SPEED: number = 90;
 
 /**
  * The different directions the skier can be facing.
@@ -38,7 +181,7 @@ const DIRECTION_IMAGES: {[key: number]: IMAGE_NAMES} = {
 };
 
 /**
- * Sequences of images that comprise the animations for the different states of the skier.
+ * The images the skier is drawn with through a jump without a trick, spread evenly over the time in the air.
  */
 const IMAGES_JUMPING: IMAGE_NAMES[] = [
     IMAGE_NAMES.SKIER_JUMP1,
@@ -66,35 +209,145 @@ export class Skier extends Entity {
     direction: number = DIRECTION_DOWN;
 
     /**
-     * How fast the skier is currently moving in the game world.
+     * How fast the skier is currently moving in the game world, in pixels per second.
      */
     speed: number = STARTING_SPEED;
 
+    /**
+     * How fast the skier moves when they're moving at all, in pixels per second. Set from the difficulty as the game
+     * goes on.
+     */
+    topSpeed: number = STARTING_SPEED;
+
+    /**
+     * Which way the skier is pointing in momentum mode, in radians from straight down the slope. Negative is to the
+     * left and positive to the right.
+     */
+    angle: number = 0;
+
+    /**
+     * The inputs currently held down. Momentum mode steers for as long as they're held.
+     */
+    heldInputs: string[] = [];
+
+    /**
+     * How long the current jump lasts, and how long the skier has been in the air so far, in ms
+     */
+    jumpDuration: number = 0;
+    jumpTime: number = 0;
+
+    /**
+     * Whether the current jump is a launch off something like a ramp. Tricks can only be done after one, not while
+     * hopping.
+     */
+    launched: boolean = false;
+
+    /**
+     * The trick the skier is in the middle of, and how far through it they are in ms
+     */
+    trick: TRICKS | null = null;
+    trickTime: number = 0;
+
+    /**
+     * How the skier moves
+     */
+    physics: PHYSICS_MODES;
+
     /**
      * Stored reference to the ObstacleManager
      */
     obstacleManager: ObstacleManager;
 
     /**
-     * Init the skier.
+     * Stored reference to the GateManager, or null when there's no slalom course to race down
      */
-    constructor(x: number, y: number, imageManager: ImageManager, obstacleManager: ObstacleManager, canvas: Canvas) {
-        super(x, y, imageManager, canvas);
+    gateManager: GateManager | null;
 
-        this.setupAnimations();
+    /**
+     * The event bus crashes, jumps and the skier's death are announced on
+     */
+    eventBus: GameEventBus;
+
+    /**
+     * Init the skier.
+     */
+    constructor(
+        x: number,
+        y: number,
+        imageManager: ImageManager,
+        obstacleManager: ObstacleManager,
+        renderer: iRenderer,
+        eventBus: GameEventBus,
+        physics: PHYSICS_MODES = PHYSICS_MODES.ARCADE,
+        gateManager: GateManager | null = null
+    ) {
+        super(x, y, imageManager, renderer);
 
         this.obstacleManager = obstacleManager;
+        this.gateManager = gateManager;
+        this.eventBus = eventBus;
+        this.physics = physics;
+
+        // With momentum the skier starts at a standstill and has to pick up speed
+        if (physics === PHYSICS_MODES.MOMENTUM) {
+            this.speed = 0;
+        }
     }
 
     /**
-     * Create and store the animations.
+     * Return a snapshot of the skier, including which way they're facing, how fast they're going, what's held down and
+     * how far through a jump and trick they are.
      */
-    setupAnimations() {
-        this.animations[STATES.STATE_JUMPING] = new Animation(
-            IMAGES_JUMPING,
-            false,
-            this.continueFromJump.bind(this),
-        );
+    createSnapshot(): iSkierSnapshot {
+        return {
+            ...super.createSnapshot(),
+            direction: this.direction,
+            speed: this.speed,
+            angle: this.angle,
+            heldInputs: this.heldInputs.slice(),
+            jumpDuration: this.jumpDuration,
+            jumpTime: this.jumpTime,
+            launched: this.launched,
+            trick: this.trick,
+            trickTime: this.trickTime,
+        };
+    }
+
+    /**
+     * Put the skier back exactly as they were when the snapshot was taken.
+     */
+    restoreSnapshot(snapshot: iSkierSnapshot) {
+        super.restoreSnapshot(snapshot);
+
+        this.direction = snapshot.direction;
+        this.speed = snapshot.speed;
+        this.angle = snapshot.angle;
+        this.heldInputs = snapshot.heldInputs.slice();
+        this.jumpDuration = snapshot.jumpDuration;
+        this.jumpTime = snapshot.jumpTime;
+        this.launched = snapshot.launched;
+        this.trick = snapshot.trick;
+        this.trickTime = snapshot.trickTime;
+    }
+
+    /**
+     * Set how fast the skier can move, in pixels per second. In arcade mode that's how fast they always move, which
+     * takes effect straight away unless the skier has been stopped by crashing or dying. In momentum mode it caps how
+     * fast they can get.
+     */
+    setTopSpeed(topSpeed: number) {
+        this.topSpeed = topSpeed;
+
+        if (this.physics === PHYSICS_MODES.ARCADE && (this.isSkiing() || this.isJumping())) {
+            this.speed = topSpeed;
+        }
+    }
+
+    /**
+     * Is the input currently held down.
+     */
+    isHeld(inputCode: string): boolean {
+        return this.heldInputs.indexOf(inputCode) !== -1;
     }
 
     /**
@@ -141,107 +394,268 @@ export class Skier extends Entity {
     }
 
     /**
-     * Move the skier and check to see if they've hit an obstacle. The skier only moves in the skiing state.
+     * Move the skier and check to see if they've hit an obstacle, then carry on with any jump. The skier only moves in
+     * the skiing and jumping states. The delta time is the length of the simulation tick in seconds.
      */
-    update(gameTime: number) {
+    update(gameTime: number, deltaTime: number) {
         if (this.isSkiing() || this.isJumping()) {
-            this.move();
+            this.checkIfSlowedDown();
+
+            if (this.physics === PHYSICS_MODES.MOMENTUM) {
+                this.moveWithMomentum(deltaTime);
+            } else {
+                this.move(deltaTime);
+            }
             this.checkIfHitObstacle();
+            this.checkIfPassedGate();
         }
 
-        // The higher the starting speed the faster the jumping animation
-        this.animate(gameTime, 250 / STARTING_SPEED);
+        if (this.isJumping()) {
+            this.updateJump(deltaTime);
+        }
+    }
+
+    /**
+     * Move the skier on through their time in the air and any trick they're doing, landing them once the jump is
+     * over.
+     */
+    updateJump(deltaTime: number) {
+        this.jumpTime += deltaTime * 1000;
+
+        if (this.trick) {
+            this.trickTime += deltaTime * 1000;
+
+            if (this.trickTime >= TRICK_DEFINITIONS[this.trick].duration) {
+                this.completeTrick();
+            }
+        }
+
+        if (this.jumpTime >= this.jumpDuration) {
+            this.land();
+            return;
+        }
+
+        this.setJumpImage();
+    }
+
+    /**
+     * Draw the skier with the frame for how far through the trick they are, or through the jump if they aren't doing
+     * one.
+     */
+    setJumpImage() {
+        if (this.trick) {
+            const trick: iTrick = TRICK_DEFINITIONS[this.trick];
+
+            this.imageName = trick.images[Math.floor(this.trickTime / trick.duration * trick.images.length)];
+            return;
+        }
+
+        const frame: number = Math.floor(this.jumpTime / this.jumpDuration * IMAGES_JUMPING.length);
+        this.imageName = IMAGES_JUMPING[Math.min(frame, IMAGES_JUMPING.length - 1)];
+    }
+
+    /**
+     * Return how high off the ground the skier is, in pixels. They rise and fall like anything thrown, so a jump twice
+     * as long goes four times as high.
+     */
+    getJumpHeight(): number {
+        if (!this.isJumping()) {
+            return 0;
+        }
+
+        const time: number = this.jumpTime / 1000;
+
+        return AIR_GRAVITY / 2 * time * (this.jumpDuration / 1000 - time);
+    }
+
+    /**
+     * The skier is drawn raised off the ground while they're in the air.
+     */
+    getDrawHeight(): number {
+        return this.getJumpHeight();
+    }
+
+    /**
+     * The skier is drawn over everything on the ground while they're in the air.
+     */
+    getRenderLayer(): RENDER_LAYERS {
+        return this.isJumping() ? RENDER_LAYERS.AIRBORNE : RENDER_LAYERS.ENTITIES;
     }
 
     /**
      * Draw the skier if they aren't dead
      */
-    draw() {
+    draw(alpha: number = 1) {
         if (this.isDead()) {
             return;
         }
 
-        super.draw();
+        super.draw(alpha);
     }
 
     /**
-     * Move the skier based upon the direction they're currently facing. This handles frame update movement.
+     * Move the skier based upon the direction they're currently facing. This handles per tick movement.
      */
-    move() {
+    move(deltaTime: number) {
         switch(this.direction) {
             case DIRECTION_LEFT_DOWN:
-                this.moveSkierLeftDown();
+                this.moveSkierLeftDown(deltaTime);
                 break;
             case DIRECTION_DOWN:
-                this.moveSkierDown();
+                this.moveSkierDown(deltaTime);
                 break;
             case DIRECTION_RIGHT_DOWN:
-                this.moveSkierRightDown();
+                this.moveSkierRightDown(deltaTime);
                 break;
             case DIRECTION_LEFT:
             case DIRECTION_RIGHT:
-                // Specifically calling out that we don't move the skier each frame if they're facing completely horizontal.
+                // Specifically calling out that we don't move the skier each tick if they're facing completely horizontal.
                 break;
         }
     }
 
     /**
-     * Move the skier left. Since completely horizontal movement isn't frame based, just move incrementally based upon
-     * the starting speed.
+     * Move the skier with momentum physics. On the ground they steer and are sped up or slowed down by the slope, while
+     * in the air they carry on the way they took off.
+     */
+    moveWithMomentum(deltaTime: number) {
+        if (this.isSkiing()) {
+            this.steer(deltaTime);
+            this.accelerate(deltaTime);
+        }
+
+        this.position.x += Math.sin(this.angle) * this.speed * deltaTime;
+        this.position.y += Math.cos(this.angle) * this.speed * deltaTime;
+    }
+
+    /**
+     * Turn the skier for as long as left or right is held, or back towards straight down while down is held. Carving
+     * a turn bleeds off speed.
+     */
+    steer(deltaTime: number) {
+        const turn: number = TURN_RATE * deltaTime;
+        const previousAngle: number = this.angle;
+
+        if (this.isHeld(KEYS.LEFT) && !this.isHeld(KEYS.RIGHT)) {
+            this.angle = Math.max(this.angle - turn, -MAX_ANGLE);
+        } else if (this.isHeld(KEYS.RIGHT) && !this.isHeld(KEYS.LEFT)) {
+            this.angle = Math.min(this.angle + turn, MAX_ANGLE);
+        } else if (this.isHeld(KEYS.DOWN)) {
+            this.angle = this.angle > 0 ? Math.max(this.angle - turn, 0) : Math.min(this.angle + turn, 0);
+        }
+
+        this.speed *= 1 - CARVE_SPEED_LOSS * Math.abs(this.angle - previousAngle);
+        this.setDirectionFromAngle();
+    }
+
+    /**
+     * Speed the skier up by however much of the slope's pull is along the way they're pointing, less friction and
+     * drag, up to their top speed. Side on, the skier can shuffle along by pushing further that way.
+     */
+    accelerate(deltaTime: number) {
+        const sideways: number = Math.abs(Math.sin(this.angle));
+        const gravity: number = GRAVITY * Math.cos(this.angle);
+        const friction: number = BASE_FRICTION
+            + SIDEWAYS_FRICTION * sideways
+            + (this.isHeld(KEYS.UP) ? BRAKE_FRICTION : 0);
+        const drag: number = DRAG * (1 + sideways) * this.speed * this.speed;
+
+        this.speed = Math.min(Math.max(this.speed + (gravity - friction - drag) * deltaTime, 0), this.topSpeed);
+
+        const pushingLeft: boolean = this.angle === -MAX_ANGLE && this.isHeld(KEYS.LEFT);
+        const pushingRight: boolean = this.angle === MAX_ANGLE && this.isHeld(KEYS.RIGHT);
+        if (pushingLeft || pushingRight) {
+            this.speed = Math.max(this.speed, SKATE_SPEED);
+        }
+    }
+
+    /**
+     * Face the skier whichever of the five directions is nearest the way they're pointing, so they're drawn with that
+     * direction's image.
+     */
+    setDirectionFromAngle() {
+        this.setDirection(DIRECTION_DOWN + Math.round(this.angle / (Math.PI / 4)));
+    }
+
+    /**
+     * Move the skier left. Since completely horizontal movement isn't tick based, just step a fixed distance.
      */
     moveSkierLeft() {
-        this.position.x -= STARTING_SPEED;
+        this.position.x -= STEP_DISTANCE;
     }
 
     /**
      * Move the skier diagonally left in equal amounts down and to the left. Use the current speed, reduced by the scale
      * of a right triangle hypotenuse to ensure consistent traveling speed at an angle.
      */
-    moveSkierLeftDown() {
-        this.position.x -= this.speed / DIAGONAL_SPEED_REDUCER;
-        this.position.y += this.speed / DIAGONAL_SPEED_REDUCER;
+    moveSkierLeftDown(deltaTime: number) {
+        this.position.x -= this.speed * deltaTime / DIAGONAL_SPEED_REDUCER;
+        this.position.y += this.speed * deltaTime / DIAGONAL_SPEED_REDUCER;
     }
 
     /**
      * Move the skier down at the speed they're traveling.
      */
-    moveSkierDown() {
-        this.position.y += this.speed;
+    moveSkierDown(deltaTime: number) {
+        this.position.y += this.speed * deltaTime;
     }
 
     /**
      * Move the skier diagonally right in equal amounts down and to the right. Use the current speed, reduced by the scale
      * of a right triangle hypotenuse to ensure consistent traveling speed at an angle.
      */
-    moveSkierRightDown() {
-        this.position.x += this.speed / DIAGONAL_SPEED_REDUCER;
-        this.position.y += this.speed / DIAGONAL_SPEED_REDUCER;
+    moveSkierRightDown(deltaTime: number) {
+        this.position.x += this.speed * deltaTime / DIAGONAL_SPEED_REDUCER;
+        this.position.y += this.speed * deltaTime / DIAGONAL_SPEED_REDUCER;
     }
 
     /**
-     * Move the skier right. Since completely horizontal movement isn't frame based, just move incrementally based upon
-     * the starting speed.
+     * Move the skier right. Since completely horizontal movement isn't tick based, just step a fixed distance.
      */
     moveSkierRight() {
-        this.position.x += STARTING_SPEED;
+        this.position.x += STEP_DISTANCE;
     }
 
     /**
-     * Move the skier up. Since moving up isn't frame based, just move incrementally based upon
-     * the starting speed.
+     * Move the skier up. Since moving up isn't tick based, just step a fixed distance.
      */
     moveSkierUp() {
-        this.position.y -= STARTING_SPEED;
+        this.position.y -= STEP_DISTANCE;
     }
 
     /**
-     * Handle keyboard input. If the skier is dead, don't handle any input.
+     * Handle keyboard input, which is either a key being pressed or released. Keys pressed in the air start tricks
+     * rather than steering. If the skier is dead, don't handle any input.
      */
-    handleInput(inputCode: string) {
+    handleInput(inputCode: string, pressed: boolean = true) {
         if (this.isDead()) {
             return false;
         }
 
+        // Keys pressed in the air after a launch do tricks, in either physics mode. Repeats from a key being held down
+        // don't count.
+        if (pressed && this.isJumping() && this.launched && !this.isHeld(inputCode)) {
+            this.startTrick(inputCode);
+        }
+
+        this.heldInputs = this.heldInputs.filter((heldInput: string) => heldInput !== inputCode);
+        if (pressed) {
+            this.heldInputs.push(inputCode);
+        }
+
+        if (this.isJumping()) {
+            return SKIER_INPUTS.indexOf(inputCode) !== -1;
+        }
+
+        if (this.physics === PHYSICS_MODES.MOMENTUM) {
+            return this.handleMomentumInput(inputCode, pressed);
+        }
+
+        // Arcade mode only acts on keys being pressed
+        if (!pressed) {
+            return SKIER_INPUTS.indexOf(inputCode) !== -1;
+        }
+
         let handled: boolean = true;
  
         switch(inputCode) {
@@ -267,6 +681,39 @@ export class Skier extends Entity {
         return handled;
     }
 
+    /**
+     * Handle input in momentum mode. Steering and braking happen for as long as keys are held, so all that's left to
+     * do when a key is pressed is jump, or get back up after a crash facing whichever way the player pressed.
+     */
+    handleMomentumInput(inputCode: string, pressed: boolean): boolean {
+        if (SKIER_INPUTS.indexOf(inputCode) === -1) {
+            return false;
+        }
+
+        if (!pressed) {
+            return true;
+        }
+
+        switch(inputCode) {
+            case KEYS.LEFT:
+            case KEYS.RIGHT:
+                // Step off whatever was crashed into, as in arcade mode, so the skier doesn't start out still inside it
+                if (this.isCrashed() && inputCode === KEYS.LEFT) {
+                    this.recoverFromCrash(DIRECTION_LEFT);
+                    this.moveSkierLeft();
+                } else if (this.isCrashed()) {
+                    this.recoverFromCrash(DIRECTION_RIGHT);
+                    this.moveSkierRight();
+                }
+                break;
+            case KEYS.SPACE:
+                this.jump();
+                break;
+        }
+
+        return true;
+    }
+
     /**
      * Turn the skier left. If they're already completely facing left, move them left. Otherwise, change their direction
      * one step left. If they're in the crashed state, then first recover them from the crash.
@@ -338,41 +785,93 @@ export class Skier extends Entity {
     }
 
     /**
-     * Make the skier jump. If they're crashed don't do anything to require them to move left or right
-     * to escape an obstacle before skiing down again.
+     * Make the skier jump, either because the player jumped or because an obstacle such as a ramp launched them. How
+     * long and high they jump depends on how fast they're going, and being launched sends them further. If they're
+     * crashed don't do anything to require them to move left or right to escape an obstacle before skiing down again.
      */
-    jump() {
+    jump(obstacleType: OBSTACLE_TYPES | null = null) {
         if (this.isCrashed() || this.isJumping()) {
             return;
         }
 
+        const airtimePerSpeed: number = obstacleType !== null ? RAMP_AIRTIME_PER_SPEED : HOP_AIRTIME_PER_SPEED;
+
         this.state = STATES.STATE_JUMPING;
-    
-        this.setAnimation();
+        this.jumpDuration = Math.min(Math.max(this.speed * airtimePerSpeed, MIN_AIRTIME), MAX_AIRTIME);
+        this.jumpTime = 0;
+        this.launched = obstacleType !== null;
+        this.trick = null;
+        this.trickTime = 0;
+
+        this.setJumpImage();
+
+        this.eventBus.emit(GAME_EVENTS.SKIER_JUMPED, {
+            position: new Position(this.position.x, this.position.y),
+            obstacleType,
+        });
     }
 
     /**
-     * The skier has a bit different bounds calculating than a normal entity to make the collision with obstacles more
-     * natural. We want te skier to end up in the obstacle rather than right above it when crashed, so move the bottom
-     * boundary up.
+     * Start the trick asked for by pressing a key in the air after a launch, if there is one. Only one trick can be
+     * done at a time, but a key pressed just after starting one can turn it into a combo of both.
      */
-    getBounds(): Rect | null {
-        const image = this.imageManager.getImage(this.imageName);
+    startTrick(inputCode: string) {
+        const trick: TRICKS | null = findTrick(inputCode, this.heldInputs);
 
-        if (!image) {
-            return null;
+        if (!trick) {
+            return;
         }
 
-        return new Rect(
-            this.position.x - image.width / 2,
-            this.position.y - image.height / 2,
-            this.position.x + image.width / 2,
-            this.position.y - image.height / 4
-        );
+        if (!this.trick) {
+            this.trick = trick;
+            this.trickTime = 0;
+        } else if (
+            this.trickTime < TRICK_COMBO_WINDOW
+            && TRICK_DEFINITIONS[trick].inputs.length > TRICK_DEFINITIONS[this.trick].inputs.length
+        ) {
+            this.trick = trick;
+        } else {
+            return;
+        }
+
+        this.setJumpImage();
+    }
+
+    /**
+     * The skier has pulled off their trick, so they're free to start another before they land.
+     */
+    completeTrick() {
+        if (!this.trick) {
+            return;
+        }
+
+        const trick: TRICKS = this.trick;
+        this.trick = null;
+        this.trickTime = 0;
+
+        this.eventBus.emit(GAME_EVENTS.SKIER_TRICK_COMPLETED, {
+            position: new Position(this.position.x, this.position.y),
+            trick,
+            difficulty: TRICK_DEFINITIONS[trick].difficulty,
+        });
+    }
+
+    /**
+     * Bring the skier back down to the ground. Landing in the middle of a trick is a crash.
+     */
+    land() {
+        if (this.trick) {
+            this.crash(null);
+            return;
+        }
+
+        this.continueFromJump();
     }
 
     /**
-     * Go through all the obstacles in the game and see if the skier collides with any of them. If so, crash the skier.
+     * Go through the obstacles near the skier and see if the skier collides with any of them, doing what each
+     * obstacle's type says happens when they do. Being launched into the air comes before anything else, and crashing
+     * before bouncing or picking anything up.
      */
     checkIfHitObstacle() {
         const skierBounds = this.getBounds();
@@ -381,96 +880,247 @@ export class Skier extends Entity {
             return;
         }
 
-        const obstacles = this.obstacleManager.getObstacles();
+        const collisions: Obstacle[] = this.obstacleManager.getObstaclesNear(skierBounds).filter(
+            (obstacle: Obstacle) => this.collidesWith(obstacle)
+        );
+
+        const launchCollision: Obstacle | undefined = collisions.find((obstacle: Obstacle): boolean => {
+            return obstacle.getBehavior() === COLLISION_BEHAVIORS.LAUNCH;
+        });
 
-        const jumpRampCollision = obstacles.find((obstacle: Obstacle): boolean => {
-            const obstacleBounds = obstacle.getBounds();
+        if (launchCollision) {
+            this.jump(launchCollision.type);
 
-            if (!obstacleBounds) {
-                return false;
-            }
+            return;
+        }
 
-            const collided = intersectTwoRects(skierBounds, obstacleBounds);
+        const crashCollision: Obstacle | undefined = collisions.find((obstacle: Obstacle): boolean => {
+            const behavior: COLLISION_BEHAVIORS = obstacle.getBehavior();
 
-            if (this.isJumpRampCollision(collided, obstacle.imageName)) {
-                return true;
+            /* Jumping over an obstacle is not considered to be an actual collision */
+            if (behavior === COLLISION_BEHAVIORS.JUMPABLE) {
+                return !this.isJumping();
             }
 
-            return false;
+            return behavior === COLLISION_BEHAVIORS.CRASH;
         });
 
-        if (jumpRampCollision) {
-            this.jump();
+        if (crashCollision) {
+            this.crash(crashCollision.type);
 
             return;
         }
 
-        const normalCollision = obstacles.find((obstacle: Obstacle): boolean => {
-            const obstacleBounds = obstacle.getBounds();
+        const bounceCollision: Obstacle | undefined = collisions.find((obstacle: Obstacle): boolean => {
+            return obstacle.getBehavior() === COLLISION_BEHAVIORS.BOUNCE;
+        });
+
+        if (bounceCollision) {
+            this.bounceOff(bounceCollision);
+        }
 
-            if (!obstacleBounds) {
-                return false;
+        collisions.forEach((obstacle: Obstacle) => {
+            if (obstacle.getBehavior() === COLLISION_BEHAVIORS.COLLECTIBLE) {
+                this.collect(obstacle);
             }
+        });
 
-            const collided = intersectTwoRects(skierBounds, obstacleBounds);
+        this.checkIfPassedObstacle(skierBounds);
+    }
 
-            /* We do not consider this to be an actual collision - thus we return false */
-            if (this.isRockJumpCollision(collided, obstacle.imageName)) {
-                return false;
-            }
+    /**
+     * Hold the skier back while they're on the ground in an obstacle that slows them down. Checked before they move,
+     * so it holds in arcade mode too, where they're put back up to full speed every tick.
+     */
+    checkIfSlowedDown() {
+        const skierBounds = this.getBounds();
 
-            return collided;
+        if (!skierBounds || this.isJumping()) {
+            return;
+        }
+
+        const slowedDown: boolean = this.obstacleManager.getObstaclesNear(skierBounds).some((obstacle: Obstacle) => {
+            return obstacle.getBehavior() === COLLISION_BEHAVIORS.SLOW_DOWN && this.collidesWith(obstacle);
         });
 
-        if (normalCollision) {
-            this.crash();
+        if (slowedDown) {
+            this.speed = Math.min(this.speed, this.topSpeed * SLOW_DOWN_SPEED_FRACTION);
         }
     }
 
     /**
-     * Has collided with rock while jumping, which we do not consider to be an actual collision
-     * as rocks can be jumped over
+     * Knock the skier back off an obstacle they've run into, to where they were before this tick's move and then away
+     * from it sideways. They lose some speed but keep going.
      */
-    isRockJumpCollision(collided: boolean, imageName: IMAGE_NAMES) {
-        return collided && (imageName === IMAGE_NAMES.ROCK1 || imageName === IMAGE_NAMES.ROCK2) && this.state === STATES.STATE_JUMPING;
+    bounceOff(obstacle: Obstacle) {
+        const side: number = this.position.x < obstacle.getPosition().x ? -1 : 1;
+
+        this.position.x = this.previousPosition.x + side * BOUNCE_DISTANCE;
+        this.position.y = this.previousPosition.y;
+        this.speed *= 1 - BOUNCE_SPEED_LOSS;
+
+        this.eventBus.emit(GAME_EVENTS.SKIER_BOUNCED, {
+            position: new Position(this.position.x, this.position.y),
+            obstacleType: obstacle.type,
+        });
     }
-    
+
     /**
-     * Has collided with jump ramp, which we do not consider to be an actual collision
-     * as jump ramps initiate the jumping state and corresponding animation
+     * Pick up an obstacle, taking it off the mountain.
      */
-    isJumpRampCollision(collided: boolean, imageName: IMAGE_NAMES) {
-        return collided && imageName === IMAGE_NAMES.JUMP_RAMP;
+    collect(obstacle: Obstacle) {
+        this.obstacleManager.removeObstacle(obstacle);
+
+        this.eventBus.emit(GAME_EVENTS.SKIER_COLLECTED, {
+            position: new Position(this.position.x, this.position.y),
+            obstacleType: obstacle.type,
+        });
     }
 
     /**
-     * Crash the skier. Set the state to crashed, set the speed to zero cause you can't move when crashed and update the
-     * image.
+     * Look for obstacles the skier moved down past during this tick. Something jumpable passed while in the air over
+     * it has been cleared, and something that would have crashed the skier passed close beside without hitting it is a
+     * near miss. Only looking at the tick the skier passes an obstacle means each one is only counted once. Near misses
+     * are judged against a box around the skier widened either side.
      */
-    crash() {
+    checkIfPassedObstacle(skierBounds: Rect) {
+        const nearMissBounds = new Rect(
+            skierBounds.left - NEAR_MISS_DISTANCE,
+            skierBounds.top,
+            skierBounds.right + NEAR_MISS_DISTANCE,
+            skierBounds.bottom
+        );
+        const nearMissShape: iCollisionShape = { type: SHAPE_TYPES.RECT, ...nearMissBounds };
+
+        this.obstacleManager.getObstaclesNear(nearMissBounds).forEach((obstacle: Obstacle) => {
+            const obstacleY = obstacle.getPosition().y;
+            if (obstacleY <= this.previousPosition.y || obstacleY > this.position.y) {
+                return;
+            }
+
+            const obstacleShapes = obstacle.getCollisionShapes();
+            if (!obstacleShapes) {
+                return;
+            }
+
+            const collided = this.collidesWith(obstacle);
+
+            if (collided && obstacle.getBehavior() === COLLISION_BEHAVIORS.JUMPABLE && this.isJumping()) {
+                this.eventBus.emit(GAME_EVENTS.SKIER_CLEARED_OBSTACLE, {
+                    position: new Position(this.position.x, this.position.y),
+                    obstacleType: obstacle.type,
+                });
+            } else if (
+                !collided &&
+                NEAR_MISS_BEHAVIORS.indexOf(obstacle.getBehavior()) !== -1 &&
+                intersectShapeLists([nearMissShape], obstacleShapes)
+            ) {
+                this.eventBus.emit(GAME_EVENTS.SKIER_NEAR_MISS, {
+                    position: new Position(this.position.x, this.position.y),
+                    obstacleType: obstacle.type,
+                });
+            }
+        });
+    }
+
+    /**
+     * Look for slalom gates the skier moved down past during this tick and whether they went between the poles, working
+     * out where across the slope the skier was as they went by. Then see if they've crossed the finish line.
+     */
+    checkIfPassedGate() {
+        const gateManager: GateManager | null = this.gateManager;
+        if (!gateManager) {
+            return;
+        }
+
+        const fromY: number = this.previousPosition.y;
+        const toY: number = this.position.y;
+
+        gateManager.getGatesCrossed(fromY, toY).forEach((gate: Gate) => {
+            const gatePosition: Position = gate.getPosition();
+            const amount: number = (gatePosition.y - fromY) / (toY - fromY);
+            const crossingX: number = lerp(this.previousPosition.x, this.position.x, amount);
+            const gateIndex: number = gateManager.gates.indexOf(gate);
+            const position: Position = new Position(crossingX, gatePosition.y);
+
+            if (gate.isBetweenPoles(crossingX)) {
+                gate.pass();
+                this.eventBus.emit(GAME_EVENTS.GATE_PASSED, { position, gateIndex });
+            } else {
+                gate.miss();
+                this.eventBus.emit(GAME_EVENTS.GATE_MISSED, { position, gateIndex });
+            }
+        });
+
+        if (gateManager.getFinishLine().isCrossed(fromY, toY)) {
+            this.eventBus.emit(GAME_EVENTS.SKIER_FINISHED, {
+                position: new Position(this.position.x, this.position.y),
+            });
+        }
+    }
+
+    /**
+     * Crash the skier into an obstacle, or into the ground if they landed mid-trick. Set the state to crashed, set the
+     * speed to zero cause you can't move when crashed and update the image. Any jump or trick is over.
+     */
+    crash(obstacleType: OBSTACLE_TYPES | null) {
         this.state = STATES.STATE_CRASHED;
         this.speed = 0;
         this.imageName = IMAGE_NAMES.SKIER_CRASH;
+        this.endJump();
+
+        this.eventBus.emit(GAME_EVENTS.SKIER_CRASHED, {
+            position: new Position(this.position.x, this.position.y),
+            obstacleType,
+        });
     }
 
     /**
-     * Change the skier back to the skiing state, get them moving again at the starting speed and set them facing
-     * whichever direction they're recovering to.
+     * Change the skier back to the skiing state and set them facing whichever direction they're recovering to. In
+     * arcade mode they're straight back up to speed, while with momentum they start again from a standstill.
      */
     recoverFromCrash(newDirection: number) {
         this.state = STATES.STATE_SKIING;
-        this.speed = STARTING_SPEED;
+
+        if (this.physics === PHYSICS_MODES.MOMENTUM) {
+            this.speed = 0;
+            this.angle = (newDirection - DIRECTION_DOWN) * Math.PI / 4;
+        } else {
+            this.speed = this.topSpeed;
+        }
+
         this.setDirection(newDirection);
     }
 
     /**
-     * Change the skier back to the skiing state, get them moving again at the starting speed and set them facing
-     * whichever direction they're recovering to.
+     * Change the skier back to the skiing state once they land. In arcade mode they carry on straight down at full
+     * speed, while with momentum they carry on however they were going.
      */
     continueFromJump() {
         this.state = STATES.STATE_SKIING;
-        this.speed = STARTING_SPEED;
-        this.setDirection(DIRECTION_DOWN);
+        this.endJump();
+
+        if (this.physics === PHYSICS_MODES.MOMENTUM) {
+            this.setDirectionFromAngle();
+        } else {
+            this.speed = this.topSpeed;
+            this.setDirection(DIRECTION_DOWN);
+        }
+
+        this.eventBus.emit(GAME_EVENTS.SKIER_LANDED, {
+            position: new Position(this.position.x, this.position.y),
+        });
+    }
+
+    /**
+     * Clear out the jump and any trick, now the skier is out of the air.
+     */
+    endJump() {
+        this.jumpDuration = 0;
+        this.jumpTime = 0;
+        this.launched = false;
+        this.trick = null;
+        this.trickTime = 0;
     }
 
     /**
@@ -479,5 +1129,9 @@ export class Skier extends Entity {
     die() {
         this.state = STATES.STATE_DEAD;
         this.speed = 0;
+
+        this.eventBus.emit(GAME_EVENTS.SKIER_DIED, {
+            position: new Position(this.position.x, this.position.y),
+        });
     }
 }
\ No newline at end of file
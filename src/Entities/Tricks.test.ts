@@ -0,0 +1,22 @@
+import { KEYS, TRICKS } from "../Constants";
+import { findTrick } from "./Tricks";
+
+describe('findTrick', () => {
+    test('finds the trick for a single key', () => {
+        expect(findTrick(KEYS.UP, [])).toBe(TRICKS.BACKFLIP);
+        expect(findTrick(KEYS.LEFT, [])).toBe(TRICKS.SPIN_LEFT);
+    });
+
+    test('picks the combo over the part of it the pressed key asks for', () => {
+        expect(findTrick(KEYS.UP, [KEYS.LEFT])).toBe(TRICKS.CORKSCREW_LEFT);
+        expect(findTrick(KEYS.RIGHT, [KEYS.UP])).toBe(TRICKS.CORKSCREW_RIGHT);
+    });
+
+    test('ignores held keys that make no combo with the pressed one', () => {
+        expect(findTrick(KEYS.DOWN, [KEYS.LEFT])).toBe(TRICKS.FRONTFLIP);
+    });
+
+    test('finds nothing for a key no trick uses', () => {
+        expect(findTrick('KeyQ', [])).toBeNull();
+    });
+});
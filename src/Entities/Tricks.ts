@@ -0,0 +1,95 @@
+/**
+ * The tricks the skier can pull off in the air, and working out which one the keys held down ask for. Tricks are drawn
+ * with the skier's jump frames: facing forwards, facing away, arms up, upside down and arms out.
+ */
+
+import { IMAGE_NAMES, KEYS, TRICKS } from "../Constants";
+import { iTrick } from "../Interfaces/iTrick";
+
+export const TRICK_DEFINITIONS: Record<TRICKS, iTrick> = {
+    [TRICKS.GRAB]: {
+        inputs: [KEYS.SPACE],
+        images: [IMAGE_NAMES.SKIER_JUMP3],
+        duration: 300,
+        difficulty: 1,
+    },
+    [TRICKS.SPIN_LEFT]: {
+        inputs: [KEYS.LEFT],
+        images: [IMAGE_NAMES.SKIER_JUMP1, IMAGE_NAMES.SKIER_JUMP2, IMAGE_NAMES.SKIER_JUMP1],
+        duration: 450,
+        difficulty: 2,
+    },
+    [TRICKS.SPIN_RIGHT]: {
+        inputs: [KEYS.RIGHT],
+        images: [IMAGE_NAMES.SKIER_JUMP1, IMAGE_NAMES.SKIER_JUMP2, IMAGE_NAMES.SKIER_JUMP1],
+        duration: 450,
+        difficulty: 2,
+    },
+    [TRICKS.BACKFLIP]: {
+        inputs: [KEYS.UP],
+        images: [IMAGE_NAMES.SKIER_JUMP3, IMAGE_NAMES.SKIER_JUMP4, IMAGE_NAMES.SKIER_JUMP5],
+        duration: 600,
+        difficulty: 3,
+    },
+    [TRICKS.FRONTFLIP]: {
+        inputs: [KEYS.DOWN],
+        images: [IMAGE_NAMES.SKIER_JUMP1, IMAGE_NAMES.SKIER_JUMP4, IMAGE_NAMES.SKIER_JUMP5],
+        duration: 600,
+        difficulty: 3,
+    },
+
+    // A spin and a backflip at once
+    [TRICKS.CORKSCREW_LEFT]: {
+        inputs: [KEYS.LEFT, KEYS.UP],
+        images: [
+            IMAGE_NAMES.SKIER_JUMP1,
+            IMAGE_NAMES.SKIER_JUMP2,
+            IMAGE_NAMES.SKIER_JUMP4,
+            IMAGE_NAMES.SKIER_JUMP2,
+            IMAGE_NAMES.SKIER_JUMP5,
+        ],
+        duration: 800,
+        difficulty: 5,
+    },
+    [TRICKS.CORKSCREW_RIGHT]: {
+        inputs: [KEYS.RIGHT, KEYS.UP],
+        images: [
+            IMAGE_NAMES.SKIER_JUMP1,
+            IMAGE_NAMES.SKIER_JUMP2,
+            IMAGE_NAMES.SKIER_JUMP4,
+            IMAGE_NAMES.SKIER_JUMP2,
+            IMAGE_NAMES.SKIER_JUMP5,
+        ],
+        duration: 800,
+        difficulty: 5,
+    },
+};
+
+const TRICK_VALUES: TRICKS[] = Object.values(TRICKS);
+
+/**
+ * Is the passed in value the name of a trick.
+ */
+export function isTrick(value: unknown): value is TRICKS {
+    return TRICK_VALUES.indexOf(value as TRICKS) !== -1;
+}
+
+/**
+ * Return the trick asked for by pressing a key while others are held down, or null if there isn't one. When more than
+ * one trick matches, the one needing the most keys wins, so holding a combo gets the combo rather than part of it.
+ */
+export function findTrick(inputCode: string, heldInputs: string[]): TRICKS | null {
+    let found: TRICKS | null = null;
+
+    TRICK_VALUES.forEach((trick: TRICKS) => {
+        const inputs: string[] = TRICK_DEFINITIONS[trick].inputs;
+        const matches: boolean = inputs.indexOf(inputCode) !== -1
+            && inputs.every((input: string) => input === inputCode || heldInputs.indexOf(input) !== -1);
+
+        if (matches && (!found || inputs.length > TRICK_DEFINITIONS[found].inputs.length)) {
+            found = trick;
+        }
+    });
+
+    return found;
+}
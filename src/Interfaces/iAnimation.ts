@@ -0,0 +1,30 @@
+/**
+ * Interfaces for the animations in the animation manifest
+ */
+
+import { ANIMATION_EVENTS, ANIMATION_MODES, IMAGE_NAMES } from "../Constants";
+
+export interface iAnimationFrame {
+    image: IMAGE_NAMES;
+
+    /**
+     * How long the frame is shown for, in ms
+     */
+    duration: number;
+
+    /**
+     * Something that happens as the frame is shown, for the entity playing the animation to react to
+     */
+    event?: ANIMATION_EVENTS;
+}
+
+export interface iAnimation {
+    mode: ANIMATION_MODES;
+
+    /**
+     * How many times the animation plays through before finishing, or 0 to play forever
+     */
+    loops: number;
+
+    frames: iAnimationFrame[];
+}
@@ -0,0 +1,37 @@
+/**
+ * Interfaces for the shapes things collide as. Shapes in the collision shape manifest are relative to the center of
+ * the image they're for, and are moved to wherever the entity is in the world before being tested against each other.
+ */
+
+import { SHAPE_TYPES } from "../Constants";
+import { Position } from "../Core/Utils";
+
+export interface iRectShape {
+    type: SHAPE_TYPES.RECT;
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+export interface iCircleShape {
+    type: SHAPE_TYPES.CIRCLE;
+
+    /**
+     * The center of the circle
+     */
+    x: number;
+    y: number;
+    radius: number;
+}
+
+export interface iPolygonShape {
+    type: SHAPE_TYPES.POLYGON;
+
+    /**
+     * The corners of the polygon, in order around it. The polygon must be convex.
+     */
+    points: Position[];
+}
+
+export type iCollisionShape = iRectShape | iCircleShape | iPolygonShape;
@@ -0,0 +1,72 @@
+/**
+ * Interfaces for a course built by hand in the course editor, which is played on in place of the generated terrain.
+ * The course file format is described in full in the README.
+ */
+
+import { iObstaclePlacement } from "./iTerrain";
+
+/**
+ * A point in the world, in pixels
+ */
+export interface iCoursePoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * What the course is and who made it, for showing alongside it
+ */
+export interface iCourseMetadata {
+    name: string;
+    author: string;
+
+    /**
+     * The time to beat from the start to the finish line in ms, including penalties, or null if there isn't one
+     */
+    parTime: number | null;
+}
+
+/**
+ * When the rhino turns up on the course
+ */
+export interface iCourseRhino {
+    /**
+     * The rhino appears once the skier is this far from the start, in metres...
+     */
+    appearDistance: number;
+
+    /**
+     * ...or once this much game time has passed, in ms, whichever comes first
+     */
+    appearTime: number;
+}
+
+export interface iCourse {
+    version: number;
+    metadata: iCourseMetadata;
+
+    /**
+     * Where the skier starts
+     */
+    start: iCoursePoint;
+
+    /**
+     * When the rhino turns up, or null for a course without one
+     */
+    rhino: iCourseRhino | null;
+
+    /**
+     * Every obstacle on the course, where it is in the world
+     */
+    obstacles: iObstaclePlacement[];
+
+    /**
+     * The middle of each gate to pass through, in order down the course
+     */
+    gates: iCoursePoint[];
+
+    /**
+     * The middle of the line that ends the race, or null for a course that's skied until the rhino catches the skier
+     */
+    finishLine: iCoursePoint | null;
+}
@@ -0,0 +1,60 @@
+/**
+ * Interfaces for difficulty presets. Each preset has a curve of how hard the game is at points down the mountain, and
+ * the game gets harder between those points as the skier goes further.
+ */
+
+import { iRhinoConfig } from "./iRhinoConfig";
+
+/**
+ * How hard the game is at a point down the mountain
+ */
+export interface iDifficultyLevel {
+    /**
+     * The skier's top speed, in pixels per second
+     */
+    skierSpeed: number;
+
+    /**
+     * The chance, from 0 to 1, of each spot in a newly generated chunk of the world getting an obstacle
+     */
+    obstacleChance: number;
+
+    /**
+     * How likely a new obstacle is to be a tree cluster, compared to each other type of obstacle, which all have a
+     * weight of 1
+     */
+    treeClusterWeight: number;
+
+    /**
+     * How fast the rhino runs normally, in pixels per second
+     */
+    rhinoSpeed: number;
+}
+
+/**
+ * A point on a difficulty curve
+ */
+export interface iDifficultyCurvePoint extends iDifficultyLevel {
+    /**
+     * How far down the mountain this level of difficulty is reached, in metres
+     */
+    distance: number;
+}
+
+export interface iDifficultyPreset {
+    /**
+     * Name shown on the title screen
+     */
+    label: string;
+
+    /**
+     * How hard the game is at points down the mountain, in order of distance. Before the first point the game is as
+     * hard as the first point, and after the last it stays as hard as the last.
+     */
+    curve: iDifficultyCurvePoint[];
+
+    /**
+     * When the rhino turns up and how hard it chases, apart from its speed which follows the curve
+     */
+    rhino: iRhinoConfig;
+}
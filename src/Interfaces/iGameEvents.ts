@@ -0,0 +1,97 @@
+/**
+ * The gameplay events sent on the game's event bus and the payload each carries. Positions are copies taken when the
+ * event happened, so listeners are free to keep them.
+ */
+
+import { GAME_EVENTS, OBSTACLE_TYPES, TRICKS } from "../Constants";
+import { EventBus } from "../Core/EventBus";
+import { Position } from "../Core/Utils";
+
+export interface iGameEvents {
+    [GAME_EVENTS.SKIER_CRASHED]: {
+        position: Position;
+
+        /**
+         * The obstacle crashed into, or null if the skier landed in the middle of a trick
+         */
+        obstacleType: OBSTACLE_TYPES | null;
+    };
+    [GAME_EVENTS.SKIER_JUMPED]: {
+        position: Position;
+
+        /**
+         * The obstacle that launched the skier, or null if the player jumped
+         */
+        obstacleType: OBSTACLE_TYPES | null;
+    };
+    [GAME_EVENTS.SKIER_LANDED]: {
+        position: Position;
+    };
+    [GAME_EVENTS.SKIER_TRICK_COMPLETED]: {
+        position: Position;
+        trick: TRICKS;
+
+        /**
+         * How hard the trick was
+         */
+        difficulty: number;
+    };
+    [GAME_EVENTS.SKIER_CLEARED_OBSTACLE]: {
+        position: Position;
+        obstacleType: OBSTACLE_TYPES;
+    };
+    [GAME_EVENTS.SKIER_NEAR_MISS]: {
+        position: Position;
+        obstacleType: OBSTACLE_TYPES;
+    };
+    [GAME_EVENTS.SKIER_BOUNCED]: {
+        position: Position;
+        obstacleType: OBSTACLE_TYPES;
+    };
+    [GAME_EVENTS.SKIER_COLLECTED]: {
+        position: Position;
+        obstacleType: OBSTACLE_TYPES;
+    };
+    [GAME_EVENTS.SKIER_DIED]: {
+        position: Position;
+    };
+    [GAME_EVENTS.RHINO_APPEARED]: {
+        position: Position;
+    };
+    [GAME_EVENTS.RHINO_LUNGED]: {
+        position: Position;
+    };
+    [GAME_EVENTS.RHINO_TIRED]: {
+        position: Position;
+    };
+    [GAME_EVENTS.RHINO_CAUGHT_TARGET]: {
+        position: Position;
+    };
+    [GAME_EVENTS.RHINO_JAWS_CLOSED]: {
+        position: Position;
+    };
+    [GAME_EVENTS.RHINO_CELEBRATED]: {
+        position: Position;
+    };
+    [GAME_EVENTS.OBSTACLE_PLACED]: {
+        position: Position;
+        obstacleType: OBSTACLE_TYPES;
+    };
+    [GAME_EVENTS.GATE_PASSED]: {
+        position: Position;
+
+        /**
+         * Which gate of the course it was, counting from 0
+         */
+        gateIndex: number;
+    };
+    [GAME_EVENTS.GATE_MISSED]: {
+        position: Position;
+        gateIndex: number;
+    };
+    [GAME_EVENTS.SKIER_FINISHED]: {
+        position: Position;
+    };
+}
+
+export type GameEventBus = EventBus<iGameEvents>;
@@ -1,10 +1,46 @@
 /**
- * Interface for an Image to provide a name and url
+ * Interfaces for the images the game uses: the manifest entries that say where to find them, the atlases they can be
+ * packed into, and the sprites they're drawn from once loaded.
  */
 
 import { IMAGE_NAMES } from "../Constants";
 
-export interface iImage {
+export interface iImageSize {
+    width: number;
+    height: number;
+}
+
+export interface iImage extends iImageSize {
     name: IMAGE_NAMES;
     url: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Where one image is in an atlas, in pixels
+ */
+export interface iAtlasFrame {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * The JSON frame map of an atlas: the packed image, relative to the JSON file, and where each image is in it
+ */
+export interface iAtlas {
+    image: string;
+    frames: {[key in IMAGE_NAMES]?: iAtlasFrame};
+}
+
+/**
+ * A loaded image ready to draw: the part of a source image it's cut from, and the size it's drawn at. Images loaded on
+ * their own are the whole of their source, images from an atlas share it.
+ */
+export interface iSprite extends iImageSize {
+    source: CanvasImageSource;
+    sourceX: number;
+    sourceY: number;
+    sourceWidth: number;
+    sourceHeight: number;
+}
@@ -0,0 +1,78 @@
+/**
+ * Interfaces for scores on the leaderboard, both the one kept in the browser and the one on the server.
+ */
+
+import { DIFFICULTIES, PHYSICS_MODES, SUBMISSION_STATES } from "../Constants";
+
+export interface iLeaderboardEntry {
+    /**
+     * The name the player entered
+     */
+    name: string;
+
+    /**
+     * Final score of the run
+     */
+    points: number;
+
+    /**
+     * How far down the slope the run got, in metres
+     */
+    distance: number;
+
+    /**
+     * Seed of the world the run was played on
+     */
+    seed: number;
+
+    /**
+     * The difficulty and physics the run was played with. Scores are only ranked against others set with the same.
+     */
+    difficulty: DIFFICULTIES;
+    physics: PHYSICS_MODES;
+
+    /**
+     * When the score was set, as an ISO 8601 string
+     */
+    date: string;
+}
+
+/**
+ * What the server responds with when a score is submitted
+ */
+export interface iOnlineRanks {
+    /**
+     * The score's rank among every score on the server with the same difficulty and physics, 1 being the best
+     */
+    rank: number;
+
+    /**
+     * The score's rank among those scores on the same seed
+     */
+    seedRank: number;
+}
+
+/**
+ * Where a score submitted from the game over screen placed
+ */
+export interface iScoreSubmission {
+    /**
+     * The score that was submitted
+     */
+    entry: iLeaderboardEntry;
+
+    /**
+     * The score's rank among scores kept in this browser with the same difficulty and physics
+     */
+    localRank: number;
+
+    /**
+     * How far sending the score to the server has got
+     */
+    status: SUBMISSION_STATES;
+
+    /**
+     * Ranks on the server, once it has answered
+     */
+    onlineRanks: iOnlineRanks | null;
+}
@@ -0,0 +1,28 @@
+/**
+ * Interface for an entry in the obstacle type registry
+ */
+
+import { COLLISION_BEHAVIORS, IMAGE_NAMES, RENDER_LAYERS } from "../Constants";
+
+export interface iObstacleType {
+    /**
+     * The image the obstacle is drawn with, which also sets the shapes it collides as
+     */
+    image: IMAGE_NAMES;
+
+    /**
+     * How often the obstacle is picked when scattering random obstacles, compared to the other types. 0 means it's
+     * only ever placed by hand, in terrain patterns.
+     */
+    spawnWeight: number;
+
+    /**
+     * What happens when the skier runs into the obstacle
+     */
+    behavior: COLLISION_BEHAVIORS;
+
+    /**
+     * The layer the obstacle is drawn in. Obstacles lying flat on the snow are on the ground, under the skier.
+     */
+    layer: RENDER_LAYERS;
+}
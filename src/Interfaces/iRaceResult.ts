@@ -0,0 +1,35 @@
+/**
+ * Interface for how a slalom race is going, or how it went once the skier has crossed the finish line.
+ */
+
+export interface iRaceResult {
+    /**
+     * Time on the clock in ms, which stops when the skier finishes
+     */
+    time: number;
+
+    /**
+     * Time added for missed gates, in ms
+     */
+    penalty: number;
+
+    /**
+     * The time plus penalties, which is what the race is judged on
+     */
+    totalTime: number;
+
+    gatesPassed: number;
+    gatesMissed: number;
+
+    /**
+     * How many gates there are on the whole course
+     */
+    gateCount: number;
+
+    finished: boolean;
+
+    /**
+     * The total time to beat in ms, or null if the course doesn't have one
+     */
+    parTime: number | null;
+}
@@ -0,0 +1,66 @@
+/**
+ * Interface for anything the game can be drawn to. The renderer also defines the size of the viewport onto the game
+ * world, so the simulation never needs to ask the browser how big the screen is.
+ */
+
+import { iSprite } from "./iImage";
+import { RENDER_LAYERS } from "../Constants";
+
+/**
+ * Something waiting in the render queue to be drawn
+ */
+export interface iRenderItem {
+    layer: RENDER_LAYERS;
+
+    /**
+     * Where the item meets the ground, in world space. Items in the same layer are drawn from the top of the mountain
+     * down, so the ones in front are drawn over the ones behind.
+     */
+    sortY: number;
+
+    draw: () => void;
+}
+
+export interface iTextStyle {
+    font?: string;
+    color?: string;
+    align?: CanvasTextAlign;
+}
+
+export interface iRenderer {
+    /**
+     * Size of the viewport in pixels
+     */
+    width: number;
+    height: number;
+
+    /**
+     * Erase everything drawn so far
+     */
+    clearCanvas(): void;
+
+    /**
+     * Set an offset so that images are drawn relative to the coordinates passed in
+     */
+    setDrawOffset(x: number, y: number): void;
+
+    /**
+     * Set how much images are scaled by when they're drawn, so the world can be zoomed in and out
+     */
+    setDrawScale(scale: number): void;
+
+    /**
+     * Draw a sprite at world coordinates, relative to the draw offset and scaled by the draw scale
+     */
+    drawImage(sprite: iSprite, x: number, y: number, width: number, height: number): void;
+
+    /**
+     * Draw text at fixed screen coordinates
+     */
+    drawText(text: string, x: number, y: number, style?: iTextStyle): void;
+
+    /**
+     * Fill a rectangle at fixed screen coordinates
+     */
+    drawRect(x: number, y: number, width: number, height: number, color: string): void;
+}
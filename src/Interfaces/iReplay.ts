@@ -0,0 +1,40 @@
+/**
+ * Interfaces for a recorded run. A replay holds the world seed, difficulty, physics and game mode plus every key the
+ * simulation saw pressed or released, tagged with the tick it was applied on, which is all that's needed to play the
+ * run back exactly.
+ */
+
+import { DIFFICULTIES, GAME_MODES, PHYSICS_MODES } from "../Constants";
+import { iGameSnapshot } from "./iSnapshot";
+
+/**
+ * A key being pressed or released
+ */
+export interface iInput {
+    code: string;
+    pressed: boolean;
+}
+
+export interface iRecordedInput extends iInput {
+    tick: number;
+}
+
+export interface iReplay {
+    version: number;
+
+    /**
+     * The version of world generation the run was played on
+     */
+    generation: number;
+
+    seed: number;
+    difficulty: DIFFICULTIES;
+    physics: PHYSICS_MODES;
+    mode: GAME_MODES;
+    inputs: iRecordedInput[];
+
+    /**
+     * The world the recording started from, when it didn't start at the beginning of a run
+     */
+    snapshot?: iGameSnapshot;
+}
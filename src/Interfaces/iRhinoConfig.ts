@@ -0,0 +1,61 @@
+/**
+ * Interface for tuning when the rhino turns up and how hard it chases. The rhino only catches up in bursts and tires
+ * out if the chase goes on too long, so a skier who keeps moving can get away.
+ */
+
+export interface iRhinoConfig {
+    /**
+     * The rhino appears once the skier is this far down the mountain, in metres...
+     */
+    appearDistance: number;
+
+    /**
+     * ...or once this much game time has passed, in ms, whichever comes first
+     */
+    appearTime: number;
+
+    /**
+     * How close to its target, in pixels, the rhino has to be to lunge at it
+     */
+    lungeRange: number;
+
+    /**
+     * What the rhino's speed is multiplied by while lunging
+     */
+    lungeSpeedMultiplier: number;
+
+    /**
+     * How long a lunge lasts, in ms
+     */
+    lungeDuration: number;
+
+    /**
+     * Time between the start of one lunge and the earliest the next can start, in ms
+     */
+    lungeCooldown: number;
+
+    /**
+     * Stamina used up by each lunge. Stamina runs from 1 when fresh down to 0 when tired out.
+     */
+    lungeStaminaCost: number;
+
+    /**
+     * Stamina used up per second of chasing
+     */
+    chaseStaminaDrain: number;
+
+    /**
+     * Stamina regained per second while tired. The rhino stays tired until it's back to full.
+     */
+    staminaRecovery: number;
+
+    /**
+     * What the rhino's speed is multiplied by while tired
+     */
+    tiredSpeedMultiplier: number;
+
+    /**
+     * How far ahead, in pixels, the rhino looks for obstacles to steer around
+     */
+    avoidanceDistance: number;
+}
@@ -0,0 +1,20 @@
+/**
+ * Interface for the player's score at a point in the run, as shown on the HUD and game over screen.
+ */
+
+export interface iScore {
+    /**
+     * Total points, from distance plus style
+     */
+    points: number;
+
+    /**
+     * Furthest distance travelled down the slope, in metres
+     */
+    distance: number;
+
+    /**
+     * What style points are currently being multiplied by
+     */
+    multiplier: number;
+}
@@ -0,0 +1,32 @@
+/**
+ * Interface for the player's settings, which are kept between visits.
+ */
+
+import { DIFFICULTIES, GAME_MODES, PHYSICS_MODES } from "../Constants";
+
+export interface iSettings {
+    /**
+     * Show the world seed on screen while playing
+     */
+    showSeed: boolean;
+
+    /**
+     * Pause the game automatically when the browser window loses focus
+     */
+    pauseOnBlur: boolean;
+
+    /**
+     * The difficulty new games are played on
+     */
+    difficulty: DIFFICULTIES;
+
+    /**
+     * How the skier moves in new games
+     */
+    physics: PHYSICS_MODES;
+
+    /**
+     * What kind of game new games are
+     */
+    mode: GAME_MODES;
+}
@@ -0,0 +1,127 @@
+/**
+ * Interfaces for a snapshot of the whole game world, which can be saved as JSON and loaded back to carry on exactly
+ * where it was taken.
+ */
+
+import {
+    ANIMATIONS,
+    DIFFICULTIES,
+    GAME_MODES,
+    IMAGE_NAMES,
+    OBSTACLE_TYPES,
+    PHYSICS_MODES,
+    STATES,
+    TRICKS,
+} from "../Constants";
+
+export interface iEntitySnapshot {
+    x: number;
+    y: number;
+    state: STATES | null;
+    imageName: IMAGE_NAMES;
+
+    /**
+     * The animation playing, if any, and how far through it was
+     */
+    animation: ANIMATIONS | null;
+    animationFrame: number;
+    animationFrameTime: number;
+}
+
+export interface iSkierSnapshot extends iEntitySnapshot {
+    direction: number;
+    speed: number;
+
+    /**
+     * Which way the skier was pointing in momentum mode, and the inputs held down
+     */
+    angle: number;
+    heldInputs: string[];
+
+    /**
+     * How long the jump the skier was in lasts and how far through it they were, and the same for any trick, in ms
+     */
+    jumpDuration: number;
+    jumpTime: number;
+
+    /**
+     * Whether the jump was a launch off something like a ramp, rather than a hop
+     */
+    launched: boolean;
+    trick: TRICKS | null;
+    trickTime: number;
+}
+
+export interface iRhinoSnapshot extends iEntitySnapshot {
+    speed: number;
+
+    /**
+     * How worn out the rhino was, whether it had tired out, and the game times its lunge ends and it can lunge again
+     */
+    stamina: number;
+    tired: boolean;
+    lungeEndTime: number;
+    nextLungeTime: number;
+}
+
+export interface iObstacleSnapshot {
+    x: number;
+    y: number;
+    type: OBSTACLE_TYPES;
+}
+
+export interface iChunkSnapshot {
+    /**
+     * The chunk's column and row in the grid of chunks the world is split into
+     */
+    x: number;
+    y: number;
+    obstacles: iObstacleSnapshot[];
+}
+
+export interface iCourseSnapshot {
+    /**
+     * The state of each gate on the slalom course, in order down the course
+     */
+    gateStates: (STATES | null)[];
+
+    /**
+     * The game time the skier crossed the finish line, or null if they haven't yet
+     */
+    finishTime: number | null;
+}
+
+export interface iScoringSnapshot {
+    startY: number;
+    distance: number;
+    stylePoints: number;
+    combo: number;
+    lastStyleTime: number;
+    jumpStartTime: number | null;
+}
+
+export interface iGameSnapshot {
+    version: number;
+    seed: number;
+    difficulty: DIFFICULTIES;
+    physics: PHYSICS_MODES;
+    mode: GAME_MODES;
+    randomState: number;
+    tick: number;
+    gameTime: number;
+    skier: iSkierSnapshot;
+    rhino: iRhinoSnapshot;
+    chunks: iChunkSnapshot[];
+
+    /**
+     * Obstacles taken off the mountain, such as collectibles that were picked up, so they stay gone if their chunk
+     * is generated again
+     */
+    removedObstacles: iObstacleSnapshot[];
+
+    /**
+     * The slalom course, or null when the game isn't a slalom race
+     */
+    course: iCourseSnapshot | null;
+    scoring: iScoringSnapshot;
+}
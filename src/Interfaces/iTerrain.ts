@@ -0,0 +1,38 @@
+/**
+ * Interfaces for generating terrain. The mountain is stitched together from authored patterns of obstacles, and which
+ * patterns turn up depends on the biome the skier is passing through.
+ */
+
+import { OBSTACLE_TYPES, TERRAIN_PATTERNS } from "../Constants";
+
+/**
+ * An obstacle to place, either as part of a pattern or generated for a chunk
+ */
+export interface iObstaclePlacement {
+    /**
+     * Where the obstacle goes. In a pattern, this is relative to the top left of the block it's placed in.
+     */
+    x: number;
+    y: number;
+    type: OBSTACLE_TYPES;
+}
+
+export interface iTerrainPattern {
+    /**
+     * The obstacles laid out by hand for the pattern. Placed in full once obstacles are common enough, and thinned out
+     * before then.
+     */
+    obstacles: iObstaclePlacement[];
+
+    /**
+     * How many random obstacles are scattered around the pattern, as a multiple of the difficulty's obstacle chance
+     */
+    scatter: number;
+}
+
+export interface iBiome {
+    /**
+     * How likely each pattern is to be picked in the biome, compared to the others. Patterns left out aren't used.
+     */
+    patternWeights: Partial<Record<TERRAIN_PATTERNS, number>>;
+}
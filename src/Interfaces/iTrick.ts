@@ -0,0 +1,27 @@
+/**
+ * Interface for a trick the skier can pull off in the air.
+ */
+
+import { IMAGE_NAMES } from "../Constants";
+
+export interface iTrick {
+    /**
+     * The keys that have to be held together to start the trick. The last of them to be pressed starts it.
+     */
+    inputs: string[];
+
+    /**
+     * The frames the skier is drawn with through the trick, spread evenly over its duration
+     */
+    images: IMAGE_NAMES[];
+
+    /**
+     * How long the trick takes, in ms. It has to be finished before the skier lands or they crash.
+     */
+    duration: number;
+
+    /**
+     * How hard the trick is, which is what it scores by
+     */
+    difficulty: number;
+}
@@ -0,0 +1,737 @@
+/**
+ * The course editor, for building courses by hand. Obstacles are picked from a palette down the side of the screen
+ * and clicked onto the mountain, where they can be dragged around, selected and deleted. The view pans with the arrow
+ * keys or by dragging with the right mouse button, and is drawn through the renderer's draw offset just like the game
+ * world. Obstacles can snap to a grid, and every change can be undone and redone.
+ *
+ * Courses are saved to and loaded from JSON course files. Only obstacles are edited here, but everything else in a
+ * loaded course file, such as its gates and finish line, is kept and shown. "Play from start" tries the course out
+ * from the start in the file, and "Play from here" with the skier starting in the middle of the screen instead.
+ */
+
+import { IMAGE_NAMES, KEYS, OBSTACLE_TYPES } from "../Constants";
+import { createCourse, parseCourse } from "../Core/Course";
+import { downloadJson, pickTextFile } from "../Core/Files";
+import { ImageManager } from "../Core/ImageManager";
+import { Position, Rect } from "../Core/Utils";
+import { FinishLine } from "../Entities/Gates/FinishLine";
+import { Gate } from "../Entities/Gates/Gate";
+import { createGate, FINISH_LINE_WIDTH } from "../Entities/Gates/GateManager";
+import { OBSTACLE_TYPE_DEFINITIONS } from "../Entities/Obstacles/ObstacleTypes";
+import { iCourse, iCoursePoint } from "../Interfaces/iCourse";
+import { iSprite } from "../Interfaces/iImage";
+import { iRenderer, iTextStyle } from "../Interfaces/iRenderer";
+import { iObstaclePlacement } from "../Interfaces/iTerrain";
+
+/**
+ * The spacing of the grid obstacles snap to, in pixels
+ */
+const GRID_SIZE: number = 20;
+
+/**
+ * How far each press of an arrow key pans the view, in pixels
+ */
+const PAN_STEP: number = 80;
+
+/**
+ * How many changes can be undone
+ */
+const MAX_UNDO_STEPS: number = 100;
+
+/**
+ * The mouse buttons that place and move obstacles, and that pan the view
+ */
+const PLACE_BUTTON: number = 0;
+const PAN_BUTTON: number = 2;
+
+/**
+ * Size of the toolbar across the top of the screen and the buttons on it
+ */
+const TOOLBAR_HEIGHT: number = 40;
+const BUTTON_WIDTH: number = 130;
+
+/**
+ * Size of the palette down the left of the screen and each obstacle type's slot in it
+ */
+const PALETTE_WIDTH: number = 110;
+const PALETTE_SLOT_HEIGHT: number = 90;
+const PALETTE_IMAGE_SIZE: number = 60;
+const PALETTE_PADDING: number = 10;
+
+/**
+ * Size of the cross marking the middle of the screen, where "Play from here" starts the skier
+ */
+const CROSSHAIR_SIZE: number = 20;
+
+const PANEL_COLOR: string = 'rgba(255, 255, 255, 0.9)';
+const CROSSHAIR_COLOR: string = 'rgba(0, 0, 0, 0.5)';
+const HIGHLIGHT_COLOR: string = 'rgba(21, 101, 192, 0.3)';
+const GRID_COLOR: string = 'rgba(0, 0, 0, 0.08)';
+
+const BUTTON_STYLE: iTextStyle = { font: '16px sans-serif', align: 'center' };
+const LABEL_STYLE: iTextStyle = { font: '12px sans-serif', align: 'center' };
+const STATUS_STYLE: iTextStyle = { font: '14px sans-serif', align: 'right' };
+
+/**
+ * Distance in pixels that text drawn on the toolbar keeps from the edge of the screen
+ */
+const STATUS_MARGIN: number = 10;
+
+/**
+ * The file name courses are saved under
+ */
+const COURSE_FILENAME: string = 'ski-free-course.json';
+
+/**
+ * A button on the toolbar
+ */
+interface iEditorButton {
+    /**
+     * The text shown for the button. Use a function for text that changes, such as whether snapping is on.
+     */
+    label: string | (() => string);
+
+    /**
+     * What happens when the button is clicked
+     */
+    action: () => void;
+}
+
+/**
+ * An obstacle being dragged around, where the pointer grabbed it relative to its center, and the course as it was
+ * before the drag so the move can be undone in one go
+ */
+interface iObstacleDrag {
+    obstacle: iObstaclePlacement;
+    grabOffset: Position;
+    before: iObstaclePlacement[];
+    moved: boolean;
+}
+
+/**
+ * The view being dragged around, from where the pointer and view were when the drag started
+ */
+interface iViewDrag {
+    pointerStart: Position;
+    viewStart: Position;
+}
+
+export class CourseEditor {
+    /**
+     * The renderer the editor is drawn to. Its size is the size of the view onto the course.
+     */
+    private readonly renderer: iRenderer;
+
+    /**
+     * The images obstacles are drawn with, shared with the game
+     */
+    private readonly imageManager: ImageManager;
+
+    /**
+     * Called to try the course out, with where the skier starts
+     */
+    private readonly onPlay: (course: iCourse, start: iCoursePoint) => void;
+
+    /**
+     * Called to leave the editor
+     */
+    private readonly onExit: () => void;
+
+    /**
+     * The buttons along the toolbar, in order from the left
+     */
+    private readonly buttons: iEditorButton[];
+
+    /**
+     * Everything about the course being built apart from its obstacles, as it was in the course file it was loaded from
+     */
+    private course: iCourse = createCourse();
+
+    /**
+     * Every obstacle on the course being built
+     */
+    private obstacles: iObstaclePlacement[] = [];
+
+    /**
+     * The course's gates and finish line, for drawing
+     */
+    private gates: Gate[] = [];
+    private finishLine: FinishLine | null = null;
+
+    /**
+     * The type of obstacle placed by clicking on an empty spot
+     */
+    private selectedType: OBSTACLE_TYPES = OBSTACLE_TYPES.TREE;
+
+    /**
+     * The obstacle last clicked on, which Delete removes
+     */
+    private selectedObstacle: iObstaclePlacement | null = null;
+
+    /**
+     * The top left of the part of the world in view
+     */
+    private view: Position;
+
+    /**
+     * Are obstacles placed and moved onto the grid
+     */
+    private snapToGrid: boolean = true;
+
+    /**
+     * The course as it was before each change that can be undone, most recent last...
+     */
+    private undoStack: iObstaclePlacement[][] = [];
+
+    /**
+     * ...and before each change that's been undone and can be redone
+     */
+    private redoStack: iObstaclePlacement[][] = [];
+
+    /**
+     * The obstacle or view being dragged, if either is
+     */
+    private obstacleDrag: iObstacleDrag | null = null;
+    private viewDrag: iViewDrag | null = null;
+
+    /**
+     * Start with an empty course, viewed with its start in the middle of the screen.
+     */
+    constructor(
+        renderer: iRenderer,
+        imageManager: ImageManager,
+        onPlay: (course: iCourse, start: iCoursePoint) => void,
+        onExit: () => void
+    ) {
+        this.renderer = renderer;
+        this.imageManager = imageManager;
+        this.onPlay = onPlay;
+        this.onExit = onExit;
+        this.view = new Position(-renderer.width / 2, -renderer.height / 2);
+
+        this.buttons = [
+            { label: 'Play from here', action: this.playFromHere.bind(this) },
+            { label: 'Play from start', action: this.playFromStart.bind(this) },
+            { label: 'Save', action: this.saveCourse.bind(this) },
+            { label: 'Load', action: this.loadCourse.bind(this) },
+            { label: 'Undo', action: this.undo.bind(this) },
+            { label: 'Redo', action: this.redo.bind(this) },
+            { label: () => `Snap: ${this.snapToGrid ? 'On' : 'Off'}`, action: this.toggleSnap.bind(this) },
+            { label: 'Back', action: () => this.onExit() },
+        ];
+    }
+
+    /**
+     * Return the course as it stands.
+     */
+    getCourse(): iCourse {
+        return { ...this.course, obstacles: copyObstacles(this.obstacles) };
+    }
+
+    /**
+     * Try the course out, with the skier starting in the middle of the screen.
+     */
+    playFromHere() {
+        this.onPlay(this.getCourse(), this.getViewCenter());
+    }
+
+    /**
+     * Try the course out from its start.
+     */
+    playFromStart() {
+        this.onPlay(this.getCourse(), this.course.start);
+    }
+
+    /**
+     * Save the course to the player's computer.
+     */
+    saveCourse() {
+        downloadJson(COURSE_FILENAME, this.getCourse());
+    }
+
+    /**
+     * Ask the player for a course file and replace the course being built with it, looking at its start.
+     */
+    async loadCourse(): Promise<void> {
+        try {
+            this.setCourse(parseCourse(await pickTextFile('.json,application/json')));
+        } catch (error) {
+            window.alert(`Could not load course: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Replace the course being built, looking at its start. Changes to the course before can't be undone any more.
+     */
+    setCourse(course: iCourse) {
+        this.course = course;
+        this.obstacles = copyObstacles(course.obstacles);
+        this.selectedObstacle = null;
+        this.undoStack = [];
+        this.redoStack = [];
+
+        this.gates = course.gates.map((gate: iCoursePoint, index: number) => {
+            return createGate(index, gate, this.imageManager, this.renderer);
+        });
+        this.finishLine = course.finishLine
+            ? new FinishLine(
+                course.finishLine.x,
+                course.finishLine.y,
+                FINISH_LINE_WIDTH,
+                this.imageManager,
+                this.renderer
+            )
+            : null;
+
+        this.view = new Position(course.start.x - this.renderer.width / 2, course.start.y - this.renderer.height / 2);
+    }
+
+    /**
+     * Switch snapping obstacles to the grid on or off.
+     */
+    toggleSnap() {
+        this.snapToGrid = !this.snapToGrid;
+    }
+
+    /**
+     * Remember the course as it was before a change, so the change can be undone. Making a change means anything
+     * undone can't be redone any more.
+     */
+    recordChange(before: iObstaclePlacement[]) {
+        this.undoStack.push(copyObstacles(before));
+        if (this.undoStack.length > MAX_UNDO_STEPS) {
+            this.undoStack.shift();
+        }
+
+        this.redoStack = [];
+    }
+
+    /**
+     * Put the course back as it was before the last change.
+     */
+    undo() {
+        const previous: iObstaclePlacement[] | undefined = this.undoStack.pop();
+        if (!previous) {
+            return;
+        }
+
+        this.redoStack.push(copyObstacles(this.obstacles));
+        this.obstacles = previous;
+        this.selectedObstacle = null;
+    }
+
+    /**
+     * Make the last change that was undone again.
+     */
+    redo() {
+        const next: iObstaclePlacement[] | undefined = this.redoStack.pop();
+        if (!next) {
+            return;
+        }
+
+        this.undoStack.push(copyObstacles(this.obstacles));
+        this.obstacles = next;
+        this.selectedObstacle = null;
+    }
+
+    /**
+     * Add an obstacle of the selected type at a point in the world, and select it.
+     */
+    placeObstacle(worldPosition: Position) {
+        this.recordChange(this.obstacles);
+
+        const obstacle: iObstaclePlacement = {
+            x: this.snap(worldPosition.x),
+            y: this.snap(worldPosition.y),
+            type: this.selectedType,
+        };
+        this.obstacles.push(obstacle);
+        this.selectedObstacle = obstacle;
+    }
+
+    /**
+     * Take the selected obstacle off the course.
+     */
+    deleteSelected() {
+        const selected: iObstaclePlacement | null = this.selectedObstacle;
+        if (!selected) {
+            return;
+        }
+
+        this.recordChange(this.obstacles);
+        this.obstacles = this.obstacles.filter((obstacle: iObstaclePlacement) => obstacle !== selected);
+        this.selectedObstacle = null;
+    }
+
+    /**
+     * Move the view by the passed in distance.
+     */
+    pan(x: number, y: number) {
+        this.view.x += x;
+        this.view.y += y;
+    }
+
+    /**
+     * Handle keyboard input for panning, deleting, undoing and redoing, snapping and leaving. Undo and redo are held
+     * with Ctrl or Cmd, and Ctrl+Shift+Z redoes too. Return whether the input was used.
+     */
+    handleInput(inputCode: string, commandKey: boolean = false, shiftKey: boolean = false): boolean {
+        switch (inputCode) {
+            case KEYS.LEFT:
+                this.pan(-PAN_STEP, 0);
+                return true;
+            case KEYS.RIGHT:
+                this.pan(PAN_STEP, 0);
+                return true;
+            case KEYS.UP:
+                this.pan(0, -PAN_STEP);
+                return true;
+            case KEYS.DOWN:
+                this.pan(0, PAN_STEP);
+                return true;
+            case KEYS.DELETE:
+            case KEYS.BACKSPACE:
+                this.deleteSelected();
+                return true;
+            case KEYS.UNDO:
+                if (!commandKey) {
+                    return false;
+                }
+
+                if (shiftKey) {
+                    this.redo();
+                } else {
+                    this.undo();
+                }
+                return true;
+            case KEYS.REDO:
+                if (!commandKey) {
+                    return false;
+                }
+
+                this.redo();
+                return true;
+            case KEYS.TOGGLE_SNAP:
+                this.toggleSnap();
+                return true;
+            case KEYS.ENTER:
+                this.playFromHere();
+                return true;
+            case KEYS.ESCAPE:
+                this.onExit();
+                return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Handle a mouse button being pressed at a point on screen. Clicking the toolbar or palette uses them. Otherwise
+     * the place button grabs the obstacle under the pointer to drag it, or places a new one if there isn't one, and the
+     * pan button starts dragging the view.
+     */
+    handlePointerDown(x: number, y: number, button: number) {
+        const pointer: Position = new Position(x, y);
+
+        if (button === PAN_BUTTON) {
+            this.viewDrag = { pointerStart: pointer, viewStart: new Position(this.view.x, this.view.y) };
+            return;
+        }
+
+        if (button !== PLACE_BUTTON) {
+            return;
+        }
+
+        if (y < TOOLBAR_HEIGHT) {
+            const toolbarButton: iEditorButton | undefined = this.buttons[Math.floor(x / BUTTON_WIDTH)];
+            if (toolbarButton) {
+                toolbarButton.action();
+            }
+            return;
+        }
+
+        if (x < PALETTE_WIDTH) {
+            const slot: number = Math.floor((y - TOOLBAR_HEIGHT) / PALETTE_SLOT_HEIGHT);
+            const type: OBSTACLE_TYPES | undefined = getPaletteTypes()[slot];
+            if (type) {
+                this.selectedType = type;
+            }
+            return;
+        }
+
+        const worldPosition: Position = this.toWorld(pointer);
+        const obstacle: iObstaclePlacement | null = this.getObstacleAt(worldPosition);
+
+        if (!obstacle) {
+            this.placeObstacle(worldPosition);
+            return;
+        }
+
+        this.selectedObstacle = obstacle;
+        this.obstacleDrag = {
+            obstacle,
+            grabOffset: new Position(worldPosition.x - obstacle.x, worldPosition.y - obstacle.y),
+            before: copyObstacles(this.obstacles),
+            moved: false,
+        };
+    }
+
+    /**
+     * Handle the mouse moving to a point on screen, dragging whatever is being dragged along with it.
+     */
+    handlePointerMove(x: number, y: number) {
+        if (this.viewDrag) {
+            this.view.x = this.viewDrag.viewStart.x - (x - this.viewDrag.pointerStart.x);
+            this.view.y = this.viewDrag.viewStart.y - (y - this.viewDrag.pointerStart.y);
+        }
+
+        const drag: iObstacleDrag | null = this.obstacleDrag;
+        if (drag) {
+            const worldPosition: Position = this.toWorld(new Position(x, y));
+            const newX: number = this.snap(worldPosition.x - drag.grabOffset.x);
+            const newY: number = this.snap(worldPosition.y - drag.grabOffset.y);
+
+            if (newX !== drag.obstacle.x || newY !== drag.obstacle.y) {
+                drag.obstacle.x = newX;
+                drag.obstacle.y = newY;
+                drag.moved = true;
+            }
+        }
+    }
+
+    /**
+     * Handle the mouse button being let go of, finishing any drag. Moving an obstacle is undone in one go, however far
+     * it was dragged.
+     */
+    handlePointerUp() {
+        if (this.obstacleDrag && this.obstacleDrag.moved) {
+            this.recordChange(this.obstacleDrag.before);
+        }
+
+        this.obstacleDrag = null;
+        this.viewDrag = null;
+    }
+
+    /**
+     * Return the obstacle drawn on top at a point in the world, or null if there isn't one there.
+     */
+    getObstacleAt(worldPosition: Position): iObstaclePlacement | null {
+        for (let i = this.obstacles.length - 1; i >= 0; i--) {
+            const bounds: Rect | null = this.getObstacleBounds(this.obstacles[i]);
+
+            if (
+                bounds
+                && worldPosition.x >= bounds.left
+                && worldPosition.x <= bounds.right
+                && worldPosition.y >= bounds.top
+                && worldPosition.y <= bounds.bottom
+            ) {
+                return this.obstacles[i];
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Return the area of the world an obstacle's image covers.
+     */
+    getObstacleBounds(obstacle: iObstaclePlacement): Rect | null {
+        const size = this.imageManager.getImageSize(OBSTACLE_TYPE_DEFINITIONS[obstacle.type].image);
+        if (!size) {
+            return null;
+        }
+
+        return new Rect(
+            obstacle.x - size.width / 2,
+            obstacle.y - size.height / 2,
+            obstacle.x + size.width / 2,
+            obstacle.y + size.height / 2
+        );
+    }
+
+    /**
+     * Round a world coordinate to the grid when snapping, or to the nearest pixel otherwise.
+     */
+    snap(coordinate: number): number {
+        const step: number = this.snapToGrid ? GRID_SIZE : 1;
+
+        return Math.round(coordinate / step) * step;
+    }
+
+    /**
+     * Return where in the world the middle of the screen is.
+     */
+    getViewCenter(): Position {
+        return this.toWorld(new Position(this.renderer.width / 2, this.renderer.height / 2));
+    }
+
+    /**
+     * Return where in the world a point on screen is.
+     */
+    toWorld(screenPosition: Position): Position {
+        return new Position(screenPosition.x + this.view.x, screenPosition.y + this.view.y);
+    }
+
+    /**
+     * Draw the course in view, with the grid when snapping, the selected obstacle highlighted and the skier at the
+     * course's start, then the toolbar and palette over the top with the middle of the screen marked.
+     */
+    draw() {
+        this.renderer.setDrawOffset(this.view.x, this.view.y);
+        this.renderer.setDrawScale(1);
+
+        if (this.snapToGrid) {
+            this.drawGrid();
+        }
+
+        this.gates.forEach((gate: Gate) => gate.draw());
+        if (this.finishLine) {
+            this.finishLine.draw();
+        }
+
+        this.obstacles.forEach((obstacle: iObstaclePlacement) => {
+            if (obstacle === this.selectedObstacle) {
+                this.drawHighlight(obstacle);
+            }
+
+            this.drawSprite(OBSTACLE_TYPE_DEFINITIONS[obstacle.type].image, obstacle.x, obstacle.y);
+        });
+
+        this.drawSprite(IMAGE_NAMES.SKIER_DOWN, this.course.start.x, this.course.start.y);
+
+        this.renderer.setDrawOffset(0, 0);
+        this.drawCrosshair();
+        this.drawToolbar();
+        this.drawPalette();
+    }
+
+    /**
+     * Mark the middle of the screen, where "Play from here" starts the skier.
+     */
+    drawCrosshair() {
+        const centerX: number = this.renderer.width / 2;
+        const centerY: number = this.renderer.height / 2;
+
+        this.renderer.drawRect(centerX - CROSSHAIR_SIZE / 2, centerY, CROSSHAIR_SIZE, 1, CROSSHAIR_COLOR);
+        this.renderer.drawRect(centerX, centerY - CROSSHAIR_SIZE / 2, 1, CROSSHAIR_SIZE, CROSSHAIR_COLOR);
+    }
+
+    /**
+     * Draw the lines of the grid across the screen.
+     */
+    drawGrid() {
+        const firstX: number = Math.ceil(this.view.x / GRID_SIZE) * GRID_SIZE - this.view.x;
+        for (let x = firstX; x < this.renderer.width; x += GRID_SIZE) {
+            this.renderer.drawRect(x, 0, 1, this.renderer.height, GRID_COLOR);
+        }
+
+        const firstY: number = Math.ceil(this.view.y / GRID_SIZE) * GRID_SIZE - this.view.y;
+        for (let y = firstY; y < this.renderer.height; y += GRID_SIZE) {
+            this.renderer.drawRect(0, y, this.renderer.width, 1, GRID_COLOR);
+        }
+    }
+
+    /**
+     * Shade the area around an obstacle to show it's selected.
+     */
+    drawHighlight(obstacle: iObstaclePlacement) {
+        const bounds: Rect | null = this.getObstacleBounds(obstacle);
+        if (!bounds) {
+            return;
+        }
+
+        this.renderer.drawRect(
+            bounds.left - this.view.x,
+            bounds.top - this.view.y,
+            bounds.right - bounds.left,
+            bounds.bottom - bounds.top,
+            HIGHLIGHT_COLOR
+        );
+    }
+
+    /**
+     * Draw an image centered on a point, at its full size.
+     */
+    drawSprite(imageName: IMAGE_NAMES, x: number, y: number) {
+        const sprite: iSprite | undefined = this.imageManager.getImage(imageName);
+        if (!sprite) {
+            return;
+        }
+
+        this.renderer.drawImage(sprite, x - sprite.width / 2, y - sprite.height / 2, sprite.width, sprite.height);
+    }
+
+    /**
+     * Draw the toolbar's buttons across the top of the screen, with the course's name and how many obstacles are on it
+     * at the end.
+     */
+    drawToolbar() {
+        this.renderer.drawRect(0, 0, this.renderer.width, TOOLBAR_HEIGHT, PANEL_COLOR);
+
+        this.buttons.forEach((button: iEditorButton, index: number) => {
+            const label: string = typeof button.label === 'function' ? button.label() : button.label;
+
+            this.renderer.drawText(label, (index + 0.5) * BUTTON_WIDTH, TOOLBAR_HEIGHT * 0.65, BUTTON_STYLE);
+        });
+
+        this.renderer.drawText(
+            `${this.course.metadata.name}: ${this.obstacles.length} obstacles`,
+            this.renderer.width - STATUS_MARGIN,
+            TOOLBAR_HEIGHT * 0.65,
+            STATUS_STYLE
+        );
+    }
+
+    /**
+     * Draw the palette of obstacle types down the left of the screen, shrinking any image too big for its slot and
+     * highlighting the type that's placed by clicking.
+     */
+    drawPalette() {
+        this.renderer.drawRect(0, TOOLBAR_HEIGHT, PALETTE_WIDTH, this.renderer.height - TOOLBAR_HEIGHT, PANEL_COLOR);
+
+        getPaletteTypes().forEach((type: OBSTACLE_TYPES, index: number) => {
+            const slotTop: number = TOOLBAR_HEIGHT + index * PALETTE_SLOT_HEIGHT;
+
+            if (type === this.selectedType) {
+                this.renderer.drawRect(0, slotTop, PALETTE_WIDTH, PALETTE_SLOT_HEIGHT, HIGHLIGHT_COLOR);
+            }
+
+            const sprite: iSprite | undefined = this.imageManager.getImage(OBSTACLE_TYPE_DEFINITIONS[type].image);
+            if (sprite) {
+                const scale: number = Math.min(1, PALETTE_IMAGE_SIZE / Math.max(sprite.width, sprite.height));
+                const width: number = sprite.width * scale;
+                const height: number = sprite.height * scale;
+
+                this.renderer.drawImage(
+                    sprite,
+                    (PALETTE_WIDTH - width) / 2,
+                    slotTop + PALETTE_PADDING + (PALETTE_IMAGE_SIZE - height) / 2,
+                    width,
+                    height
+                );
+            }
+
+            this.renderer.drawText(
+                type,
+                PALETTE_WIDTH / 2,
+                slotTop + PALETTE_SLOT_HEIGHT - PALETTE_PADDING,
+                LABEL_STYLE
+            );
+        });
+    }
+}
+
+/**
+ * Return the obstacle types in the palette, in order down the screen.
+ */
+function getPaletteTypes(): OBSTACLE_TYPES[] {
+    return Object.values(OBSTACLE_TYPES);
+}
+
+/**
+ * Return a copy of a list of obstacles that can be changed without changing the original.
+ */
+function copyObstacles(obstacles: iObstaclePlacement[]): iObstaclePlacement[] {
+    return obstacles.map((obstacle: iObstaclePlacement) => ({ ...obstacle }));
+}
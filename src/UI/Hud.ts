@@ -0,0 +1,91 @@
+/**
+ * The heads up display drawn over the game while it's played, showing the score, distance, speed and elapsed time. A
+ * slalom race has its own HUD showing the clock, speed and how the skier is getting on with the gates.
+ */
+
+import { PIXELS_PER_METRE } from "../Constants";
+import { iRaceResult } from "../Interfaces/iRaceResult";
+import { iRenderer, iTextStyle } from "../Interfaces/iRenderer";
+import { iScore } from "../Interfaces/iScore";
+
+const SCORE_STYLE: iTextStyle = { font: 'bold 24px sans-serif' };
+const STAT_STYLE: iTextStyle = { font: '16px sans-serif' };
+
+/**
+ * Distance in pixels the HUD keeps from the edges of the screen
+ */
+const HUD_MARGIN: number = 10;
+
+/**
+ * Vertical space between the lines of the HUD
+ */
+const LINE_HEIGHT: number = 22;
+
+/**
+ * Draw the HUD in the top left corner of the screen. Speed is in pixels per second and elapsed time in ms.
+ */
+export function drawHud(renderer: iRenderer, score: iScore, speed: number, elapsedTime: number) {
+    const multiplierText: string = score.multiplier > 1 ? `  x${score.multiplier}` : '';
+
+    const lines: string[] = [
+        `Distance: ${Math.floor(score.distance)}m`,
+        `Speed: ${formatSpeed(speed)}`,
+        `Time: ${formatTime(elapsedTime)}`,
+    ];
+
+    drawLines(renderer, `${score.points}${multiplierText}`, lines);
+}
+
+/**
+ * Draw the slalom race HUD in the top left corner of the screen: the clock with any penalties so far, the skier's
+ * speed in pixels per second and the gates passed and missed.
+ */
+export function drawRaceHud(renderer: iRenderer, result: iRaceResult, speed: number) {
+    const penaltyText: string = result.penalty ? `  +${formatRaceTime(result.penalty)}` : '';
+
+    const lines: string[] = [
+        `Speed: ${formatSpeed(speed)}`,
+        `Gates: ${result.gatesPassed + result.gatesMissed}/${result.gateCount}`,
+        `Missed: ${result.gatesMissed}`,
+    ];
+
+    drawLines(renderer, `${formatRaceTime(result.time)}${penaltyText}`, lines);
+}
+
+/**
+ * Draw a headline in large text with lines of stats below it.
+ */
+function drawLines(renderer: iRenderer, headline: string, lines: string[]) {
+    renderer.drawText(headline, HUD_MARGIN, HUD_MARGIN + LINE_HEIGHT, SCORE_STYLE);
+
+    lines.forEach((line: string, index: number) => {
+        renderer.drawText(line, HUD_MARGIN, HUD_MARGIN + (index + 2) * LINE_HEIGHT, STAT_STYLE);
+    });
+}
+
+/**
+ * Format a speed in pixels per second as km/h
+ */
+function formatSpeed(speed: number): string {
+    return `${Math.round((speed / PIXELS_PER_METRE) * 3.6)}km/h`;
+}
+
+/**
+ * Format a time in ms as minutes and seconds, e.g. 1:05
+ */
+export function formatTime(time: number): string {
+    const totalSeconds: number = Math.floor(time / 1000);
+    const minutes: number = Math.floor(totalSeconds / 60);
+    const seconds: number = totalSeconds % 60;
+
+    return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+}
+
+/**
+ * Format a time in ms to the hundredth of a second, as races are won and lost by less than a second, e.g. 1:05.37
+ */
+export function formatRaceTime(time: number): string {
+    const hundredths: number = Math.floor(time / 10) % 100;
+
+    return `${formatTime(time)}.${hundredths < 10 ? '0' : ''}${hundredths}`;
+}
@@ -0,0 +1,76 @@
+/**
+ * A list of options drawn as a screen over the game. The up and down arrow keys move between the options and Enter
+ * chooses the selected one.
+ */
+
+import { KEYS } from "../Constants";
+import { iRenderer } from "../Interfaces/iRenderer";
+import { drawScreen } from "./Screens";
+
+export interface iMenuItem {
+    /**
+     * The text shown for the item. Use a function for text that changes, such as a setting's current value.
+     */
+    label: string | (() => string);
+
+    /**
+     * What happens when the item is chosen
+     */
+    action: () => void;
+}
+
+export class Menu {
+    /**
+     * Shown above the items
+     */
+    private readonly title: string;
+
+    private readonly items: iMenuItem[];
+
+    /**
+     * Index of the item that Enter will choose
+     */
+    private selectedIndex: number = 0;
+
+    constructor(title: string, items: iMenuItem[]) {
+        this.title = title;
+        this.items = items;
+    }
+
+    /**
+     * Select the first item again, ready for the menu to be reopened.
+     */
+    reset() {
+        this.selectedIndex = 0;
+    }
+
+    /**
+     * Handle keyboard input for moving between and choosing items. Return whether the input was used.
+     */
+    handleInput(inputCode: string): boolean {
+        switch (inputCode) {
+            case KEYS.UP:
+                this.selectedIndex = (this.selectedIndex + this.items.length - 1) % this.items.length;
+                return true;
+            case KEYS.DOWN:
+                this.selectedIndex = (this.selectedIndex + 1) % this.items.length;
+                return true;
+            case KEYS.ENTER:
+                this.items[this.selectedIndex].action();
+                return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Draw the menu over whatever is already on the renderer, highlighting the selected item.
+     */
+    draw(renderer: iRenderer) {
+        const labels: string[] = this.items.map((item: iMenuItem): string => {
+            return typeof item.label === 'function' ? item.label() : item.label;
+        });
+
+        drawScreen(renderer, this.title, labels, this.selectedIndex);
+    }
+}
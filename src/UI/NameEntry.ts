@@ -0,0 +1,63 @@
+/**
+ * A single line of text typed in by the player, such as their name for the leaderboard. Works from the character a key
+ * types rather than which key it is, so it follows the player's keyboard layout.
+ */
+
+import { KEYS } from "../Constants";
+
+/**
+ * Characters that can be typed in
+ */
+const ALLOWED_CHARACTER: RegExp = /^[A-Za-z0-9 _.\-]$/;
+
+export class NameEntry {
+    /**
+     * The text typed so far
+     */
+    private text: string;
+
+    /**
+     * Longest the text can be
+     */
+    private readonly maxLength: number;
+
+    constructor(text: string, maxLength: number) {
+        this.text = text.slice(0, maxLength);
+        this.maxLength = maxLength;
+    }
+
+    /**
+     * Return the text with any space around it taken off.
+     */
+    getText(): string {
+        return this.text.trim();
+    }
+
+    /**
+     * Handle a keypress, typing the character it makes or deleting the last one for backspace. Return whether the key
+     * was used.
+     */
+    handleInput(inputCode: string, key: string): boolean {
+        if (inputCode === KEYS.BACKSPACE) {
+            this.text = this.text.slice(0, -1);
+            return true;
+        }
+
+        if (!ALLOWED_CHARACTER.test(key)) {
+            return false;
+        }
+
+        if (this.text.length < this.maxLength) {
+            this.text += key;
+        }
+
+        return true;
+    }
+
+    /**
+     * Return the text as it should be shown, with a cursor after it.
+     */
+    getDisplayText(): string {
+        return `${this.text}_`;
+    }
+}
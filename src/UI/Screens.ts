@@ -0,0 +1,173 @@
+/**
+ * Draws the screens shown for each of the App's states that aren't just the game being played. Screens are drawn
+ * over whatever is already on the renderer.
+ */
+
+import { SUBMISSION_STATES } from "../Constants";
+import { DIFFICULTY_PRESETS } from "../Core/Difficulty";
+import { NameEntry } from "./NameEntry";
+import { formatRaceTime } from "./Hud";
+import { iScoreSubmission } from "../Interfaces/iLeaderboard";
+import { iRaceResult } from "../Interfaces/iRaceResult";
+import { iRenderer, iTextStyle } from "../Interfaces/iRenderer";
+import { iScore } from "../Interfaces/iScore";
+
+/**
+ * Colour laid over the game world behind a screen's text, so the text stands out
+ */
+const OVERLAY_COLOR: string = 'rgba(255, 255, 255, 0.75)';
+
+const TITLE_STYLE: iTextStyle = { font: 'bold 48px sans-serif', align: 'center' };
+const MESSAGE_STYLE: iTextStyle = { font: '20px sans-serif', align: 'center' };
+const HIGHLIGHTED_MESSAGE_STYLE: iTextStyle = { font: 'bold 20px sans-serif', color: '#1565c0', align: 'center' };
+
+/**
+ * Vertical space between lines of text on a screen
+ */
+const LINE_HEIGHT: number = 40;
+
+/**
+ * Size of the loading bar, and the colours of the part still to load and the part done
+ */
+const LOADING_BAR_WIDTH: number = 300;
+const LOADING_BAR_HEIGHT: number = 12;
+const LOADING_BAR_COLOR: string = '#cfd8dc';
+const LOADING_BAR_FILL_COLOR: string = '#1565c0';
+
+/**
+ * The most image load failures listed on the loading screen, so the list fits on it
+ */
+const MAX_LISTED_LOAD_ERRORS: number = 5;
+
+/**
+ * The title screen shown while the game's images are loading, with a bar showing how far they've got, before its menu
+ * can be used.
+ */
+export function drawLoadingScreen(renderer: iRenderer, progress: number) {
+    drawScreen(renderer, 'Ski Free', [
+        `Loading... ${Math.floor(progress * 100)}%`,
+    ]);
+
+    const barX: number = (renderer.width - LOADING_BAR_WIDTH) / 2;
+    const barY: number = renderer.height / 2 + LINE_HEIGHT;
+
+    renderer.drawRect(barX, barY, LOADING_BAR_WIDTH, LOADING_BAR_HEIGHT, LOADING_BAR_COLOR);
+    renderer.drawRect(barX, barY, LOADING_BAR_WIDTH * progress, LOADING_BAR_HEIGHT, LOADING_BAR_FILL_COLOR);
+}
+
+/**
+ * The title screen shown once the images have loaded if any of them couldn't be, listing what went wrong. The game can
+ * still be played, with the images that failed drawn as placeholders.
+ */
+export function drawLoadErrorScreen(renderer: iRenderer, errors: Error[]) {
+    const lines: string[] = [
+        `${errors.length} image${errors.length === 1 ? '' : 's'} couldn't be loaded and will be shown as placeholders`,
+    ];
+
+    errors.slice(0, MAX_LISTED_LOAD_ERRORS).forEach((error: Error) => lines.push(error.message));
+    if (errors.length > MAX_LISTED_LOAD_ERRORS) {
+        lines.push(`...and ${errors.length - MAX_LISTED_LOAD_ERRORS} more`);
+    }
+
+    lines.push('Press Enter to carry on');
+
+    drawScreen(renderer, 'Ski Free', lines);
+}
+
+/**
+ * The screen shown over the game once the skier has been caught, with their final score. Until the score has been
+ * submitted the player is asked for their name, after which where the score ranked is shown instead. Without either,
+ * the run can't go on the leaderboard, e.g. because it was a replay or on a course from the editor.
+ */
+export function drawGameOverScreen(
+    renderer: iRenderer,
+    score: iScore,
+    nameEntry: NameEntry | null,
+    submission: iScoreSubmission | null
+) {
+    const lines: string[] = [
+        `Score: ${score.points}   Distance: ${Math.floor(score.distance)}m`,
+    ];
+
+    if (submission) {
+        lines.push(
+            `Ranked against runs on ${DIFFICULTY_PRESETS[submission.entry.difficulty].label}, `
+                + `${submission.entry.physics} physics`,
+            `#${submission.localRank} on this device`,
+            onlineRanksLine(submission),
+            'Press Enter to play again',
+            'Press R to save a replay of the run'
+        );
+    } else if (nameEntry) {
+        lines.push(
+            `Name: ${nameEntry.getDisplayText()}`,
+            'Type your name and press Enter to save your score',
+            'Press Escape to skip'
+        );
+    } else {
+        lines.push(
+            'Replays and courses from the editor can\'t be added to the leaderboard',
+            'Press Enter to play again'
+        );
+    }
+
+    drawScreen(renderer, 'Game Over', lines);
+}
+
+/**
+ * The screen shown over the game once the skier has crossed the finish line of a slalom race, with their time, the
+ * gates they missed and the final time once the penalties for those are added on, against par if the course has one.
+ */
+export function drawRaceResultScreen(renderer: iRenderer, result: iRaceResult, canSaveReplay: boolean) {
+    const parText: string = result.parTime === null ? '' : `   Par: ${formatRaceTime(result.parTime)}`;
+
+    const lines: string[] = [
+        `Time: ${formatRaceTime(result.time)}`,
+        `Missed gates: ${result.gatesMissed} of ${result.gateCount}   Penalty: +${formatRaceTime(result.penalty)}`,
+        `Final time: ${formatRaceTime(result.totalTime)}${parText}`,
+        'Press Enter to race again',
+    ];
+
+    if (canSaveReplay) {
+        lines.push('Press R to save a replay of the run');
+    }
+
+    drawScreen(renderer, 'Finished!', lines, 2);
+}
+
+/**
+ * Describe how the score did on the online leaderboard, or how far getting there has got.
+ */
+function onlineRanksLine(submission: iScoreSubmission): string {
+    switch (submission.status) {
+        case SUBMISSION_STATES.SENDING:
+            return 'Sending to the online leaderboard...';
+        case SUBMISSION_STATES.FAILED:
+            return 'The online leaderboard can\'t be reached';
+    }
+
+    const ranks = submission.onlineRanks;
+
+    return ranks
+        ? `#${ranks.rank} worldwide, #${ranks.seedRank} on seed ${submission.entry.seed}`
+        : '';
+}
+
+/**
+ * Lay an overlay over the renderer and draw a title with lines of text below it, centered on screen. The line at the
+ * highlighted index, if any, stands out from the rest.
+ */
+export function drawScreen(renderer: iRenderer, title: string, lines: string[], highlighted: number = -1) {
+    renderer.drawRect(0, 0, renderer.width, renderer.height, OVERLAY_COLOR);
+
+    const centerX: number = renderer.width / 2;
+    const titleY: number = renderer.height / 2 - (lines.length * LINE_HEIGHT) / 2;
+
+    renderer.drawText(title, centerX, titleY, TITLE_STYLE);
+
+    lines.forEach((line: string, index: number) => {
+        const style: iTextStyle = index === highlighted ? HIGHLIGHTED_MESSAGE_STYLE : MESSAGE_STYLE;
+
+        renderer.drawText(line, centerX, titleY + (index + 1) * LINE_HEIGHT, style);
+    });
+}
@@ -0,0 +1,48 @@
+/**
+ * The biomes the mountain passes through on the way down. Each one favours different patterns, so the terrain changes
+ * character as the skier goes further.
+ */
+
+import { BIOMES, TERRAIN_PATTERNS } from "../Constants";
+import { iBiome } from "../Interfaces/iTerrain";
+
+/**
+ * How far down the mountain each stretch of a biome lasts, in metres
+ */
+export const BIOME_LENGTH: number = 500;
+
+/**
+ * The biome the top of the mountain starts in, which is the easiest going
+ */
+export const STARTING_BIOME: BIOMES = BIOMES.GLADE;
+
+export const BIOME_DEFINITIONS: Record<BIOMES, iBiome> = {
+    // Dense trees, mostly in corridors
+    [BIOMES.FOREST]: {
+        patternWeights: {
+            [TERRAIN_PATTERNS.TREE_CORRIDOR]: 5,
+            [TERRAIN_PATTERNS.ROCK_GARDEN]: 1,
+            [TERRAIN_PATTERNS.RAMP_SEQUENCE]: 1,
+            [TERRAIN_PATTERNS.OPEN_POWDER]: 1,
+        },
+    },
+
+    // Above the tree line, rocky with plenty to jump
+    [BIOMES.ALPINE]: {
+        patternWeights: {
+            [TERRAIN_PATTERNS.ROCK_GARDEN]: 4,
+            [TERRAIN_PATTERNS.RAMP_SEQUENCE]: 3,
+            [TERRAIN_PATTERNS.OPEN_POWDER]: 2,
+        },
+    },
+
+    // Open slopes between patches of trees
+    [BIOMES.GLADE]: {
+        patternWeights: {
+            [TERRAIN_PATTERNS.OPEN_POWDER]: 5,
+            [TERRAIN_PATTERNS.TREE_CORRIDOR]: 1,
+            [TERRAIN_PATTERNS.RAMP_SEQUENCE]: 2,
+            [TERRAIN_PATTERNS.ROCK_GARDEN]: 1,
+        },
+    },
+};
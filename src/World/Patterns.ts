@@ -0,0 +1,68 @@
+/**
+ * The authored patterns the terrain is stitched together from. Each pattern fills a square block of PATTERN_SIZE,
+ * with its obstacles positioned from the block's top left. Patterns may be placed mirrored left to right.
+ *
+ * Obstacles are kept at least half the distance between obstacles in from the block's edges, so that patterns placed
+ * side by side never crowd each other.
+ */
+
+import { OBSTACLE_TYPES, TERRAIN_PATTERNS } from "../Constants";
+import { iTerrainPattern } from "../Interfaces/iTerrain";
+
+/**
+ * The width and height of the block each pattern fills, in pixels
+ */
+export const PATTERN_SIZE: number = 320;
+
+export const TERRAIN_PATTERN_DEFINITIONS: Record<TERRAIN_PATTERNS, iTerrainPattern> = {
+    // Two rows of trees with a lane down the middle
+    [TERRAIN_PATTERNS.TREE_CORRIDOR]: {
+        obstacles: [
+            { x: 80, y: 30, type: OBSTACLE_TYPES.TREE },
+            { x: 240, y: 30, type: OBSTACLE_TYPES.TREE },
+            { x: 80, y: 95, type: OBSTACLE_TYPES.TREE },
+            { x: 240, y: 95, type: OBSTACLE_TYPES.TREE },
+            { x: 75, y: 160, type: OBSTACLE_TYPES.TREE_CLUSTER },
+            { x: 245, y: 160, type: OBSTACLE_TYPES.TREE_CLUSTER },
+            { x: 80, y: 225, type: OBSTACLE_TYPES.TREE },
+            { x: 240, y: 225, type: OBSTACLE_TYPES.TREE },
+            { x: 80, y: 290, type: OBSTACLE_TYPES.TREE },
+            { x: 240, y: 290, type: OBSTACLE_TYPES.TREE },
+        ],
+        scatter: 0,
+    },
+
+    // Rocks strewn about to weave between or jump over
+    [TERRAIN_PATTERNS.ROCK_GARDEN]: {
+        obstacles: [
+            { x: 60, y: 40, type: OBSTACLE_TYPES.ROCK1 },
+            { x: 170, y: 60, type: OBSTACLE_TYPES.ROCK2 },
+            { x: 270, y: 30, type: OBSTACLE_TYPES.ROCK1 },
+            { x: 110, y: 130, type: OBSTACLE_TYPES.ROCK2 },
+            { x: 230, y: 150, type: OBSTACLE_TYPES.ROCK1 },
+            { x: 50, y: 220, type: OBSTACLE_TYPES.ROCK1 },
+            { x: 160, y: 240, type: OBSTACLE_TYPES.ROCK2 },
+            { x: 270, y: 250, type: OBSTACLE_TYPES.ROCK2 },
+            { x: 110, y: 290, type: OBSTACLE_TYPES.ROCK1 },
+        ],
+        scatter: 0.25,
+    },
+
+    // A line of ramps, each launching the skier over the rock below it
+    [TERRAIN_PATTERNS.RAMP_SEQUENCE]: {
+        obstacles: [
+            { x: 130, y: 30, type: OBSTACLE_TYPES.JUMP_RAMP },
+            { x: 130, y: 90, type: OBSTACLE_TYPES.ROCK1 },
+            { x: 160, y: 160, type: OBSTACLE_TYPES.JUMP_RAMP },
+            { x: 160, y: 220, type: OBSTACLE_TYPES.ROCK2 },
+            { x: 190, y: 290, type: OBSTACLE_TYPES.JUMP_RAMP },
+        ],
+        scatter: 0.25,
+    },
+
+    // Wide open snow with the odd obstacle
+    [TERRAIN_PATTERNS.OPEN_POWDER]: {
+        obstacles: [],
+        scatter: 0.5,
+    },
+};
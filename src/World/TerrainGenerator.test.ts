@@ -0,0 +1,77 @@
+import { DIFFICULTIES } from "../Constants";
+import { DIFFICULTY_PRESETS, getDifficultyLevel } from "../Core/Difficulty";
+import { Rect } from "../Core/Utils";
+import { CHUNK_SIZE } from "../Entities/Obstacles/ObstacleManager";
+import { ROUTE_CLEARANCE, TerrainGenerator } from "./TerrainGenerator";
+import { iDifficultyCurvePoint, iDifficultyLevel } from "../Interfaces/iDifficulty";
+import { iObstaclePlacement } from "../Interfaces/iTerrain";
+
+/**
+ * The hardest the game gets, so the terrain is as crowded as it can be
+ */
+const HARDEST_CURVE: iDifficultyCurvePoint[] = DIFFICULTY_PRESETS[DIFFICULTIES.HARD].curve;
+const HARDEST_LEVEL: iDifficultyLevel = getDifficultyLevel(HARDEST_CURVE, Infinity);
+
+/**
+ * Generate the chunk at the passed in column and row.
+ */
+function generateChunk(generator: TerrainGenerator, x: number, y: number): iObstaclePlacement[] {
+    return generator.generateChunk(
+        x,
+        y,
+        new Rect(x * CHUNK_SIZE, y * CHUNK_SIZE, (x + 1) * CHUNK_SIZE, (y + 1) * CHUNK_SIZE),
+        HARDEST_LEVEL
+    );
+}
+
+describe('TerrainGenerator', () => {
+    test('generates the same chunk every time for the same seed', () => {
+        expect(generateChunk(new TerrainGenerator(1), 2, 3)).toEqual(generateChunk(new TerrainGenerator(1), 2, 3));
+        expect(generateChunk(new TerrainGenerator(1), 2, 3)).not.toEqual(generateChunk(new TerrainGenerator(2), 2, 3));
+    });
+
+    test.each([1, 2, 3])('never places an obstacle within clearance of a route on seed %i', (seed: number) => {
+        const generator: TerrainGenerator = new TerrainGenerator(seed);
+        let placed: number = 0;
+
+        for (let y = 0; y < 10; y++) {
+            for (let x = -3; x < 3; x++) {
+                generateChunk(generator, x, y).forEach((placement: iObstaclePlacement) => {
+                    const column: number = Math.floor(placement.x / CHUNK_SIZE);
+
+                    for (let routeColumn = column - 1; routeColumn <= column + 1; routeColumn++) {
+                        const routeX: number = generator.getRouteX(routeColumn, placement.y);
+                        expect(Math.abs(placement.x - routeX)).toBeGreaterThanOrEqual(ROUTE_CLEARANCE);
+                    }
+                    placed++;
+                });
+            }
+        }
+
+        expect(placed).toBeGreaterThan(0);
+    });
+
+    test('keeps every route inside its own column', () => {
+        const generator: TerrainGenerator = new TerrainGenerator(1);
+
+        for (let column = -3; column < 3; column++) {
+            for (let y = 0; y < 10 * CHUNK_SIZE; y += 40) {
+                const routeX: number = generator.getRouteX(column, y);
+                expect(routeX).toBeGreaterThan(column * CHUNK_SIZE);
+                expect(routeX).toBeLessThan((column + 1) * CHUNK_SIZE);
+            }
+        }
+    });
+
+    test('keeps the area around where the skier starts clear', () => {
+        const generator: TerrainGenerator = new TerrainGenerator(1);
+        const placements: iObstaclePlacement[] = [-1, 0].reduce((found: iObstaclePlacement[], x: number) => {
+            return found.concat(generateChunk(generator, x, -1), generateChunk(generator, x, 0));
+        }, []);
+
+        placements.forEach((placement: iObstaclePlacement) => {
+            const inStart: boolean = Math.abs(placement.x) < 640 && Math.abs(placement.y) < 360;
+            expect(inStart).toBe(false);
+        });
+    });
+});
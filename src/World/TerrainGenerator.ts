@@ -0,0 +1,326 @@
+/**
+ * Generates the obstacles for each chunk of the world by stitching together authored patterns. Chunks are split into
+ * blocks the size of a pattern, and each block gets a pattern picked by the weights of the biome the chunk is in, with
+ * a few random obstacles scattered around it. The biome changes every BIOME_LENGTH down the mountain.
+ *
+ * However the patterns fall, there's always a way down: the world is split into columns, and each has a route
+ * meandering down it that no obstacle is ever placed on. Routes are worked out from the seed alone, so they line up
+ * across every chunk they pass through.
+ *
+ * Everything is drawn from random number generators seeded from the world seed and the coordinates of what's being
+ * generated, so any chunk can be generated on its own and comes out the same every time.
+ */
+
+import { BIOMES, PIXELS_PER_METRE, TERRAIN_PATTERNS } from "../Constants";
+import { deriveSeed, Random } from "../Core/Random";
+import { SpatialHash } from "../Core/SpatialHash";
+import { lerp, Position, Rect } from "../Core/Utils";
+import { randomObstacleType } from "../Entities/Obstacles/ObstacleTypes";
+import { iDifficultyLevel } from "../Interfaces/iDifficulty";
+import { iObstaclePlacement, iTerrainPattern } from "../Interfaces/iTerrain";
+import { BIOME_DEFINITIONS, BIOME_LENGTH, STARTING_BIOME } from "./Biomes";
+import { PATTERN_SIZE, TERRAIN_PATTERN_DEFINITIONS } from "./Patterns";
+
+/**
+ * The version of world generation. Bump it whenever a change, such as to the patterns, biomes or obstacle types' spawn
+ * weights, means a seed no longer generates the same world. Replays recorded on another version can't reproduce their
+ * runs, so they're turned away.
+ */
+export const WORLD_GENERATION_VERSION: number = 1;
+
+/**
+ * Ensures that obstacles aren't too close together
+ */
+const DISTANCE_BETWEEN_OBSTACLES: number = 50;
+
+/**
+ * Each block is split into square spots of this size for scattering obstacles. Each spot has the pattern's share of
+ * the difficulty's obstacle chance of getting one.
+ */
+const OBSTACLE_SPOT_SIZE: number = 80;
+
+/**
+ * How many places in a block are tried for each scattered obstacle before giving up on it, when each one is too close
+ * to an obstacle already placed
+ */
+const MAX_PLACEMENT_ATTEMPTS: number = 10;
+
+/**
+ * Patterns are placed in full once the difficulty's obstacle chance reaches this. Before then each of their obstacles
+ * only has a share of a chance of being placed, so the mountain starts out sparser.
+ */
+const FULL_PATTERN_OBSTACLE_CHANCE: number = 0.2;
+
+/**
+ * The area around where the skier starts that's kept clear of obstacles, so the player has some initial room to move
+ */
+const STARTING_CLEAR_AREA: Rect = new Rect(-640, -360, 640, 360);
+
+/**
+ * The width of each column of the world that has its own route down it, in pixels
+ */
+const ROUTE_SPACING: number = 640;
+
+/**
+ * Routes stay at least this far in from the edges of their column
+ */
+const ROUTE_MARGIN: number = 160;
+
+/**
+ * Routes head for a new point across their column every this far down the mountain, in pixels. Combined with the
+ * margin this keeps routes no steeper than a skier can follow heading diagonally.
+ */
+const ROUTE_WAYPOINT_SPACING: number = 640;
+
+/**
+ * No obstacle is placed closer than this to the middle of a route. Allows for half the largest obstacle and the route
+ * drifting sideways across an obstacle's height, leaving a lane around 120 pixels wide.
+ */
+export const ROUTE_CLEARANCE: number = 130;
+
+/**
+ * Mixed into the world seed so each kind of thing the generator makes draws from its own random numbers
+ */
+const CHUNK_SEED_SALT: number = 1;
+const ROUTE_SEED_SALT: number = 2;
+const BIOME_SEED_SALT: number = 3;
+
+export class TerrainGenerator {
+    /**
+     * Seeds for the random number generators of chunks, routes and biomes
+     */
+    private readonly chunkSeed: number;
+    private readonly routeSeed: number;
+    private readonly biomeSeed: number;
+
+    /**
+     * The biome of each stretch of the mountain worked out so far, from the top down. Each stretch's biome depends on
+     * the one above it, so they're worked out in order and kept.
+     */
+    private biomes: BIOMES[] = [STARTING_BIOME];
+
+    constructor(seed: number) {
+        this.chunkSeed = deriveSeed(seed, CHUNK_SEED_SALT);
+        this.routeSeed = deriveSeed(seed, ROUTE_SEED_SALT);
+        this.biomeSeed = deriveSeed(seed, BIOME_SEED_SALT);
+    }
+
+    /**
+     * Return the obstacles for the chunk at the passed in column and row, covering the passed in area of the world. The
+     * area's sides must be a whole number of PATTERN_SIZE long.
+     */
+    generateChunk(x: number, y: number, area: Rect, level: iDifficultyLevel): iObstaclePlacement[] {
+        const random: Random = new Random(deriveSeed(this.chunkSeed, x, y));
+        const biome: BIOMES = this.getBiome(area.top / PIXELS_PER_METRE);
+        const placements: iObstaclePlacement[] = [];
+        const placementHash: SpatialHash<iObstaclePlacement> = new SpatialHash(DISTANCE_BETWEEN_OBSTACLES);
+
+        const place = (placement: iObstaclePlacement) => {
+            placements.push(placement);
+            placementHash.insert(placement, new Position(placement.x, placement.y));
+        };
+        const isOpen = (position: Position): boolean => this.isOpenPosition(position, placementHash);
+
+        for (let top = area.top; top < area.bottom; top += PATTERN_SIZE) {
+            for (let left = area.left; left < area.right; left += PATTERN_SIZE) {
+                const block: Rect = new Rect(left, top, left + PATTERN_SIZE, top + PATTERN_SIZE);
+                const pattern: iTerrainPattern = TERRAIN_PATTERN_DEFINITIONS[pickPattern(biome, random)];
+
+                this.placePattern(pattern, block, level, random, isOpen, place);
+                this.scatterObstacles(pattern, block, level, random, isOpen, place);
+            }
+        }
+
+        return placements;
+    }
+
+    /**
+     * Place a pattern's own obstacles in a block, mirrored half of the time. Each obstacle is left out if the pattern
+     * isn't being placed in full yet, or if it would be in the way.
+     */
+    placePattern(
+        pattern: iTerrainPattern,
+        block: Rect,
+        level: iDifficultyLevel,
+        random: Random,
+        isOpen: (position: Position) => boolean,
+        place: (placement: iObstaclePlacement) => void
+    ) {
+        const mirrored: boolean = random.next() < 0.5;
+        const keepChance: number = Math.min(level.obstacleChance / FULL_PATTERN_OBSTACLE_CHANCE, 1);
+
+        pattern.obstacles.forEach((obstacle: iObstaclePlacement) => {
+            if (random.next() >= keepChance) {
+                return;
+            }
+
+            const position: Position = new Position(
+                mirrored ? block.right - obstacle.x : block.left + obstacle.x,
+                block.top + obstacle.y
+            );
+
+            if (isOpen(position)) {
+                place({ x: position.x, y: position.y, type: obstacle.type });
+            }
+        });
+    }
+
+    /**
+     * Scatter random obstacles around a block, as many as the pattern and difficulty call for. They keep half the
+     * distance between obstacles in from the block's edges, like the patterns' own obstacles do.
+     */
+    scatterObstacles(
+        pattern: iTerrainPattern,
+        block: Rect,
+        level: iDifficultyLevel,
+        random: Random,
+        isOpen: (position: Position) => boolean,
+        place: (placement: iObstaclePlacement) => void
+    ) {
+        const inset: number = DISTANCE_BETWEEN_OBSTACLES / 2;
+        const placementArea: Rect = new Rect(
+            block.left + inset,
+            block.top + inset,
+            block.right - inset,
+            block.bottom - inset
+        );
+        const spots: number = Math.pow(PATTERN_SIZE / OBSTACLE_SPOT_SIZE, 2);
+
+        for (let i = 0; i < spots; i++) {
+            if (random.next() >= level.obstacleChance * pattern.scatter) {
+                continue;
+            }
+
+            const position: Position | null = findOpenPosition(placementArea, random, isOpen);
+            if (position) {
+                place({ x: position.x, y: position.y, type: randomObstacleType(random, level.treeClusterWeight) });
+            }
+        }
+    }
+
+    /**
+     * Is the position somewhere an obstacle can go: clear of the starting area and every route, and
+     * DISTANCE_BETWEEN_OBSTACLES away from the obstacles already placed.
+     */
+    isOpenPosition(position: Position, placementHash: SpatialHash<iObstaclePlacement>): boolean {
+        if (isInside(position, STARTING_CLEAR_AREA) || this.isOnRoute(position)) {
+            return false;
+        }
+
+        const nearbyPlacements: iObstaclePlacement[] = placementHash.query(new Rect(
+            position.x - DISTANCE_BETWEEN_OBSTACLES,
+            position.y - DISTANCE_BETWEEN_OBSTACLES,
+            position.x + DISTANCE_BETWEEN_OBSTACLES,
+            position.y + DISTANCE_BETWEEN_OBSTACLES
+        ));
+
+        return !nearbyPlacements.some((placement: iObstaclePlacement) => {
+            return (
+                Math.abs(position.x - placement.x) < DISTANCE_BETWEEN_OBSTACLES &&
+                Math.abs(position.y - placement.y) < DISTANCE_BETWEEN_OBSTACLES
+            );
+        });
+    }
+
+    /**
+     * Is the position too close to a route for an obstacle to go there. Only the routes of its own column and the
+     * ones either side can come near it.
+     */
+    isOnRoute(position: Position): boolean {
+        const column: number = Math.floor(position.x / ROUTE_SPACING);
+
+        for (let routeColumn = column - 1; routeColumn <= column + 1; routeColumn++) {
+            if (Math.abs(position.x - this.getRouteX(routeColumn, position.y)) < ROUTE_CLEARANCE) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Return where across the world the middle of a column's route is at a point down the mountain. The route heads in
+     * a straight line from one waypoint to the next.
+     */
+    getRouteX(column: number, y: number): number {
+        const row: number = Math.floor(y / ROUTE_WAYPOINT_SPACING);
+        const amount: number = y / ROUTE_WAYPOINT_SPACING - row;
+
+        return lerp(this.getRouteWaypoint(column, row), this.getRouteWaypoint(column, row + 1), amount);
+    }
+
+    /**
+     * Return where across the world a column's route passes at the top of a row of waypoints.
+     */
+    getRouteWaypoint(column: number, row: number): number {
+        const random: Random = new Random(deriveSeed(this.routeSeed, column, row));
+
+        return column * ROUTE_SPACING + ROUTE_MARGIN + random.next() * (ROUTE_SPACING - ROUTE_MARGIN * 2);
+    }
+
+    /**
+     * Return the biome at a distance down the mountain, in metres. The mountain starts in the starting biome, and each
+     * stretch after that is a different biome to the one before.
+     */
+    getBiome(distance: number): BIOMES {
+        const stretch: number = Math.max(Math.floor(distance / BIOME_LENGTH), 0);
+
+        while (this.biomes.length <= stretch) {
+            const previous: BIOMES = this.biomes[this.biomes.length - 1];
+            const choices: BIOMES[] = (Object.values(BIOMES) as BIOMES[]).filter((biome: BIOMES) => biome !== previous);
+            const random: Random = new Random(deriveSeed(this.biomeSeed, this.biomes.length));
+
+            this.biomes.push(choices[random.randomInt(0, choices.length - 1)]);
+        }
+
+        return this.biomes[stretch];
+    }
+}
+
+/**
+ * Pick a pattern for a block, weighted by how much the biome favours each.
+ */
+function pickPattern(biome: BIOMES, random: Random): TERRAIN_PATTERNS {
+    const weights: Partial<Record<TERRAIN_PATTERNS, number>> = BIOME_DEFINITIONS[biome].patternWeights;
+    const patterns: TERRAIN_PATTERNS[] = Object.keys(weights) as TERRAIN_PATTERNS[];
+    const totalWeight: number = patterns.reduce((total: number, pattern: TERRAIN_PATTERNS) => {
+        return total + (weights[pattern] || 0);
+    }, 0);
+
+    let pick: number = random.next() * totalWeight;
+    for (let i = 0; i < patterns.length - 1; i++) {
+        pick -= weights[patterns[i]] || 0;
+        if (pick < 0) {
+            return patterns[i];
+        }
+    }
+
+    return patterns[patterns.length - 1];
+}
+
+/**
+ * Try a few random positions within the placement area for an open one. Return null if none of them are, rather than
+ * trying forever in an area that's already full.
+ */
+function findOpenPosition(
+    placementArea: Rect,
+    random: Random,
+    isOpen: (position: Position) => boolean
+): Position | null {
+    for (let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS; attempt++) {
+        const position: Position = new Position(
+            random.randomInt(placementArea.left, placementArea.right),
+            random.randomInt(placementArea.top, placementArea.bottom)
+        );
+
+        if (isOpen(position)) {
+            return position;
+        }
+    }
+
+    return null;
+}
+
+function isInside(position: Position, area: Rect): boolean {
+    return position.x >= area.left && position.x <= area.right && position.y >= area.top && position.y <= area.bottom;
+}
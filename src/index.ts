@@ -1,22 +1,16 @@
 /**
- * The entry point for the game. Creates the game, kicks off any loading that's needed and then starts the game running.
+ * The entry point for the game. Creates the app, which shows the title screen while loading and runs every game from
+ * there.
  */
 
 import '../css/game.css';
-import { KEYS } from './Constants';
-import { Game } from './Core/Game';
+import { GAME_CANVAS } from './Constants';
+import { App } from './Core/App';
+import { Canvas } from './Core/Canvas';
 
 document.addEventListener("DOMContentLoaded", async () => {
-    const skiGame: Game = new Game();
-    await skiGame.load();
-    skiGame.run();
-});
+    const canvas: Canvas = new Canvas(GAME_CANVAS, window.innerWidth, window.innerHeight);
+    const app: App = new App(canvas);
 
-document.addEventListener("keydown", async (event) => {
-    // Restart the game when the user presses ESCAPE
-    if (event.code === KEYS.ESCAPE) {
-        const skiGame: Game = new Game();
-        await skiGame.load();
-        skiGame.run();
-    }
-});
\ No newline at end of file
+    await app.start();
+});